@@ -0,0 +1,291 @@
+import crypto from "crypto";
+import http from "http";
+import net from "net";
+import { ProxyTarget, proxyRequest, proxyUpgrade, toRawHeaders } from "./proxy.js";
+
+// Access gateway: a local proxy `run` puts in front of services that declare
+// `access`, for a quick password, token or IP allowlist without Cloudflare Access
+
+export interface ServiceAccess {
+  basicAuth?: { username: string; passwordHash: string };
+  // Accepted as a bearer token, a ?token= query parameter or the cookie set after one
+  tokenHash?: string;
+  // CIDR ranges the visitor's address (CF-Connecting-IP) must be in
+  allowIps?: string[];
+}
+
+// One gateway as passed from `run` to the detached supervisor. The access
+// settings are looked up by service key, so that no hashes end up in process
+// listings.
+export interface GatewaySpec {
+  port: number;
+  origin: string;
+  insecure?: boolean;
+  service: string;
+}
+
+export interface GatewayOptions {
+  port: number;
+  origin: string;
+  insecure?: boolean;
+  access: ServiceAccess;
+}
+
+type AccessDecision =
+  | { allowed: true; path: string; headers: http.IncomingHttpHeaders; setCookie?: string }
+  | { allowed: false; status: 401 | 403; message: string; challenge: boolean };
+
+const TOKEN_PARAM = "token";
+const TOKEN_COOKIE = "cloudtunnel_token";
+const HASH_PATTERN = /^scrypt\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/;
+// Secrets that passed are remembered, as scrypt is deliberately slow. Failed
+// guesses are not, so that they cannot push out the good ones.
+const MAX_CACHED_SECRETS = 100;
+
+export function hashSecret(secret: string): string {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(secret, salt, 32);
+  return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+// Runs scrypt on the thread pool, so that checking a guess does not hold up
+// other requests
+export async function verifySecret(secret: string, stored: string): Promise<boolean> {
+  if (!HASH_PATTERN.test(stored)) return false;
+  const [, salt, hash] = stored.split("$");
+  const expected = Buffer.from(hash, "base64");
+  const actual = await new Promise<Buffer>((resolve, reject) => {
+    crypto.scrypt(secret, Buffer.from(salt, "base64"), expected.length, (err, key) => err ? reject(err) : resolve(key));
+  });
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// Compares digests, so that the time taken tells nothing about how much of
+// the value matched, or about its length
+function equalsConstantTime(value: string, expected: string): boolean {
+  const digest = (s: string) => crypto.createHash("sha256").update(s).digest();
+  return crypto.timingSafeEqual(digest(value), digest(expected));
+}
+
+export function generateToken(): string {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+function parseIp(ip: string): { version: 4 | 6; value: bigint } | null {
+  // IPv4-mapped IPv6 addresses, e.g. ::ffff:203.0.113.7
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) ip = mapped[1];
+  
+  const version = net.isIP(ip);
+  if (version === 4) {
+    return { version: 4, value: ip.split(".").reduce((value, octet) => (value << 8n) + BigInt(parseInt(octet, 10)), 0n) };
+  }
+  if (version !== 6) return null;
+  
+  // Expand "::" and an embedded IPv4 suffix into eight 16-bit groups
+  let groups = ip.split("::").map(part => (part ? part.split(":") : []));
+  groups = groups.map(part => part.flatMap(group => {
+    if (!group.includes(".")) return [group];
+    const v4 = parseIp(group)!.value;
+    return [(v4 >> 16n).toString(16), (v4 & 0xffffn).toString(16)];
+  }));
+  const full = groups.length === 2
+    ? [...groups[0], ...Array(8 - groups[0].length - groups[1].length).fill("0"), ...groups[1]]
+    : groups[0];
+  return { version: 6, value: full.reduce((value, group) => (value << 16n) + BigInt(parseInt(group, 16)), 0n) };
+}
+
+function parseCidr(cidr: string): { version: 4 | 6; network: bigint; prefix: number } | null {
+  const [address, prefixText, ...rest] = cidr.trim().split("/");
+  const ip = parseIp(address);
+  if (!ip || rest.length > 0) return null;
+  
+  const bits = ip.version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits || (prefixText !== undefined && !/^\d+$/.test(prefixText))) {
+    return null;
+  }
+  const shift = BigInt(bits - prefix);
+  return { version: ip.version, network: (ip.value >> shift) << shift, prefix };
+}
+
+export function isValidCidr(cidr: string): boolean {
+  return parseCidr(cidr) !== null;
+}
+
+export function ipInCidr(ip: string, cidr: string): boolean {
+  const address = parseIp(ip);
+  const range = parseCidr(cidr);
+  if (!address || !range || address.version !== range.version) return false;
+  
+  const shift = BigInt((range.version === 4 ? 32 : 128) - range.prefix);
+  return (address.value >> shift) << shift === range.network;
+}
+
+export function validateAccess(access: ServiceAccess): string | true {
+  if (access.basicAuth) {
+    if (!access.basicAuth.username || access.basicAuth.username.includes(":")) {
+      return "Basic auth usernames cannot be empty or contain ':'.";
+    }
+    if (!HASH_PATTERN.test(access.basicAuth.passwordHash)) {
+      return "The basic auth password must be stored as a hash; set it again with 'cloudtunnel protect'.";
+    }
+  }
+  if (access.tokenHash !== undefined && !HASH_PATTERN.test(access.tokenHash)) {
+    return "The token must be stored as a hash; set it again with 'cloudtunnel protect'.";
+  }
+  const invalid = (access.allowIps || []).filter(cidr => !isValidCidr(cidr));
+  if (invalid.length > 0) {
+    return `Invalid IP range: ${invalid.join(", ")}. Use an address or CIDR, e.g. 203.0.113.0/24 or 2001:db8::/32.`;
+  }
+  return true;
+}
+
+export function isProtected(access: ServiceAccess | undefined): boolean {
+  return !!access && (!!access.basicAuth || !!access.tokenHash || (access.allowIps?.length || 0) > 0);
+}
+
+// Short labels for listings, e.g. ["basic auth for admin", "2 IP ranges"]
+export function describeAccess(access: ServiceAccess): string[] {
+  const details: string[] = [];
+  if (access.basicAuth) details.push(`basic auth for ${access.basicAuth.username}`);
+  if (access.tokenHash) details.push("token");
+  if (access.allowIps?.length) details.push(access.allowIps.length === 1 ? `IP ${access.allowIps[0]}` : `${access.allowIps.length} IP ranges`);
+  return details;
+}
+
+function getCookie(header: string | undefined, name: string): string | undefined {
+  for (const part of (header || "").split(";")) {
+    const separator = part.indexOf("=");
+    if (separator > 0 && part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      } catch (err) {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+function withoutCookie(header: string, name: string): string | undefined {
+  const kept = header.split(";").filter(part => part.split("=")[0].trim() !== name).map(part => part.trim());
+  return kept.length > 0 ? kept.join("; ") : undefined;
+}
+
+// Decides whether a request may pass. The IP allowlist always applies; when
+// basic auth and a token are both set, either one is enough. Credentials meant
+// for the gateway are removed before the request is forwarded.
+async function checkAccess(access: ServiceAccess, req: http.IncomingMessage, verify: (secret: string, hash: string) => Promise<boolean>): Promise<AccessDecision> {
+  const url = new URL(req.url || "/", "http://gateway");
+  const headers = { ...req.headers };
+  
+  if (access.allowIps?.length) {
+    const ip = String(req.headers["cf-connecting-ip"] || "");
+    if (!ip || !access.allowIps.some(cidr => ipInCidr(ip, cidr))) {
+      return { allowed: false, status: 403, message: "Forbidden", challenge: false };
+    }
+  }
+  
+  const pass = (path = req.url || "/", setCookie?: string): AccessDecision => ({ allowed: true, path, headers, setCookie });
+  if (!access.basicAuth && !access.tokenHash) return pass();
+  
+  const authorization = String(req.headers.authorization || "");
+  const [scheme, credentials] = [authorization.split(" ")[0].toLowerCase(), authorization.slice(authorization.indexOf(" ") + 1).trim()];
+  
+  if (access.basicAuth && scheme === "basic") {
+    const decoded = Buffer.from(credentials, "base64").toString("utf8");
+    const separator = decoded.indexOf(":");
+    if (separator >= 0) {
+      // The password is checked even for a wrong username, which would
+      // otherwise be told apart by the time scrypt takes
+      const userMatches = equalsConstantTime(decoded.slice(0, separator), access.basicAuth.username);
+      const passwordMatches = await verify(decoded.slice(separator + 1), access.basicAuth.passwordHash);
+      if (userMatches && passwordMatches) {
+        delete headers.authorization;
+        return pass();
+      }
+    }
+  }
+  
+  if (access.tokenHash) {
+    if (scheme === "bearer" && await verify(credentials, access.tokenHash)) {
+      delete headers.authorization;
+      return pass();
+    }
+    
+    const queryToken = url.searchParams.get(TOKEN_PARAM);
+    if (queryToken && await verify(queryToken, access.tokenHash)) {
+      url.searchParams.delete(TOKEN_PARAM);
+      return pass(`${url.pathname}${url.search}`, `${TOKEN_COOKIE}=${encodeURIComponent(queryToken)}; Path=/; HttpOnly; Secure; SameSite=Lax`);
+    }
+    
+    const cookieToken = getCookie(req.headers.cookie, TOKEN_COOKIE);
+    if (cookieToken && await verify(cookieToken, access.tokenHash)) {
+      const cookie = withoutCookie(req.headers.cookie!, TOKEN_COOKIE);
+      if (cookie) headers.cookie = cookie;
+      else delete headers.cookie;
+      return pass();
+    }
+  }
+  
+  return { allowed: false, status: 401, message: "Unauthorized", challenge: !!access.basicAuth };
+}
+
+export function createAccessGateway(options: GatewayOptions): http.Server {
+  const target: ProxyTarget = { origin: new URL(options.origin), insecure: options.insecure };
+  
+  const verified = new Set<string>();
+  const verify = async (secret: string, hash: string): Promise<boolean> => {
+    const key = crypto.createHash("sha256").update(`${hash}\0${secret}`).digest("hex");
+    if (verified.has(key)) return true;
+    if (!(await verifySecret(secret, hash))) return false;
+    if (verified.size >= MAX_CACHED_SECRETS) verified.clear();
+    verified.add(key);
+    return true;
+  };
+  
+  const server = http.createServer(async (req, res) => {
+    const decision = await checkAccess(options.access, req, verify);
+    if (!decision.allowed) {
+      res.writeHead(decision.status, {
+        "content-type": "text/plain; charset=utf-8",
+        ...(decision.challenge ? { "www-authenticate": 'Basic realm="cloudtunnel", charset="UTF-8"' } : {}),
+      });
+      res.end(`${decision.message}\n`);
+      return;
+    }
+    
+    // A token in the URL is swapped for a cookie, so that it leaves the
+    // address bar and links within the site keep working
+    if (decision.setCookie && (req.method === "GET" || req.method === "HEAD")) {
+      res.writeHead(303, { location: decision.path, "set-cookie": decision.setCookie });
+      res.end();
+      return;
+    }
+    
+    proxyRequest(req, res, { ...target, path: decision.path, headers: decision.headers });
+  });
+  
+  server.on("upgrade", async (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+    // The client may drop the connection while its credentials are checked
+    socket.on("error", () => socket.destroy());
+    const decision = await checkAccess(options.access, req, verify);
+    if (!decision.allowed) {
+      socket.end(`HTTP/1.1 ${decision.status} ${decision.message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+      return;
+    }
+    // Upgrade and Connection are kept in the headers, so the handshake still works
+    proxyUpgrade(req, socket, head, { ...target, path: decision.path, rawHeaders: toRawHeaders(decision.headers) });
+  });
+  
+  return server;
+}
+
+export function startAccessGateway(options: GatewayOptions): Promise<http.Server> {
+  const server = createAccessGateway(options);
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, "127.0.0.1", () => resolve(server));
+  });
+}
@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+
+// Main entry point for the CloudTunnel CLI
+import "./cli.js";
\ No newline at end of file
@@ -1,226 +1,571 @@
-#!/usr/bin/env node
-
 import { Command } from "commander";
 import inquirer from "inquirer";
 import fs from "fs-extra";
 import chalk from "chalk";
-import { execSync, exec, spawn, SpawnOptions } from "child_process";
+import { exec, spawn } from "child_process";
 import path from "path";
-import YAML from "yaml";
 import os from "os";
 import { fileURLToPath } from "url";
 import { dirname } from "path";
 import { createRequire } from "module";
+import qrcode from "qrcode-terminal";
+import { TunnelProcessState, getLiveProcessState, listProcessStates } from "./supervisor.js";
+import {
+  LogEntry,
+  LogLevel,
+  LOG_LEVELS,
+  filterLogEntries,
+  followLogFile,
+  parseLog,
+  parseLogLine,
+  parseSince,
+} from "./logs.js";
+import {
+  HealthResult,
+  DEFAULT_HEALTH_INTERVAL,
+  DEFAULT_HEALTH_TIMEOUT,
+  checkTcp,
+  parseDuration,
+} from "./health.js";
+import { createBackup, findBackup, listBackups, writeFileAtomic } from "./config-store.js";
+import { diffLines } from "./migrations.js";
+import { ExitCode } from "./exit-codes.js";
+import { childExitCode, detectListeningPort } from "./dev-server.js";
+import { MANIFEST_FILES, Manifest, findManifest, loadManifest } from "./manifest.js";
+import { CheckResult, CheckStatus } from "./doctor.js";
+import {
+  InstalledUnit,
+  JOURNAL_LOG,
+  RESTART_POLICIES,
+  RestartPolicy,
+  ServiceScope,
+  ServiceUnitSpec,
+  UnitState,
+  findInstalledUnit,
+  getServiceManager,
+  getUnitFile,
+  getUnitName,
+  installUnit,
+  renderUnit,
+  uninstallUnit,
+} from "./service-unit.js";
+import {
+  expandHostname,
+  isHostnameTemplate,
+  listGitBranches,
+} from "./hostname-template.js";
+import {
+  DEFAULT_CONTEXT,
+  ContextError,
+  contextExists,
+  createContext,
+  getCloudtunnelHome,
+  getContextDir,
+  listContexts,
+  resolveContextName,
+  writeCurrentContext,
+} from "./contexts.js";
+import {
+  Capture,
+  DEFAULT_BODY_LIMIT,
+  InspectorError,
+  InspectorSpec,
+  clearCaptures,
+  findCapture,
+  formatBody,
+  listCaptures,
+  replayCapture,
+} from "./inspector.js";
+import { createInspectorUi } from "./inspector-ui.js";
+import {
+  GatewaySpec,
+  ServiceAccess,
+  describeAccess,
+  generateToken,
+  hashSecret,
+  isProtected,
+  isValidCidr,
+  validateAccess,
+} from "./access-gateway.js";
+import {
+  DEFAULT_LOG_MAX_BYTES,
+  DEFAULT_LOG_MAX_FILES,
+  LogFields,
+  LogFileOptions,
+  LoggerLevel,
+  appendLogEntry,
+  execSyncLogged,
+  formatLogFields,
+  isLevelEnabled,
+  moreDetailedLevel,
+  readLogEnv,
+} from "./logger.js";
+import { MetricSample, MetricsSnapshot, fetchMetrics, findFreePort, summarizeMetrics } from "./metrics.js";
+import {
+  COMPLETION_SHELLS,
+  Candidate,
+  ValueRequest,
+  completeWords,
+  completionScript,
+  formatCandidates,
+  isCompletionShell,
+} from "./completion.js";
+import {
+  DEFAULT_HOOK_RETRIES,
+  DEFAULT_HOOK_TIMEOUT,
+  HOOK_EVENTS,
+  Hook,
+  HookDelivery,
+  HookPayload,
+  deliverHook,
+  describeHook,
+  isHookEvent,
+} from "./hooks.js";
+import {
+  DEFAULT_PORTS,
+  PORT_SERVICE_TYPES,
+  PreviewRoute,
+  SERVICE_TYPES,
+  Service,
+  routedHostnames,
+  serviceKey,
+  validateHostname,
+  validatePort,
+} from "./services.js";
+import {
+  CONFIG_VERSION,
+  Config,
+  ImportPlan,
+  ImportStrategy,
+  RemoteTunnel,
+  ServiceInput,
+  TunnelEntry,
+  TunnelError,
+  TunnelManager,
+  buildService,
+  findTunnelByName,
+  parseConfigFile,
+  readConfigFile,
+  readImportFile,
+  resolveHostname,
+  resolveTunnel,
+} from "./tunnel-manager.js";
 
 // Get the directory of the current module for package.json access
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const require = createRequire(import.meta.url);
 
-// Config types
-interface Service {
-  hostname: string;
-  service: string;
-  createdAt?: string;
-  updatedAt?: string;
-  protocol?: string;
-  port?: string;
-}
-
-interface Tunnel {
-  id: string;
-  name: string;
-  created_at?: string;
-  connections?: any[];
-  status?: string;
-}
-
-interface Config {
-  version: string;
-  activeTunnel?: string;
-  tunnels: {
-    [tunnelId: string]: {
-      tunnelName: string;
-      tunnelId: string;
-      services: Service[];
-      createdAt: string;
-      lastUsed?: string;
-    };
-  };
-}
-
 // Constants
-const CONFIG_VERSION = "2.0.0";
-const CONFIG_DIR = path.join(os.homedir(), ".cloudflared");
-const CONFIG_FILE = path.join(CONFIG_DIR, "cloudtunnel-config.json");
-const CERT_FILE = path.join(CONFIG_DIR, "cert.pem");
-const LOG_FILE = path.join(CONFIG_DIR, "cloudtunnel.log");
+const CLOUDTUNNEL_HOME = getCloudtunnelHome();
+// The selected context, set by useContext before a command runs. Its paths
+// are read from manager.paths.
+let manager: TunnelManager;
+useContext(DEFAULT_CONTEXT);
+// Quick tunnels have no tunnel ID, so their state and logs use `share-<port>`
+const QUICK_TUNNEL_PREFIX = "share-";
+const QUICK_TUNNEL_URL_PATTERN = /https:\/\/[a-z0-9-]+\.trycloudflare\.com/g;
 
 // Initialize program
 const program = new Command();
 
+function useContext(name: string): void {
+  manager = new TunnelManager({ home: CLOUDTUNNEL_HOME, context: name, log });
+}
+
 // Utility functions
-function log(message: string, level: "info" | "error" | "warn" = "info") {
-  const timestamp = new Date().toISOString();
-  const coloredMessage = 
-    level === "error" ? chalk.red(message) :
-    level === "warn" ? chalk.yellow(message) :
-    chalk.cyan(message);
-  
-  console.log(coloredMessage);
+// Set from the --json option of the command being run
+let jsonOutput = false;
+
+// Least severe level shown in the terminal, set by --verbose, --quiet or
+// CLOUDTUNNEL_LOG_LEVEL. The log file gets info and up, or more with a more
+// detailed level.
+let consoleLevel: LoggerLevel = "info";
+let logFileSettings: Omit<LogFileOptions, "file"> = {
+  level: "info",
+  format: "text",
+  maxBytes: DEFAULT_LOG_MAX_BYTES,
+  maxFiles: DEFAULT_LOG_MAX_FILES,
+  fields: {},
+};
+
+// Applies CLOUDTUNNEL_LOG_* and the --verbose and --quiet options. The
+// resulting level is passed on to processes started from here, such as the
+// supervisor of `run --detach`, through CLOUDTUNNEL_LOG_LEVEL.
+function configureLogging(options: { verbose?: number; quiet?: boolean }, command: string): void {
+  const settings = readLogEnv();
+  consoleLevel = options.quiet ? "error" :
+    options.verbose ? (options.verbose > 1 ? "trace" : "debug") :
+    settings.level || "info";
+  if (options.quiet || options.verbose) process.env.CLOUDTUNNEL_LOG_LEVEL = consoleLevel;
   
-  // Also write to log file
-  try {
-    fs.ensureDirSync(CONFIG_DIR);
-    fs.appendFileSync(LOG_FILE, `[${timestamp}] [${level.toUpperCase()}] ${message}\n`);
-  } catch (err) {
-    // Ignore logging errors
-  }
+  logFileSettings = {
+    level: moreDetailedLevel(consoleLevel, "info"),
+    format: settings.format,
+    maxBytes: settings.maxBytes,
+    maxFiles: settings.maxFiles,
+    fields: { command, context: manager.context, pid: process.pid },
+  };
 }
 
-function checkCloudflaredInstalled(): boolean {
-  try {
-    execSync("cloudflared --version", { stdio: "ignore" });
-    return true;
-  } catch (error) {
-    return false;
+// Adds the tunnel a command works on to its JSON log entries
+function setLogTunnel(tunnelId: string): void {
+  logFileSettings.fields = { ...logFileSettings.fields, tunnelId };
+}
+
+function printLog(message: string, level: LoggerLevel, fields: LogFields, toStderr: boolean, always = false): void {
+  if (always || isLevelEnabled(level, consoleLevel)) {
+    const coloredMessage =
+      level === "error" ? chalk.red(message) :
+      level === "warn" ? chalk.yellow(message) :
+      level === "info" ? chalk.cyan(message) :
+      chalk.dim(`${message}${formatLogFields(fields)}`);
+    
+    if (toStderr) {
+      console.error(coloredMessage);
+    } else {
+      console.log(coloredMessage);
+    }
   }
+  appendLogEntry({ file: manager.paths.logFile, ...logFileSettings }, level, message, fields);
 }
 
-function ensureCloudflaredInstalled(): void {
-  if (!checkCloudflaredInstalled()) {
-    log("Error: cloudflared is not installed or not in the PATH.", "error");
-    log("Please install cloudflared using one of the following methods:", "warn");
-    log("  macOS: brew install cloudflare/cloudflare/cloudflared", "info");
-    log("  Windows: choco install cloudflared", "info");
-    log("  Linux: See https://developers.cloudflare.com/cloudflare-one/connections/connect-apps/install-and-setup/installation", "info");
-    process.exit(1);
+// Errors go to stderr, as does everything with --json, to keep stdout for the
+// JSON document
+function log(message: string, level: LoggerLevel = "info", fields: LogFields = {}) {
+  printLog(message, level, fields, jsonOutput || level === "error");
+}
+
+// Reports an error and exits with `code`. With --json the error is also
+// printed to stdout as { "error": { message, code, hint } }.
+function fail(message: string, code: ExitCode = ExitCode.ERROR, hint?: string): never {
+  if (jsonOutput) {
+    console.log(JSON.stringify({ error: { message, code, hint } }, null, 2));
   }
+  log(message, "error");
+  // The hint belongs to the error, so --quiet shows it too
+  if (hint) printLog(hint, "info", {}, true, true);
+  process.exit(code);
+}
+
+function isEnvSet(value?: string): boolean {
+  return !!value && !["0", "false", "no"].includes(value.toLowerCase());
 }
 
-function isLoggedIn(): boolean {
-  return fs.existsSync(CERT_FILE);
+// Prompts are disabled by --non-interactive, by CI or CLOUDTUNNEL_NON_INTERACTIVE
+// in the environment, and when stdin is not a terminal
+function isInteractive(): boolean {
+  return !program.opts().nonInteractive &&
+    !isEnvSet(process.env.CI) &&
+    !isEnvSet(process.env.CLOUDTUNNEL_NON_INTERACTIVE) &&
+    !!process.stdin.isTTY;
 }
 
-function ensureLoggedIn(): void {
-  if (!isLoggedIn()) {
-    log("Error: You need to log in to Cloudflare first.", "error");
-    log("Please run 'cloudtunnel login' before continuing.", "warn");
-    process.exit(1);
+// inquirer.prompt, except that it fails with INPUT_REQUIRED instead of waiting
+// for an answer when prompts are disabled. `hint` names the flags that answer
+// the questions.
+async function prompt(questions: any[], hint: string): Promise<any> {
+  const asked = questions.filter(q => q.when === undefined || q.when === true);
+  if (asked.length === 0) return {};
+  
+  if (!isInteractive()) {
+    fail(`Input required: ${asked.map(q => q.message).join(" ")}`, ExitCode.INPUT_REQUIRED, hint);
   }
+  return inquirer.prompt(questions);
 }
 
-function loadConfig(): Config {
-  if (!fs.existsSync(CONFIG_FILE)) {
-    return { version: CONFIG_VERSION, tunnels: {} };
+// Prompt validation for hostnames and hostname templates
+function checkHostnameInput(hostname: string): string | true {
+  if (!isHostnameTemplate(hostname)) {
+    return validateHostname(hostname) || "Invalid hostname format.";
   }
   
   try {
-    const config = JSON.parse(fs.readFileSync(CONFIG_FILE, "utf8"));
-    
-    // Migrate old config format if needed
-    if (!config.version || config.version !== CONFIG_VERSION) {
-      if (config.tunnelId && config.tunnelName) {
-        // Old single-tunnel format
-        const oldConfig = config;
-        return {
-          version: CONFIG_VERSION,
-          activeTunnel: oldConfig.tunnelId,
-          tunnels: {
-            [oldConfig.tunnelId]: {
-              tunnelName: oldConfig.tunnelName,
-              tunnelId: oldConfig.tunnelId,
-              services: oldConfig.services || [],
-              createdAt: new Date().toISOString()
-            }
-          }
-        };
-      }
+    const resolved = expandHostname(hostname);
+    return validateHostname(resolved) || `${hostname} expands to an invalid hostname: ${resolved}`;
+  } catch (err: any) {
+    return err.message;
+  }
+}
+
+async function checkServiceHealth(port: string, host: string = "localhost"): Promise<boolean> {
+  const result = await checkTcp(host, parseInt(port), parseDuration(DEFAULT_HEALTH_TIMEOUT));
+  return result.healthy;
+}
+
+// Builds the access settings given by --basic-auth, --token and --allow-ip on
+// top of `current`, hashing the secrets. A --token without a value generates
+// one, which is returned so that it can be shown once.
+function buildServiceAccess(
+  options: { basicAuth?: string; token?: string | boolean; allowIp?: string[] },
+  current: ServiceAccess = {}
+): { access?: ServiceAccess; generatedToken?: string } {
+  const access: ServiceAccess = { ...current };
+  
+  if (options.basicAuth !== undefined) {
+    const separator = options.basicAuth.indexOf(":");
+    if (separator <= 0 || separator === options.basicAuth.length - 1) {
+      fail("--basic-auth must be given as user:password.", ExitCode.USAGE);
     }
-    
-    return config;
-  } catch (error) {
-    log(`Error parsing config file: ${error}`, "error");
-    return { version: CONFIG_VERSION, tunnels: {} };
+    access.basicAuth = {
+      username: options.basicAuth.slice(0, separator),
+      passwordHash: hashSecret(options.basicAuth.slice(separator + 1)),
+    };
+  }
+  
+  let generatedToken: string | undefined;
+  if (options.token !== undefined) {
+    if (options.token === true) generatedToken = generateToken();
+    const token = generatedToken || String(options.token);
+    if (token.length < 8) {
+      fail("--token must be at least 8 characters long.", ExitCode.USAGE);
+    }
+    access.tokenHash = hashSecret(token);
+  }
+  
+  if (options.allowIp && options.allowIp.length > 0) {
+    const invalid = options.allowIp.filter(cidr => !isValidCidr(cidr));
+    if (invalid.length > 0) {
+      fail(`Invalid IP range: ${invalid.join(", ")}. Use an address or CIDR, e.g. 203.0.113.0/24.`, ExitCode.USAGE);
+    }
+    access.allowIps = options.allowIp.map(cidr => cidr.trim());
+  }
+  
+  const accessError = validateAccess(access);
+  if (accessError !== true) {
+    fail(accessError, ExitCode.USAGE);
   }
+  return { access: isProtected(access) ? access : undefined, generatedToken };
+}
+
+function describeService(srv: Service): string {
+  const details: string[] = [];
+  if (srv.path) details.push(`path ${srv.path}`);
+  
+  const originRequest = srv.originRequest || {};
+  if (originRequest.noTLSVerify) details.push("noTLSVerify");
+  if (originRequest.httpHostHeader) details.push(`host header ${originRequest.httpHostHeader}`);
+  if (originRequest.originServerName) details.push(`SNI ${originRequest.originServerName}`);
+  if (originRequest.connectTimeout) details.push(`timeout ${originRequest.connectTimeout}`);
+  if (originRequest.caPool) details.push(`CA ${originRequest.caPool}`);
+  if (srv.healthCheck) details.push(`health ${srv.healthCheck.method || "GET"} ${srv.healthCheck.path || "/"}`);
+  if (isProtected(srv.access)) details.push(`protected: ${describeAccess(srv.access!).join(", ")}`);
+  
+  return details.length > 0 ? ` ${chalk.dim(`(${details.join(", ")})`)}` : "";
 }
 
-function saveConfig(config: Config): void {
-  fs.ensureDirSync(CONFIG_DIR);
-  fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+function formatHealth(result: HealthResult | null): string {
+  if (!result) return chalk.dim("•");
+  return result.healthy ? chalk.green("✓") : chalk.red("✗");
 }
 
-function getActiveTunnel(config: Config) {
-  if (!config.activeTunnel || !config.tunnels[config.activeTunnel]) {
-    return null;
+function describeHealthResult(result: HealthResult | null): string {
+  if (!result) return chalk.dim("not checked");
+  const status = result.statusCode ? `HTTP ${result.statusCode}, ` : "";
+  if (result.healthy) return chalk.green(`healthy (${status}${result.latencyMs}ms)`);
+  return chalk.red(`unhealthy (${status}${result.error})`);
+}
+
+function formatUptime(since: string): string {
+  const seconds = Math.max(0, Math.floor((Date.now() - new Date(since).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+function describeProcessState(state: TunnelProcessState): string {
+  const parts = [`${state.mode}`, `supervisor PID ${state.supervisorPid}`];
+  if (state.pid) parts.push(`cloudflared PID ${state.pid}`);
+  if (state.childStartedAt && state.status === "running") parts.push(`up ${formatUptime(state.childStartedAt)}`);
+  if (state.restarts > 0) parts.push(`${state.restarts} restart(s)`);
+  return parts.join(", ");
+}
+
+function describeServiceUnit(unit: InstalledUnit & { state: UnitState }): string {
+  const state = unit.state === "active" ? chalk.green(unit.state) : unit.state === "failed" ? chalk.red(unit.state) : chalk.yellow(unit.state);
+  return `${unit.manager} ${unit.scope} unit ${unit.name} (${state})`;
+}
+
+// Applies changed services to the tunnel if it is running on this machine. A
+// failed reload is reported without undoing the change to the config.
+async function reloadRunningTunnel(tunnel: TunnelEntry): Promise<void> {
+  let result;
+  try {
+    result = await manager.reload(tunnel.tunnelId);
+  } catch (err) {
+    if (!(err instanceof TunnelError)) throw err;
+    log(err.message, "error");
+    if (err.hint) log(err.hint, "info");
+    process.exitCode = err.code;
+    return;
+  }
+  
+  if (result === "reloaded") {
+    log(`✓ Reloaded the running tunnel ${tunnel.tunnelName}.`, "info");
+  } else if (result === "service") {
+    const unit = manager.getServiceUnit(tunnel.tunnelId);
+    log(`Restart ${unit ? describeServiceUnit(unit) : "its service unit"} to apply the change.`, "warn");
+  } else if (result === "restart-required") {
+    log(`Restart ${tunnel.tunnelName} to apply the change; the process running it cannot reload.`, "warn");
   }
-  return config.tunnels[config.activeTunnel];
 }
 
-function validateHostname(hostname: string): boolean {
-  const hostnameRegex = /^([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]{2,}$/;
-  return hostnameRegex.test(hostname);
+// cloudflared's output, for tunnels run attached to the terminal
+function printConnectorOutput(chunk: Buffer, stream: "stdout" | "stderr"): void {
+  process[stream].write(chunk);
 }
 
-function checkServiceHealth(port: string): Promise<boolean> {
-  return new Promise((resolve) => {
-    const net = createRequire(import.meta.url)("net");
-    const client = new net.Socket();
-    
-    client.setTimeout(1000);
-    
-    client.on("connect", () => {
-      client.destroy();
-      resolve(true);
-    });
-    
-    client.on("error", () => {
-      resolve(false);
-    });
-    
-    client.on("timeout", () => {
-      client.destroy();
-      resolve(false);
-    });
+function printCaptureLine(capture: Capture): void {
+  const status = capture.response?.status;
+  const statusText = !status ? chalk.red(capture.error ? "ERR" : "---") :
+    status >= 500 ? chalk.red(status) :
+    status >= 400 ? chalk.yellow(status) :
+    chalk.green(status);
+  console.log(`${chalk.cyan("inspect")} ${capture.request.method} ${capture.request.headers.host || ""}${capture.request.path} ${statusText} ${capture.durationMs}ms ${chalk.dim(capture.id)}`);
+}
+
+// With `inspect`, HTTP services are served through inspecting proxies that
+// record their traffic for `cloudtunnel inspect`. With `watch`, the tunnel is
+// reloaded whenever the config file changes.
+async function startTunnel(
+  config: Config,
+  tunnelId: string,
+  tunnel: TunnelEntry,
+  detach?: boolean,
+  inspect?: { bodyLimit: number },
+  watch?: boolean
+): Promise<void> {
+  setLogTunnel(tunnelId);
+  const plan = await manager.planRun(config, tunnel, { inspect });
+  
+  log(`Starting tunnel: ${tunnel.tunnelName}`, "info");
+  
+  if (tunnel.services.length > 0) {
+    console.log(chalk.green("\nServices:"));
+    for (const srv of tunnel.services) {
+      const health = await manager.checkService(srv);
+      console.log(`  ${formatHealth(health)} https://${chalk.bold(resolveHostname(srv.hostname))} → ${srv.service}${describeService(srv)}`);
+    }
+  }
+  if (plan.inspectors.length > 0) {
+    log(`\nInspecting ${plan.inspectors.map(spec => spec.origin).join(", ")}. Show requests with 'cloudtunnel inspect'.`, "info");
+  }
+  
+  if (detach) {
+    const supervisorPid = manager.startSupervisor(plan, { watch });
     
-    client.connect(parseInt(port), "localhost");
+    log(`\nTunnel started in background (supervisor PID ${supervisorPid}).`, "info");
+    log("Use 'cloudtunnel stop' to stop it.", "info");
+    return;
+  }
+  
+  if (watch) {
+    log("\nWatching the config file; service changes are applied without a restart.", "info");
+  }
+  log("\nPress Ctrl+C to stop the tunnel.", "info");
+  const failure = await manager.runAttached(tunnel, plan, {
+    inspect,
+    watch,
+    onCapture: printCaptureLine,
+    onOutput: printConnectorOutput,
   });
+  if (failure) process.exitCode = ExitCode.CLOUDFLARE;
+}
+
+function isQuickTunnel(tunnelId: string): boolean {
+  return tunnelId.startsWith(QUICK_TUNNEL_PREFIX);
 }
 
-function getTunnelStatus(tunnelId: string): "running" | "stopped" | "unknown" {
+// A quick tunnel gets a new URL every time cloudflared starts, so the most
+// recent one in its log is the current one
+function getQuickTunnelUrl(tunnelId: string, fromOffset = 0): string | null {
   try {
-    const tunnels = JSON.parse(
-      execSync("cloudflared tunnel list --output json").toString()
-    ) as Tunnel[];
-    
-    const tunnel = tunnels.find(t => t.id === tunnelId);
-    if (!tunnel) return "unknown";
-    
-    // Check if tunnel has active connections
-    if (tunnel.connections && tunnel.connections.length > 0) {
-      return "running";
+    const content = fs.readFileSync(manager.getTunnelLogFile(tunnelId), "utf8").slice(fromOffset);
+    const urls = content.match(QUICK_TUNNEL_URL_PATTERN);
+    return urls ? urls[urls.length - 1] : null;
+  } catch (err) {
+    return null;
+  }
+}
+
+// Output handler for a foreground quick tunnel that announces its URL once
+// cloudflared reports it
+function watchForShareUrl(options: { copy?: boolean; qr?: boolean }): (chunk: Buffer, stream: "stdout" | "stderr") => void {
+  let announced = false;
+  let output = "";
+  return (chunk, stream) => {
+    printConnectorOutput(chunk, stream);
+    if (announced) return;
+    output += chunk.toString();
+    const match = output.match(QUICK_TUNNEL_URL_PATTERN);
+    if (match) {
+      announced = true;
+      announceShareUrl(match[0], options);
     }
-    
-    // Also check local processes
-    if (process.platform === "win32") {
-      try {
-        const result = execSync(`wmic process where "commandline like '%${tunnelId}%' and name='cloudflared.exe'" get processid`).toString();
-        if (result.includes(tunnelId)) return "running";
-      } catch (e) {
-        // Process not found
-      }
+  };
+}
+
+function copyToClipboard(text: string): boolean {
+  const commands =
+    process.platform === "darwin" ? ["pbcopy"] :
+    process.platform === "win32" ? ["clip"] :
+    ["wl-copy", "xclip -selection clipboard", "xsel --clipboard --input"];
+  
+  for (const command of commands) {
+    try {
+      execSyncLogged(command, { input: text, stdio: ["pipe", "ignore", "ignore"] }, log);
+      return true;
+    } catch (err) {
+      // Try the next clipboard tool
+    }
+  }
+  return false;
+}
+
+function announceShareUrl(url: string, options: { copy?: boolean; qr?: boolean }): void {
+  console.log(`\n${chalk.green("✓")} Your local service is available at ${chalk.bold.underline(url)}\n`);
+  
+  if (options.copy) {
+    if (copyToClipboard(url)) {
+      log("URL copied to clipboard.", "info");
     } else {
-      try {
-        execSync(`pgrep -f "cloudflared.*${tunnelId}"`);
-        return "running";
-      } catch (e) {
-        // Process not found
-      }
+      log("Could not copy the URL: no clipboard tool found.", "warn");
     }
-    
-    return "stopped";
-  } catch (error) {
-    return "unknown";
+  }
+  
+  if (options.qr) {
+    qrcode.generate(url, { small: true });
+  }
+}
+
+async function stopTunnel(tunnelId: string, tunnel: TunnelEntry): Promise<void> {
+  setLogTunnel(tunnelId);
+  const result = await manager.stop(tunnelId);
+  
+  if (result === "service") {
+    const unit = manager.getServiceUnit(tunnelId)!;
+    log(`${tunnel.tunnelName} is run by the ${unit.manager} unit ${unit.name}; it would be restarted.`, "warn");
+    log("Use 'cloudtunnel service uninstall' to stop it for good.", "info");
+  } else if (result === "not-running") {
+    log(`Could not stop ${tunnel.tunnelName} (not running on this machine)`, "warn");
+  } else if (result === "crashed") {
+    log(`${tunnel.tunnelName} had already stopped after repeated crashes.`, "warn");
+  } else {
+    log(`Stopped: ${tunnel.tunnelName}`, "info");
+  }
+}
+
+function resolveManifest(file?: string): { manifestPath: string; manifest: Manifest } {
+  const manifestPath = file ? path.resolve(file) : findManifest(process.cwd());
+  
+  if (!manifestPath || !fs.existsSync(manifestPath)) {
+    fail(`No ${MANIFEST_FILES[0]} found in this directory or any parent.`, ExitCode.NOT_FOUND);
+  }
+  
+  try {
+    return { manifestPath, manifest: loadManifest(manifestPath) };
+  } catch (err: any) {
+    fail(`Invalid manifest: ${err.message}`, ExitCode.CONFIG);
   }
 }
 
@@ -239,7 +584,46 @@ function getPackageVersion(): string {
 program
   .name("cloudtunnel")
   .description("A user-friendly CLI for managing Cloudflare Tunnels")
-  .version(getPackageVersion());
+  .version(getPackageVersion())
+  .option("--non-interactive", "Never prompt; fail with exit code 9 when input is missing (default when CI is set or stdin is not a terminal)")
+  .option("--context <name>", "Use this context instead of the current one (or set CLOUDTUNNEL_CONTEXT)")
+  .option("-v, --verbose", "Show debug messages, such as the cloudflared commands run; twice for trace messages", (_value: string, previous: number) => previous + 1, 0)
+  .option("--quiet", "Only show errors")
+  // Usage errors get their own exit code; help and --version still exit with 0
+  .exitOverride((err) => process.exit(err.exitCode === 0 ? ExitCode.OK : ExitCode.USAGE))
+  .hook("preAction", (_program, actionCommand) => {
+    jsonOutput = !!actionCommand.opts().json;
+    
+    const context = resolveContextName(CLOUDTUNNEL_HOME, program.opts().context);
+    if (contextExists(CLOUDTUNNEL_HOME, context)) {
+      useContext(context);
+    } else if (actionCommand.parent?.name() !== "context") {
+      // `context` commands still run, so that a removed current context can be replaced
+      fail(`Context not found: ${context}`, ExitCode.NOT_FOUND, "Run 'cloudtunnel context list' to see your contexts.");
+    }
+    
+    const commandNames: string[] = [];
+    for (let cmd: Command | null = actionCommand; cmd && cmd !== program; cmd = cmd.parent) {
+      commandNames.unshift(cmd.name());
+    }
+    const command = commandNames.join(" ");
+    const { verbose, quiet } = program.opts();
+    if (verbose && quiet) {
+      fail("Use either --verbose or --quiet.", ExitCode.USAGE);
+    }
+    try {
+      configureLogging({ verbose, quiet }, command);
+    } catch (err: any) {
+      fail(err.message, ExitCode.USAGE, "Check the CLOUDTUNNEL_LOG_* variables in your environment.");
+    }
+    
+    const started = Date.now();
+    log(`Running ${command}`, "debug");
+    log(`Using context ${manager.context}`, "trace", { configFile: manager.paths.configFile, logFile: manager.paths.logFile, stateDir: manager.paths.stateDir });
+    process.on("exit", (code) => {
+      log(`Finished ${command}`, "debug", { exitCode: code, durationMs: Date.now() - started });
+    });
+  });
 
 // Login command
 program
@@ -247,39 +631,37 @@ program
   .description("Authenticate with your Cloudflare account")
   .option("-f, --force", "Force login even if already authenticated")
   .action(async (options: { force?: boolean }) => {
-    ensureCloudflaredInstalled();
+    manager.ensureCloudflaredInstalled();
     
-    if (isLoggedIn() && !options.force) {
-      const answers = await inquirer.prompt([
+    if (manager.isLoggedIn() && !options.force) {
+      const answers = await prompt([
         {
           type: "confirm",
           name: "overwrite",
           message: `Already logged in. Do you want to re-authenticate?`,
           default: false,
         },
-      ]);
+      ], "Pass --force to log in again.");
       
       if (!answers.overwrite) {
         log("Using existing authentication.", "info");
         return;
       }
       
-      fs.removeSync(CERT_FILE);
+      fs.removeSync(manager.paths.certFile);
     }
     
     try {
-      log("Opening browser to login with Cloudflare...", "info");
-      execSync("cloudflared tunnel login", { stdio: "inherit" });
+      log(`Opening browser to login with Cloudflare${manager.context === DEFAULT_CONTEXT ? "" : ` (context ${manager.context})`}...`, "info");
+      manager.login();
       
-      if (isLoggedIn()) {
+      if (manager.isLoggedIn()) {
         log("Login successful! ✓", "info");
       } else {
-        log("Login failed. Certificate not found.", "error");
-        process.exit(1);
+        fail("Login failed. Certificate not found.", ExitCode.CLOUDFLARE);
       }
     } catch (err) {
-      log(`Login error: ${err}`, "error");
-      process.exit(1);
+      fail(`Login error: ${err}`, ExitCode.CLOUDFLARE);
     }
   });
 
@@ -288,103 +670,100 @@ program
   .command("init")
   .description("Initialize a new Cloudflare Tunnel")
   .option("-n, --name <name>", "Tunnel name (skips prompt)")
-  .option("-u, --use-existing", "Select from existing tunnels")
-  .action(async (options: { name?: string; useExisting?: boolean }) => {
-    ensureCloudflaredInstalled();
-    ensureLoggedIn();
-    
-    const config = loadConfig();
+  .option("-u, --use-existing [tunnel]", "Use an existing tunnel, given by name or ID or selected from a list")
+  .option("-j, --json", "Output the selected tunnel as JSON")
+  .action(async (options: { name?: string; useExisting?: boolean | string; json?: boolean }) => {
+    manager.ensureCloudflaredInstalled();
+    manager.ensureLoggedIn();
+    // Fail on a broken config before creating anything
+    manager.loadConfig();
+    
+    const report = (tunnelId: string, tunnelName: string, created: boolean) => {
+      if (options.json) {
+        console.log(JSON.stringify({ tunnelId, tunnelName, created }, null, 2));
+      }
+    };
     
     if (options.useExisting) {
-      try {
-        const output = execSync("cloudflared tunnel list --output json").toString();
-        const tunnels: Tunnel[] = JSON.parse(output);
+      const tunnels = manager.listRemoteTunnels();
+      
+      let selected: RemoteTunnel | undefined;
+      if (typeof options.useExisting === "string") {
+        const ref = options.useExisting;
+        selected = tunnels.find(t => t.id === ref || t.name === ref);
+        if (!selected) {
+          fail(`No tunnel named ${ref} in your account.`, ExitCode.NOT_FOUND, "Run 'cloudflared tunnel list' to see your tunnels.");
+        }
+      } else if (tunnels.length === 0) {
+        log("No existing tunnels found.", "warn");
+        const answers = options.name ? { createNew: true } : await prompt([
+          {
+            type: "confirm",
+            name: "createNew",
+            message: "Create a new tunnel instead?",
+            default: true,
+          },
+        ], "Pass --name <name> to create a new tunnel.");
         
-        if (tunnels.length === 0) {
-          log("No existing tunnels found.", "warn");
-          const answers = await inquirer.prompt([
-            {
-              type: "confirm",
-              name: "createNew",
-              message: "Create a new tunnel instead?",
-              default: true,
-            },
-          ]);
-          
-          if (!answers.createNew) return;
-        } else {
-          const choices = tunnels.map(t => ({
-            name: `${t.name} (${t.id}) - ${getTunnelStatus(t.id)}`,
-            value: { id: t.id, name: t.name },
-          }));
-          
-          const answer = await inquirer.prompt([
-            {
-              type: "list",
-              name: "tunnel",
-              message: "Select a tunnel:",
-              choices,
-            },
-          ]);
-          
-          config.tunnels[answer.tunnel.id] = {
-            tunnelName: answer.tunnel.name,
-            tunnelId: answer.tunnel.id,
-            services: config.tunnels[answer.tunnel.id]?.services || [],
-            createdAt: config.tunnels[answer.tunnel.id]?.createdAt || new Date().toISOString(),
+        if (!answers.createNew) fail("Cancelled.", ExitCode.CANCELLED);
+      } else {
+        const choices = tunnels.map(t => ({
+          name: `${t.name} (${t.id}) - ${manager.getTunnelStatus(t.id)}`,
+          value: t,
+        }));
+        
+        selected = (await prompt([
+          {
+            type: "list",
+            name: "tunnel",
+            message: "Select a tunnel:",
+            choices,
+          },
+        ], "Pass the tunnel name or ID: --use-existing <tunnel>.")).tunnel;
+      }
+      
+      if (selected) {
+        const { id, name } = selected;
+        manager.updateConfig(fresh => {
+          fresh.tunnels[id] = {
+            tunnelName: name,
+            tunnelId: id,
+            services: fresh.tunnels[id]?.services || [],
+            createdAt: fresh.tunnels[id]?.createdAt || new Date().toISOString(),
             lastUsed: new Date().toISOString(),
           };
-          config.activeTunnel = answer.tunnel.id;
-          saveConfig(config);
-          log(`Selected tunnel: ${answer.tunnel.name}`, "info");
-          return;
-        }
-      } catch (err) {
-        log(`Error listing tunnels: ${err}`, "error");
+          fresh.activeTunnel = id;
+        });
+        log(`Selected tunnel: ${name}`, "info");
+        report(id, name, false);
+        return;
       }
     }
     
     // Create new tunnel
-    const tunnelName = options.name || (await inquirer.prompt([
+    const tunnelName = options.name || (await prompt([
       {
         type: "input",
         name: "tunnelName",
         message: "Enter a name for your tunnel:",
-        validate: (input) => !!input.trim() || "Tunnel name cannot be empty.",
+        validate: (input: string) => !!input.trim() || "Tunnel name cannot be empty.",
       },
-    ])).tunnelName;
+    ], "Pass --name <name>.")).tunnelName;
     
+    log(`Creating tunnel: ${tunnelName}...`, "info");
+    let tunnelId: string;
     try {
-      log(`Creating tunnel: ${tunnelName}...`, "info");
-      const output = execSync(`cloudflared tunnel create ${tunnelName}`).toString();
-      
-      const match = output.match(/Created tunnel .* with id ([a-f0-9-]+)/i);
-      if (match && match[1]) {
-        const tunnelId = match[1];
-        
-        config.tunnels[tunnelId] = {
-          tunnelName,
-          tunnelId,
-          services: [],
-          createdAt: new Date().toISOString(),
-          lastUsed: new Date().toISOString(),
-        };
-        config.activeTunnel = tunnelId;
-        saveConfig(config);
-        
-        log(`Tunnel created successfully! ID: ${tunnelId}`, "info");
-        log("Next: Add services with 'cloudtunnel add'", "info");
-      } else {
-        log("Failed to parse tunnel ID from output.", "error");
-      }
-    } catch (err: any) {
-      if (err.message?.includes("already exists")) {
-        log("A tunnel with this name already exists.", "error");
-      } else {
-        log(`Error creating tunnel: ${err}`, "error");
+      tunnelId = manager.createTunnel(tunnelName).tunnelId;
+    } catch (err) {
+      if (err instanceof TunnelError && err.code === ExitCode.CONFLICT) {
+        fail(err.message, err.code, "Use --use-existing <name> to select it.");
       }
-      process.exit(1);
+      throw err;
     }
+    
+    log(`Tunnel created successfully! ID: ${tunnelId}`, "info");
+    log("Next: Add services with 'cloudtunnel add'", "info");
+    report(tunnelId, tunnelName, true);
   });
 
 // Add service command
@@ -392,31 +771,82 @@ program
   .command("add")
   .alias("add-service")
   .description("Add a service to your tunnel")
-  .option("-h, --hostname <hostname>", "Hostname (e.g., app.example.com)")
-  .option("-p, --port <port>", "Local port number")
-  .option("-s, --protocol <protocol>", "Protocol (http/https)", "http")
-  .action(async (options: { hostname?: string; port?: string; protocol?: string }) => {
-    ensureCloudflaredInstalled();
-    ensureLoggedIn();
-    
-    const config = loadConfig();
-    const activeTunnel = getActiveTunnel(config);
-    
-    if (!activeTunnel) {
-      log("No active tunnel. Run 'cloudtunnel init' first.", "error");
-      return;
+  .option("-h, --hostname <hostname>", "Hostname (e.g., app.example.com or {branch}.preview.example.com)")
+  .option("-p, --port <port>", "Origin port number")
+  .option("-s, --protocol <protocol>", `Protocol (${SERVICE_TYPES.join("/")})`, "http")
+  .option("--host <host>", "Origin host (defaults to localhost)")
+  .option("--socket <path>", "Unix socket path (unix protocol)")
+  .option("--status <code>", "Status code to respond with (http_status protocol)")
+  .option("--path <regex>", "Only route requests whose path matches this regex")
+  .option("--no-tls-verify", "Skip TLS verification of the origin certificate")
+  .option("--http-host-header <host>", "Host header to send to the origin")
+  .option("--origin-server-name <name>", "Hostname expected on the origin certificate")
+  .option("--connect-timeout <duration>", "Timeout for connecting to the origin (e.g., 30s)")
+  .option("--ca-pool <file>", "CA certificate file used to verify the origin")
+  .option("--health-path <path>", "Check health with an HTTP request to this path")
+  .option("--health-method <method>", "HTTP method for the health check (default GET)")
+  .option("--health-status <codes>", "Expected status, e.g. 200, 200-299 or 200,204 (default 200-399)")
+  .option("--health-body <text>", "Text the health check response body must contain")
+  .option("--health-timeout <duration>", `Health check timeout (default ${DEFAULT_HEALTH_TIMEOUT})`)
+  .option("--health-interval <duration>", `Interval for 'cloudtunnel health --watch' (default ${DEFAULT_HEALTH_INTERVAL})`)
+  .option("--health-insecure", "Skip TLS verification in the health check")
+  .option("--basic-auth <user:password>", "Require this user and password (enforced by 'cloudtunnel run')")
+  .option("--token [token]", "Require this token as a bearer token or ?token= parameter; generated when no value is given")
+  .option("--allow-ip <cidr>", "Only allow visitors from this address or range (repeatable)", (value: string, previous: string[]) => [...previous, value], [] as string[])
+  .option("--force-dns", "Replace existing DNS records that conflict with the hostname")
+  .option("-t, --tunnel <tunnel>", "Add to this tunnel (ID or name) instead of the active one")
+  .option("-y, --yes", "Add the service even if its health check fails, without asking")
+  .option("-j, --json", "Output the added service as JSON")
+  .action(async (options: {
+    hostname?: string;
+    port?: string;
+    protocol?: string;
+    host?: string;
+    socket?: string;
+    status?: string;
+    path?: string;
+    tlsVerify?: boolean;
+    httpHostHeader?: string;
+    originServerName?: string;
+    connectTimeout?: string;
+    caPool?: string;
+    healthPath?: string;
+    healthMethod?: string;
+    healthStatus?: string;
+    healthBody?: string;
+    healthTimeout?: string;
+    healthInterval?: string;
+    healthInsecure?: boolean;
+    basicAuth?: string;
+    token?: string | boolean;
+    allowIp: string[];
+    forceDns?: boolean;
+    tunnel?: string;
+    yes?: boolean;
+    json?: boolean;
+  }) => {
+    manager.ensureCloudflaredInstalled();
+    manager.ensureLoggedIn();
+    
+    const config = manager.loadConfig();
+    const activeTunnel = manager.requireTunnel(config, options.tunnel);
+    
+    const protocol = options.protocol || "http";
+    if (!SERVICE_TYPES.includes(protocol)) {
+      fail(`Invalid protocol: ${protocol}. Use one of: ${SERVICE_TYPES.join(", ")}`, ExitCode.USAGE);
     }
     
-    const answers = await inquirer.prompt([
+    const answers = await prompt([
       {
         type: "input",
         name: "hostname",
         message: "Hostname (e.g., app.example.com):",
         when: !options.hostname,
-        validate: (input) => {
+        validate: (input: string) => {
           if (!input) return "Hostname cannot be empty.";
-          if (!validateHostname(input)) return "Invalid hostname format.";
-          if (activeTunnel.services.some(s => s.hostname === input)) {
+          const hostnameError = checkHostnameInput(input);
+          if (hostnameError !== true) return hostnameError;
+          if (activeTunnel.services.some(s => serviceKey(s) === serviceKey({ hostname: input, path: options.path }))) {
             return "This hostname is already configured.";
           }
           return true;
@@ -425,67 +855,100 @@ program
       {
         type: "input",
         name: "port",
-        message: "Local port:",
-        when: !options.port,
-        validate: (input) => {
-          const port = parseInt(input, 10);
-          if (isNaN(port) || port <= 0 || port > 65535) {
-            return "Port must be between 1 and 65535.";
-          }
-          return true;
-        },
+        message: "Origin port:",
+        when: !options.port && PORT_SERVICE_TYPES.includes(protocol),
+        default: DEFAULT_PORTS[protocol],
+        validate: validatePort,
       },
       {
-        type: "list",
-        name: "protocol",
-        message: "Protocol:",
-        choices: ["http", "https"],
-        when: !options.protocol,
-        default: "http",
+        type: "input",
+        name: "socket",
+        message: "Unix socket path:",
+        when: !options.socket && protocol === "unix",
+        validate: (input: string) => !!input.trim() || "Socket path cannot be empty.",
+      },
+      {
+        type: "input",
+        name: "status",
+        message: "Status code:",
+        when: !options.status && protocol === "http_status",
+        default: "404",
       },
-    ]);
+    ], "Pass --hostname and the origin: --port, --socket (unix) or --status (http_status).");
     
     const hostname = options.hostname || answers.hostname;
-    const port = options.port || answers.port;
-    const protocol = options.protocol || answers.protocol;
+    const protect = options.basicAuth !== undefined || options.token !== undefined || options.allowIp.length > 0;
+    if (protect && protocol !== "http" && protocol !== "https") {
+      fail("--basic-auth, --token and --allow-ip only work for http and https services.", ExitCode.USAGE);
+    }
+    
+    const input: ServiceInput = {
+      hostname,
+      protocol,
+      host: options.host,
+      port: options.port || answers.port,
+      socket: options.socket || answers.socket,
+      status: options.status || answers.status,
+      path: options.path,
+      originRequest: {
+        noTLSVerify: options.tlsVerify === false ? true : undefined,
+        httpHostHeader: options.httpHostHeader,
+        originServerName: options.originServerName,
+        connectTimeout: options.connectTimeout,
+        caPool: options.caPool,
+      },
+      healthCheck: {
+        path: options.healthPath,
+        method: options.healthMethod?.toUpperCase(),
+        expectedStatus: options.healthStatus,
+        bodyContains: options.healthBody,
+        timeout: options.healthTimeout,
+        interval: options.healthInterval,
+        insecure: options.healthInsecure,
+      },
+    };
+    // Validated up front, before secrets are hashed and the origin is checked
+    const checked = buildService(input);
+    
+    const key = serviceKey(checked);
+    if (activeTunnel.services.some(s => serviceKey(s) === key)) {
+      fail(`${key} is already configured.`, ExitCode.CONFLICT);
+    }
+    const { access, generatedToken } = protect ? buildServiceAccess(options) : { access: undefined, generatedToken: undefined };
     
     // Check if service is running
-    const isRunning = await checkServiceHealth(port);
-    if (!isRunning) {
-      log(`Warning: No service detected on port ${port}`, "warn");
-      const proceed = await inquirer.prompt([
+    const health = await manager.checkService(checked);
+    if (health && !health.healthy) {
+      log(`Warning: Health check failed for ${checked.service}: ${health.error}`, "warn");
+      const proceed = options.yes ? { continue: true } : await prompt([
         {
           type: "confirm",
           name: "continue",
           message: "Continue anyway?",
           default: true,
         },
-      ]);
-      if (!proceed.continue) return;
+      ], "Pass --yes to add it anyway.");
+      if (!proceed.continue) fail("Cancelled.", ExitCode.CANCELLED);
     }
     
-    // Add to config
-    const service: Service = {
-      hostname,
-      service: `${protocol}://localhost:${port}`,
-      protocol,
-      port,
-      createdAt: new Date().toISOString(),
-    };
-    
-    activeTunnel.services.push(service);
-    saveConfig(config);
-    
-    // Create DNS route
-    try {
-      log(`Creating DNS route for ${hostname}...`, "info");
-      execSync(`cloudflared tunnel route dns ${activeTunnel.tunnelId} ${hostname}`, {
-        stdio: "inherit",
-      });
-      log(`✓ Service added: ${hostname} → ${protocol}://localhost:${port}`, "info");
-    } catch (err: any) {
-      log(`Warning: DNS route creation failed: ${err.message}`, "warn");
+    const { service, dnsRouted } = await manager.addService(activeTunnel.tunnelId, { ...input, access }, { forceDns: options.forceDns });
+    const resolvedHostname = resolveHostname(hostname);
+    if (dnsRouted) {
+      log(`✓ Service added: ${key} → ${service.service}${describeService(service)}`, "info");
+      if (resolvedHostname !== hostname) {
+        log(`  Serving ${resolvedHostname} for now; the hostname is filled in again on every 'cloudtunnel run'.`, "info");
+      }
+    } else {
       log("The service was added to config but DNS may need manual setup.", "warn");
+      process.exitCode = ExitCode.CLOUDFLARE;
+    }
+    if (generatedToken) {
+      log(`  Access token (shown only once): ${chalk.bold(generatedToken)}`, "info");
+    }
+    await reloadRunningTunnel(activeTunnel);
+    
+    if (options.json) {
+      console.log(JSON.stringify({ tunnelId: activeTunnel.tunnelId, service, dnsRouted, token: generatedToken }, null, 2));
     }
   });
 
@@ -496,7 +959,7 @@ program
   .description("List all tunnels and services")
   .option("-j, --json", "Output as JSON")
   .action((options: { json?: boolean }) => {
-    const config = loadConfig();
+    const config = manager.loadConfig();
     
     if (options.json) {
       console.log(JSON.stringify(config, null, 2));
@@ -513,7 +976,7 @@ program
     
     for (const [tunnelId, tunnel] of Object.entries(config.tunnels)) {
       const isActive = config.activeTunnel === tunnelId;
-      const status = getTunnelStatus(tunnelId);
+      const status = manager.getTunnelStatus(tunnelId);
       const statusIcon = status === "running" ? "🟢" : status === "stopped" ? "🔴" : "🟡";
       
       console.log(`\n${isActive ? chalk.green("► ") : "  "}${chalk.bold(tunnel.tunnelName)} ${statusIcon}`);
@@ -522,7 +985,10 @@ program
       
       if (tunnel.services.length > 0) {
         tunnel.services.forEach((srv, idx) => {
-          console.log(`    ${idx + 1}. ${chalk.cyan(srv.hostname)} → ${srv.service}`);
+          console.log(`    ${idx + 1}. ${chalk.cyan(srv.hostname)} → ${srv.service}${describeService(srv)}`);
+          if (srv.previews?.length) {
+            console.log(chalk.dim(`       previews: ${srv.previews.map(p => p.hostname).join(", ")}`));
+          }
         });
       }
     }
@@ -537,73 +1003,161 @@ program
   .command("remove")
   .alias("remove-service")
   .description("Remove a service from your tunnel")
-  .action(async () => {
-    const config = loadConfig();
-    const activeTunnel = getActiveTunnel(config);
-    
-    if (!activeTunnel || activeTunnel.services.length === 0) {
-      log("No services to remove.", "warn");
-      return;
+  .option("-h, --hostname <hostname>", "Hostname of the service to remove (skips prompt)")
+  .option("--path <regex>", "Path of the rule to remove, for hostnames with path rules")
+  .option("-t, --tunnel <tunnel>", "Remove from this tunnel (ID or name) instead of the active one")
+  .option("-j, --json", "Output the removed service as JSON")
+  .action(async (options: { hostname?: string; path?: string; tunnel?: string; json?: boolean }) => {
+    const config = manager.loadConfig();
+    const activeTunnel = manager.requireTunnel(config, options.tunnel);
+    if (activeTunnel.services.length === 0) {
+      fail("No services to remove.", ExitCode.NOT_FOUND);
     }
     
-    const choices = activeTunnel.services.map((srv, idx) => ({
-      name: `${srv.hostname} → ${srv.service}`,
-      value: idx,
-    }));
-    
-    const answer = await inquirer.prompt([
-      {
-        type: "list",
-        name: "serviceIndex",
-        message: "Select a service to remove:",
-        choices,
-      },
-    ]);
+    let target: { hostname: string; path?: string };
+    if (options.hostname) {
+      target = { hostname: options.hostname, path: options.path };
+    } else {
+      const choices = activeTunnel.services.map(srv => ({
+        name: `${serviceKey(srv)} → ${srv.service}`,
+        value: { hostname: srv.hostname, path: srv.path },
+      }));
+      
+      target = (await prompt([
+        {
+          type: "list",
+          name: "target",
+          message: "Select a service to remove:",
+          choices,
+        },
+      ], "Pass --hostname (and --path for path rules).")).target;
+    }
     
-    const removed = activeTunnel.services.splice(answer.serviceIndex, 1)[0];
-    saveConfig(config);
+    const { removed } = await manager.removeService(activeTunnel.tunnelId, target);
+    log(`Removed service: ${serviceKey(removed)}`, "info");
+    await reloadRunningTunnel(activeTunnel);
     
-    log(`Removed service: ${removed.hostname}`, "info");
-    log("Note: DNS records were not removed. You may need to clean them up manually.", "warn");
+    if (options.json) {
+      console.log(JSON.stringify({ tunnelId: activeTunnel.tunnelId, removed }, null, 2));
+    }
   });
 
 // Switch tunnel command
 program
-  .command("switch")
-  .description("Switch active tunnel")
-  .action(async () => {
-    const config = loadConfig();
+  .command("switch [tunnel]")
+  .description("Switch active tunnel (by name or ID, or selected from a list)")
+  .option("-j, --json", "Output the new active tunnel as JSON")
+  .action(async (ref: string | undefined, options: { json?: boolean }) => {
+    const config = manager.loadConfig();
     const tunnelIds = Object.keys(config.tunnels);
     
     if (tunnelIds.length === 0) {
-      log("No tunnels configured.", "warn");
-      return;
+      fail("No tunnels configured.", ExitCode.NOT_FOUND, "Run 'cloudtunnel init' to get started.");
     }
     
-    if (tunnelIds.length === 1) {
+    let tunnelId: string;
+    if (ref) {
+      const tunnel = resolveTunnel(config, ref);
+      if (!tunnel) {
+        fail(`Tunnel not found: ${ref}`, ExitCode.NOT_FOUND, "Run 'cloudtunnel list' to see configured tunnels.");
+      }
+      tunnelId = tunnel.tunnelId;
+    } else if (tunnelIds.length === 1) {
       log("Only one tunnel configured.", "info");
-      return;
+      tunnelId = tunnelIds[0];
+    } else {
+      const choices = tunnelIds.map(id => ({
+        name: `${config.tunnels[id].tunnelName} (${id}) ${id === config.activeTunnel ? "[current]" : ""}`,
+        value: id,
+      }));
+      
+      tunnelId = (await prompt([
+        {
+          type: "list",
+          name: "tunnelId",
+          message: "Select tunnel to switch to:",
+          choices,
+        },
+      ], "Pass the tunnel name or ID: cloudtunnel switch <tunnel>.")).tunnelId;
     }
     
-    const choices = tunnelIds.map(id => ({
-      name: `${config.tunnels[id].tunnelName} (${id}) ${id === config.activeTunnel ? "[current]" : ""}`,
-      value: id,
-    }));
+    manager.updateConfig(fresh => {
+      if (!fresh.tunnels[tunnelId]) return;
+      fresh.activeTunnel = tunnelId;
+      fresh.tunnels[tunnelId].lastUsed = new Date().toISOString();
+    });
     
-    const answer = await inquirer.prompt([
-      {
-        type: "list",
-        name: "tunnelId",
-        message: "Select tunnel to switch to:",
-        choices,
-      },
-    ]);
+    log(`Switched to tunnel: ${config.tunnels[tunnelId].tunnelName}`, "info");
+    if (options.json) {
+      console.log(JSON.stringify({ activeTunnel: tunnelId, tunnelName: config.tunnels[tunnelId].tunnelName }, null, 2));
+    }
+  });
+
+// Protect command
+program
+  .command("protect <hostname>")
+  .description("Show, set or clear the local access protection of a service")
+  .option("--path <regex>", "Path of the rule, for hostnames with path rules")
+  .option("-t, --tunnel <tunnel>", "Tunnel of the service (ID or name) instead of the active one")
+  .option("--basic-auth <user:password>", "Require this user and password")
+  .option("--token [token]", "Require this token as a bearer token or ?token= parameter; generated when no value is given")
+  .option("--allow-ip <cidr>", "Only allow visitors from these addresses or ranges (repeatable, replaces the list)", (value: string, previous: string[]) => [...previous, value], [] as string[])
+  .option("--clear", "Remove all protection (combine with the options above to start over)")
+  .option("-j, --json", "Output the protection settings as JSON")
+  .action(async (hostname: string, options: {
+    path?: string;
+    tunnel?: string;
+    basicAuth?: string;
+    token?: string | boolean;
+    allowIp: string[];
+    clear?: boolean;
+    json?: boolean;
+  }) => {
+    const config = manager.loadConfig();
+    const tunnel = manager.requireTunnel(config, options.tunnel);
+    
+    const key = serviceKey({ hostname, path: options.path });
+    const service = tunnel.services.find(s => serviceKey(s) === key);
+    if (!service) {
+      fail(`${key} is not configured in ${tunnel.tunnelName}.`, ExitCode.NOT_FOUND);
+    }
+    
+    const change = options.clear || options.basicAuth !== undefined || options.token !== undefined || options.allowIp.length > 0;
+    if (!change) {
+      if (options.json) {
+        console.log(JSON.stringify({ service: key, access: service.access || null }, null, 2));
+      } else if (isProtected(service.access)) {
+        log(`${key} is protected: ${describeAccess(service.access!).join(", ")}`, "info");
+      } else {
+        log(`${key} is not protected.`, "info");
+      }
+      return;
+    }
     
-    config.activeTunnel = answer.tunnelId;
-    config.tunnels[answer.tunnelId].lastUsed = new Date().toISOString();
-    saveConfig(config);
+    if (service.protocol !== "http" && service.protocol !== "https") {
+      fail("Access protection only works for http and https services.", ExitCode.USAGE);
+    }
+    
+    const { access, generatedToken } = buildServiceAccess(options, options.clear ? {} : service.access);
+    manager.updateConfig(fresh => {
+      const freshService = fresh.tunnels[tunnel.tunnelId]?.services.find(s => serviceKey(s) === key);
+      if (!freshService) return;
+      freshService.access = access;
+      freshService.updatedAt = new Date().toISOString();
+    });
     
-    log(`Switched to tunnel: ${config.tunnels[answer.tunnelId].tunnelName}`, "info");
+    if (access) {
+      log(`✓ ${key} is protected: ${describeAccess(access).join(", ")}`, "info");
+    } else {
+      log(`✓ Removed the protection of ${key}.`, "info");
+    }
+    if (generatedToken) {
+      log(`  Access token (shown only once): ${chalk.bold(generatedToken)}`, "info");
+    }
+    await reloadRunningTunnel(tunnel);
+    if (options.json) {
+      console.log(JSON.stringify({ service: key, access: access || null, token: generatedToken }, null, 2));
+    }
   });
 
 // Run command
@@ -611,135 +1165,172 @@ program
   .command("run")
   .description("Run the active tunnel")
   .option("-d, --detach", "Run in background")
-  .option("-t, --tunnel <id>", "Run specific tunnel by ID")
-  .action(async (options: { detach?: boolean; tunnel?: string }) => {
-    ensureCloudflaredInstalled();
-    ensureLoggedIn();
+  .option("-t, --tunnel <tunnel>", "Run specific tunnel by ID or name")
+  .option("-i, --inspect", "Record requests to HTTP services for 'cloudtunnel inspect'")
+  .option("--inspect-body-limit <bytes>", "Bytes of each request and response body to record", String(DEFAULT_BODY_LIMIT))
+  .option("-w, --watch", "Apply service changes in the config file without a restart")
+  .action(async (options: { detach?: boolean; tunnel?: string; inspect?: boolean; inspectBodyLimit: string; watch?: boolean }) => {
+    manager.ensureCloudflaredInstalled();
+    manager.ensureLoggedIn();
+    
+    const bodyLimit = parseInt(options.inspectBodyLimit, 10);
+    if (isNaN(bodyLimit) || bodyLimit < 0) {
+      fail("--inspect-body-limit must be a non-negative number.", ExitCode.USAGE);
+    }
     
-    const config = loadConfig();
-    const tunnelId = options.tunnel || config.activeTunnel;
+    const config = manager.loadConfig();
+    const tunnel = resolveTunnel(config, options.tunnel);
     
-    if (!tunnelId || !config.tunnels[tunnelId]) {
-      log("No tunnel selected. Run 'cloudtunnel init' first.", "error");
-      return;
+    if (!tunnel) {
+      fail(options.tunnel ? `Tunnel not found: ${options.tunnel}` : "No tunnel selected. Run 'cloudtunnel init' first.", ExitCode.NOT_FOUND);
     }
-    
-    const tunnel = config.tunnels[tunnelId];
+    const tunnelId = tunnel.tunnelId;
     
     // Check if already running
-    const status = getTunnelStatus(tunnelId);
+    const status = manager.getTunnelStatus(tunnelId);
     if (status === "running") {
-      log(`Tunnel ${tunnel.tunnelName} is already running.`, "warn");
-      return;
+      fail(`Tunnel ${tunnel.tunnelName} is already running.`, ExitCode.CONFLICT);
     }
     
-    // Generate config file
-    const configPath = path.join(CONFIG_DIR, `tunnel-${tunnelId}.yml`);
+    await startTunnel(config, tunnelId, tunnel, options.detach, options.inspect ? { bodyLimit } : undefined, options.watch);
+  });
+
+// Stop command
+program
+  .command("stop")
+  .description("Stop running tunnel(s)")
+  .option("-a, --all", "Stop all running tunnels")
+  .option("-t, --tunnel <id>", "Stop specific tunnel")
+  .action(async (options: { all?: boolean; tunnel?: string }) => {
+    const config = manager.loadConfig();
     
-    const ingressRules: Array<{ hostname?: string; service: string }> = tunnel.services.map(srv => ({
-      hostname: srv.hostname,
-      service: srv.service,
-    }));
-    
-    ingressRules.push({ service: "http_status:404" });
-    
-    const tunnelConfig = {
-      tunnel: tunnelId,
-      credentials: path.join(CONFIG_DIR, `${tunnelId}.json`),
-      ingress: ingressRules,
-    };
-    
-    fs.writeFileSync(configPath, YAML.stringify(tunnelConfig));
-    
-    log(`Starting tunnel: ${tunnel.tunnelName}`, "info");
+    let tunnelIds: string[] = [];
     
-    if (tunnel.services.length > 0) {
-      console.log(chalk.green("\nServices:"));
-      for (const srv of tunnel.services) {
-        const isHealthy = await checkServiceHealth(srv.port || "80");
-        const healthIcon = isHealthy ? "✓" : "✗";
-        console.log(`  ${healthIcon} https://${chalk.bold(srv.hostname)} → ${srv.service}`);
+    if (options.all) {
+      tunnelIds = listProcessStates(manager.paths.stateDir).map(state => state.tunnelId);
+      if (tunnelIds.length === 0) {
+        log("No running tunnels.", "info");
+        return;
       }
+    } else if (options.tunnel) {
+      tunnelIds = [options.tunnel];
+    } else if (config.activeTunnel) {
+      tunnelIds = [config.activeTunnel];
     }
     
-    try {
-      if (options.detach) {
-        // Run detached
-        const spawnOptions: SpawnOptions = {
-          detached: true,
-          stdio: "ignore",
-        };
-        
-        const child = spawn("cloudflared", ["tunnel", "--config", configPath, "run"], spawnOptions);
-        child.unref();
-        
-        log("\nTunnel started in background.", "info");
-        log("Use 'cloudtunnel stop' to stop it.", "info");
-      } else {
-        // Run in foreground
-        log("\nPress Ctrl+C to stop the tunnel.", "info");
-        execSync(`cloudflared tunnel --config ${configPath} run`, { stdio: "inherit" });
-      }
-    } catch (err: any) {
-      if (!err.message?.includes("SIGINT")) {
-        log(`Error running tunnel: ${err.message}`, "error");
+    if (tunnelIds.length === 0) {
+      fail("No tunnel specified.", ExitCode.USAGE, "Use --tunnel <tunnel> or --all.");
+    }
+    
+    for (const ref of tunnelIds) {
+      // A supervised tunnel may outlive its config entry
+      const tunnelId = resolveTunnel(config, ref)?.tunnelId || ref;
+      const tunnel = config.tunnels[tunnelId] ||
+        (getLiveProcessState(manager.paths.stateDir, tunnelId) && { tunnelName: tunnelId, tunnelId, services: [], createdAt: "" });
+      if (!tunnel) {
+        fail(`Tunnel not found: ${ref}`, ExitCode.NOT_FOUND);
       }
+      
+      await stopTunnel(tunnelId, tunnel);
     }
   });
 
-// Stop command
+// Up command
 program
-  .command("stop")
-  .description("Stop running tunnel(s)")
-  .option("-a, --all", "Stop all running tunnels")
-  .option("-t, --tunnel <id>", "Stop specific tunnel")
-  .action(async (options: { all?: boolean; tunnel?: string }) => {
-    const config = loadConfig();
-    
-    let tunnelIds: string[] = [];
-    
-    if (options.all) {
-      tunnelIds = Object.keys(config.tunnels);
-    } else if (options.tunnel) {
-      tunnelIds = [options.tunnel];
-    } else if (config.activeTunnel) {
-      tunnelIds = [config.activeTunnel];
+  .command("up")
+  .description(`Create, configure and run the tunnel declared in ${MANIFEST_FILES[0]}`)
+  .option("-f, --file <path>", "Path to the project manifest")
+  .option("-d, --detach", "Run in background")
+  .option("--prune", "Remove services that are no longer declared in the manifest")
+  .action(async (options: { file?: string; detach?: boolean; prune?: boolean }) => {
+    manager.ensureCloudflaredInstalled();
+    manager.ensureLoggedIn();
+    
+    const { manifestPath, manifest } = resolveManifest(options.file);
+    log(`Using manifest: ${manifestPath}`, "info");
+    
+    const result = await manager.applyManifest(manifest, { prune: options.prune });
+    const tunnel = result.tunnel;
+    if (result.source === "created") {
+      log(`Tunnel created successfully! ID: ${tunnel.tunnelId}`, "info");
+    }
+    result.added.forEach(s => log(`✓ Service added: ${serviceKey(s)} → ${s.service}`, "info"));
+    result.updated.forEach(s => log(`✓ Service updated: ${serviceKey(s)} → ${s.service}`, "info"));
+    if (result.pruned) {
+      result.undeclared.forEach(s => log(`Removed service: ${serviceKey(s)}`, "info"));
+    } else if (result.undeclared.length > 0) {
+      log(`${result.undeclared.length} service(s) are not declared in the manifest (use --prune to remove):`, "warn");
+      result.undeclared.forEach(s => log(`  ${serviceKey(s)} → ${s.service}`, "warn"));
     }
     
-    if (tunnelIds.length === 0) {
-      log("No tunnel specified.", "error");
+    if (manager.getManagedBy(tunnel.tunnelId)) {
+      log(`Tunnel ${tunnel.tunnelName} is already running.`, "info");
+      await reloadRunningTunnel(tunnel);
+      return;
+    }
+    if (manager.getTunnelStatus(tunnel.tunnelId) === "running") {
+      log(`Tunnel ${tunnel.tunnelName} is already running.`, "warn");
+      log("Run 'cloudtunnel down' and 'cloudtunnel up' again to apply changes.", "info");
       return;
     }
     
-    for (const tunnelId of tunnelIds) {
-      const tunnel = config.tunnels[tunnelId];
-      if (!tunnel) continue;
-      
-      log(`Stopping tunnel: ${tunnel.tunnelName}...`, "info");
-      
-      try {
-        if (process.platform === "win32") {
-          execSync(`taskkill /F /FI "WINDOWTITLE eq cloudflared*${tunnelId}*"`);
-        } else {
-          execSync(`pkill -f "cloudflared.*${tunnelId}"`);
-        }
-        log(`Stopped: ${tunnel.tunnelName}`, "info");
-      } catch (err) {
-        log(`Could not stop ${tunnel.tunnelName} (may not be running)`, "warn");
-      }
+    await startTunnel(result.config, tunnel.tunnelId, tunnel, options.detach);
+  });
+
+// Down command
+program
+  .command("down")
+  .description(`Stop the tunnel declared in ${MANIFEST_FILES[0]}`)
+  .option("-f, --file <path>", "Path to the project manifest")
+  .action(async (options: { file?: string }) => {
+    const { manifest } = resolveManifest(options.file);
+    
+    const config = manager.loadConfig();
+    const tunnel = findTunnelByName(config, manifest.tunnel);
+    
+    if (!tunnel) {
+      fail(`Tunnel ${manifest.tunnel} is not configured. Run 'cloudtunnel up' first.`, ExitCode.NOT_FOUND);
     }
+    
+    await stopTunnel(tunnel.tunnelId, tunnel);
   });
 
 // Status command
 program
   .command("status")
   .description("Show tunnel status")
-  .action(() => {
-    ensureCloudflaredInstalled();
+  .option("-j, --json", "Output as JSON")
+  .action(async (options: { json?: boolean }) => {
+    manager.ensureCloudflaredInstalled();
     
-    const config = loadConfig();
+    const config = manager.loadConfig();
+    const quickTunnels = listProcessStates(manager.paths.stateDir).filter(state => isQuickTunnel(state.tunnelId));
+    
+    if (options.json) {
+      const tunnels = await Promise.all(Object.entries(config.tunnels).map(async ([tunnelId, tunnel]) => {
+        const results = await Promise.all(tunnel.services.map(srv => manager.checkService(srv)));
+        return {
+          tunnelId,
+          tunnelName: tunnel.tunnelName,
+          active: tunnelId === config.activeTunnel,
+          status: manager.getTunnelStatus(tunnelId),
+          managedBy: manager.getManagedBy(tunnelId),
+          process: getLiveProcessState(manager.paths.stateDir, tunnelId),
+          serviceUnit: manager.getServiceUnit(tunnelId),
+          services: tunnel.services.map((srv, idx) => ({
+            hostname: srv.hostname,
+            path: srv.path,
+            service: srv.service,
+            health: results[idx],
+          })),
+        };
+      }));
+      const quick = quickTunnels.map(state => ({ tunnelId: state.tunnelId, url: getQuickTunnelUrl(state.tunnelId), process: state }));
+      console.log(JSON.stringify({ tunnels, quickTunnels: quick }, null, 2));
+      return;
+    }
     
-    if (Object.keys(config.tunnels).length === 0) {
+    if (Object.keys(config.tunnels).length === 0 && quickTunnels.length === 0) {
       log("No tunnels configured.", "warn");
       return;
     }
@@ -747,7 +1338,7 @@ program
     console.log(chalk.bold("\nTunnel Status:"));
     
     for (const [tunnelId, tunnel] of Object.entries(config.tunnels)) {
-      const status = getTunnelStatus(tunnelId);
+      const status = manager.getTunnelStatus(tunnelId);
       const statusText = 
         status === "running" ? chalk.green("Running") :
         status === "stopped" ? chalk.red("Stopped") :
@@ -756,130 +1347,2051 @@ program
       console.log(`\n${tunnel.tunnelName}: ${statusText}`);
       console.log(`  ID: ${chalk.dim(tunnelId)}`);
       console.log(`  Services: ${tunnel.services.length}`);
+      
+      const state = getLiveProcessState(manager.paths.stateDir, tunnelId);
+      if (state?.status === "failed") {
+        console.log(`  Process: ${chalk.red(`gave up after ${state.restarts} restart(s)`)}, last exit ${state.lastExitSignal || `code ${state.lastExitCode}`} at ${state.lastExitAt}`);
+      } else if (state) {
+        console.log(`  Process: ${describeProcessState(state)}`);
+      }
+      const unit = manager.getServiceUnit(tunnelId);
+      if (unit) {
+        console.log(`  Service: ${describeServiceUnit(unit)}`);
+      }
+      if (state?.mode === "detached" && state.status !== "failed") {
+        console.log(`  Managed by: ${chalk.bold("detached run")}${unit?.state === "active" ? chalk.yellow(" (the service unit runs a second connector)") : ""}`);
+      } else if (unit?.state === "active") {
+        console.log(`  Managed by: ${chalk.bold("service unit")}`);
+      }
+      
+      const results = await Promise.all(tunnel.services.map(srv => manager.checkService(srv)));
+      tunnel.services.forEach((srv, idx) => {
+        console.log(`    ${formatHealth(results[idx])} ${chalk.cyan(serviceKey(srv))} ${describeHealthResult(results[idx])}`);
+      });
+    }
+    
+    for (const state of quickTunnels) {
+      const url = getQuickTunnelUrl(state.tunnelId);
+      console.log(`\n${state.tunnelId} (quick tunnel): ${state.status === "failed" ? chalk.red("Failed") : chalk.green("Running")}`);
+      console.log(`  URL: ${url ? chalk.bold(url) : chalk.dim("not reported yet")}`);
+      console.log(`  Process: ${describeProcessState(state)}`);
+    }
+  });
+
+// Health command
+program
+  .command("health")
+  .description("Check the health of a tunnel's services")
+  .option("-t, --tunnel <id>", "Check a specific tunnel (ID or name)")
+  .option("-w, --watch", "Keep checking each service at its interval")
+  .option("-j, --json", "Output results as JSON (one object per line with --watch)")
+  .action(async (options: { tunnel?: string; watch?: boolean; json?: boolean }) => {
+    const config = manager.loadConfig();
+    const tunnel = resolveTunnel(config, options.tunnel);
+    
+    if (!tunnel) {
+      fail(options.tunnel ? `Tunnel not found: ${options.tunnel}` : "No tunnel selected. Use --tunnel or run 'cloudtunnel init' first.", ExitCode.NOT_FOUND);
+    }
+    
+    if (tunnel.services.length === 0) {
+      log(`Tunnel ${tunnel.tunnelName} has no services.`, "warn");
+      return;
+    }
+    
+    const toJson = (srv: Service, result: HealthResult | null) => ({
+      tunnelId: tunnel.tunnelId,
+      hostname: srv.hostname,
+      path: srv.path,
+      service: srv.service,
+      result,
+    });
+    
+    if (!options.watch) {
+      const results = await Promise.all(tunnel.services.map(srv => manager.checkService(srv)));
+      
+      if (options.json) {
+        console.log(JSON.stringify(tunnel.services.map((srv, idx) => toJson(srv, results[idx])), null, 2));
+      } else {
+        console.log(chalk.bold(`\nHealth of ${tunnel.tunnelName}:`));
+        tunnel.services.forEach((srv, idx) => {
+          console.log(`  ${formatHealth(results[idx])} ${chalk.cyan(serviceKey(srv))} → ${srv.service} ${describeHealthResult(results[idx])}`);
+        });
+      }
+      
+      if (results.some(result => result && !result.healthy)) {
+        process.exitCode = ExitCode.UNHEALTHY;
+      }
+      return;
+    }
+    
+    if (!options.json) {
+      log(`Watching ${tunnel.services.length} service(s) of ${tunnel.tunnelName}. Press Ctrl+C to stop.`, "info");
+    }
+    
+    for (const srv of tunnel.services) {
+      const intervalMs = parseDuration(srv.healthCheck?.interval || DEFAULT_HEALTH_INTERVAL);
+      let checks = 0;
+      let healthyChecks = 0;
+      let lastHealthy: boolean | undefined;
+      
+      // A failed round is reported and the watch goes on
+      const check = async () => {
+        try {
+          const result = await manager.checkService(srv);
+          if (!result) return;
+          
+          checks++;
+          if (result.healthy) healthyChecks++;
+          
+          if (options.json) {
+            console.log(JSON.stringify(toJson(srv, result)));
+          } else {
+            const changed = lastHealthy !== undefined && lastHealthy !== result.healthy;
+            const uptime = `${Math.round((healthyChecks / checks) * 100)}% of ${checks} check(s)`;
+            const line = `[${new Date(result.checkedAt).toLocaleTimeString()}] ${formatHealth(result)} ${chalk.cyan(serviceKey(srv))} ${describeHealthResult(result)} ${chalk.dim(uptime)}`;
+            console.log(changed ? chalk.bold(line) : line);
+          }
+          lastHealthy = result.healthy;
+        } catch (err: any) {
+          log(`Warning: Could not check ${serviceKey(srv)}: ${err.message}`, "warn");
+        }
+      };
+      
+      // The next check is scheduled when this one is done, so that checks
+      // slower than the interval do not pile up
+      const watch = async () => {
+        await check();
+        setTimeout(watch, intervalMs);
+      };
+      await watch();
     }
   });
 
+// Supervise command (internal, started by `run --detach`)
+program
+  .command("supervise <tunnelId>", { hidden: true })
+  .option("-c, --config <path>", "Generated tunnel config file")
+  .option("-u, --url <url>", "Origin URL of a quick tunnel")
+  .option("-m, --metrics <address>", "Address for cloudflared's metrics server")
+  .option("--inspect <specs>", "Inspecting proxies to serve, as JSON")
+  .option("--inspect-body-limit <bytes>", "Bytes of each body the inspecting proxies record")
+  .option("--gateways <specs>", "Access gateways to serve, as JSON")
+  .option("-w, --watch", "Reload when the config file changes")
+  .action(async (tunnelId: string, options: {
+    config?: string;
+    url?: string;
+    metrics?: string;
+    inspect?: string;
+    inspectBodyLimit?: string;
+    gateways?: string;
+    watch?: boolean;
+  }) => {
+    setLogTunnel(tunnelId);
+    const code = await manager.supervise(tunnelId, {
+      configPath: options.config,
+      url: options.url,
+      metricsAddress: options.metrics,
+      inspectors: options.inspect ? JSON.parse(options.inspect) as InspectorSpec[] : undefined,
+      inspectBodyLimit: options.inspectBodyLimit ? parseInt(options.inspectBodyLimit, 10) : undefined,
+      gateways: options.gateways ? JSON.parse(options.gateways) as GatewaySpec[] : undefined,
+      watch: options.watch,
+    });
+    process.exit(code);
+  });
+
 // Export command
+// Webhook signing secrets are left out of exports, like the API token
+function withoutHookSecrets(hooks?: Hook[]): Hook[] | undefined {
+  return hooks?.map(hook => ({ ...hook, secret: undefined }));
+}
+
+function exportTunnel(tunnel: TunnelEntry): TunnelEntry {
+  return { ...tunnel, hooks: withoutHookSecrets(tunnel.hooks) };
+}
+
 program
   .command("export")
   .description("Export tunnel configuration")
-  .option("-t, --tunnel <id>", "Export specific tunnel")
+  .option("-t, --tunnel <tunnel>", "Export specific tunnel (ID or name)")
   .action((options: { tunnel?: string }) => {
-    const config = loadConfig();
+    const config = manager.loadConfig();
     
     if (options.tunnel) {
-      const tunnel = config.tunnels[options.tunnel];
+      const tunnel = resolveTunnel(config, options.tunnel);
       if (!tunnel) {
-        log("Tunnel not found.", "error");
-        return;
+        fail(`Tunnel not found: ${options.tunnel}`, ExitCode.NOT_FOUND);
       }
-      console.log(JSON.stringify(tunnel, null, 2));
+      console.log(JSON.stringify(exportTunnel(tunnel), null, 2));
     } else {
-      console.log(JSON.stringify(config, null, 2));
+      // The API token is left out: import ignores it, and the output often
+      // ends up in a backup file. It is added again with `dns token`.
+      const tunnels = Object.fromEntries(Object.entries(config.tunnels).map(([id, t]) => [id, exportTunnel(t)]));
+      console.log(JSON.stringify({
+        ...config,
+        cloudflare: undefined,
+        hooks: withoutHookSecrets(config.hooks),
+        tunnels,
+      }, null, 2));
     }
   });
 
 // Import command
+function printImportPlan(plan: ImportPlan): void {
+  const { result } = plan;
+  for (const change of plan.changes) {
+    const label = `${chalk.bold(change.tunnelName)} ${chalk.dim(`(${change.tunnelId})`)}`;
+    if (change.action === "skip") {
+      console.log(`  ${chalk.dim("=")} ${label}: already configured, skipped`);
+      continue;
+    }
+    
+    if (change.action === "add") {
+      console.log(`  ${chalk.green("+")} ${label}: new tunnel with ${change.added.length} service(s)`);
+    } else {
+      const unchanged = result.tunnels[change.tunnelId].services.length - change.added.length - change.updated.length;
+      console.log(`  ${chalk.yellow("~")} ${label}: ${change.action}, ${change.added.length} new, ${change.updated.length} changed, ${change.removed.length} removed, ${unchanged} unchanged service(s)`);
+    }
+    change.added.forEach(key => console.log(`      ${chalk.green("+")} ${key}`));
+    change.updated.forEach(key => console.log(`      ${chalk.yellow("~")} ${key}`));
+    change.removed.forEach(key => console.log(`      ${chalk.red("-")} ${key}`));
+  }
+  
+  if (plan.activeTunnel) {
+    console.log(`  Active tunnel → ${result.tunnels[plan.activeTunnel].tunnelName}`);
+  }
+}
+
 program
   .command("import <file>")
-  .description("Import tunnel configuration from file")
-  .action(async (file: string) => {
+  .description("Import tunnel configuration from a file written by 'export'")
+  .option("-s, --strategy <strategy>", "How to handle tunnels that already exist: merge, replace or skip", "merge")
+  .option("--dry-run", "Show what would change without saving")
+  .option("-j, --json", "Output the changes as JSON")
+  .action(async (file: string, options: { strategy: string; dryRun?: boolean; json?: boolean }) => {
+    if (!["merge", "replace", "skip"].includes(options.strategy)) {
+      fail(`Unknown strategy: ${options.strategy} (use merge, replace or skip).`, ExitCode.USAGE);
+    }
+    const strategy = options.strategy as ImportStrategy;
+    
+    let incoming: Config;
     try {
-      const importData = JSON.parse(fs.readFileSync(file, "utf8"));
-      const config = loadConfig();
-      
-      // Import single tunnel
-      if (importData.tunnelId && importData.tunnelName) {
-        config.tunnels[importData.tunnelId] = importData;
-        saveConfig(config);
-        log(`Imported tunnel: ${importData.tunnelName}`, "info");
-      }
-      // Import full config
-      else if (importData.tunnels) {
-        Object.assign(config.tunnels, importData.tunnels);
-        saveConfig(config);
-        log(`Imported ${Object.keys(importData.tunnels).length} tunnels`, "info");
-      } else {
-        log("Invalid import file format.", "error");
+      incoming = readImportFile(file);
+    } catch (err: any) {
+      fail(`Cannot import ${file}: ${err.message}`, fs.existsSync(file) ? ExitCode.CONFIG : ExitCode.NOT_FOUND);
+    }
+    
+    const plan = manager.importConfig(incoming, strategy, { dryRun: options.dryRun });
+    
+    if (options.json) {
+      const { result, ...changes } = plan;
+      console.log(JSON.stringify({ dryRun: !!options.dryRun, ...changes }, null, 2));
+    } else {
+      console.log(chalk.bold(options.dryRun ? `\nImporting ${file} would:` : `\nImported ${file}:`));
+      printImportPlan(plan);
+    }
+    
+    for (const conflict of plan.conflicts) {
+      const names = conflict.tunnelIds.map(id => plan.result.tunnels[id].tunnelName).join(", ");
+      log(`Warning: ${conflict.hostname} is served by several tunnels (${names}). Its DNS record can only point at one of them.`, "warn");
+    }
+    for (const tunnelId of plan.missingCredentials) {
+      log(`Warning: credentials file ${tunnelId}.json not found in ${manager.paths.dir}. Copy it from the machine that created the tunnel before running it.`, "warn");
+    }
+    
+    if (options.dryRun) {
+      log("\nDry run: nothing was saved.", "info");
+    }
+  });
+
+// Config commands
+const configCommand = program
+  .command("config")
+  .description("Manage the cloudtunnel config file and its backups");
+
+// Summarizes a backup for listings; broken backups are shown but not counted
+function describeBackup(file: string): string {
+  try {
+    const { config, fromVersion } = readConfigFile(file);
+    return `${Object.keys(config.tunnels).length} tunnel(s), version ${fromVersion}`;
+  } catch (err) {
+    return chalk.red("invalid");
+  }
+}
+
+configCommand
+  .command("migrate")
+  .description(`Upgrade the config file to version ${CONFIG_VERSION}`)
+  .option("--dry-run", "Show the migration steps and the resulting changes without saving")
+  .action((options: { dryRun?: boolean }) => {
+    if (!fs.existsSync(manager.paths.configFile)) {
+      log("No config file yet.", "info");
+      return;
+    }
+    
+    let result: ReturnType<typeof readConfigFile>;
+    try {
+      result = readConfigFile(manager.paths.configFile);
+    } catch (err: any) {
+      fail(err.message, ExitCode.CONFIG);
+    }
+    
+    if (result.applied.length === 0) {
+      log(`Config is already at version ${CONFIG_VERSION}.`, "info");
+      return;
+    }
+    
+    console.log(chalk.bold(`\nMigrating config from ${result.fromVersion} to ${CONFIG_VERSION}:`));
+    result.applied.forEach(step => console.log(`  ${step.from} → ${step.to}  ${step.description}`));
+    
+    if (options.dryRun) {
+      const before = JSON.stringify(parseConfigFile(manager.paths.configFile), null, 2);
+      const after = JSON.stringify(result.config, null, 2);
+      console.log("");
+      for (const line of diffLines(before, after)) {
+        console.log(line.startsWith("+") ? chalk.green(line) : line.startsWith("-") ? chalk.red(line) : chalk.dim(line));
       }
-    } catch (err) {
-      log(`Import error: ${err}`, "error");
+      log("\nDry run: nothing was saved.", "info");
+      return;
     }
+    
+    manager.loadConfig();
+  });
+
+configCommand
+  .command("backups")
+  .description("List automatic backups of the config file, newest first")
+  .action(() => {
+    const backups = listBackups(manager.paths.backupDir);
+    if (backups.length === 0) {
+      log("No config backups yet.", "info");
+      return;
+    }
+    
+    console.log(chalk.bold(`\nBackups in ${manager.paths.backupDir}:`));
+    backups.forEach((backup, idx) => {
+      console.log(`  ${chalk.dim(`${idx + 1}.`)} ${backup.name}  ${chalk.dim(new Date(backup.createdAt).toLocaleString())}  ${describeBackup(backup.file)}`);
+    });
+  });
+
+configCommand
+  .command("restore [backup]")
+  .description("Roll the config back to a backup (file name, or number from 'config backups')")
+  .option("-y, --yes", "Skip confirmation")
+  .action(async (ref: string | undefined, options: { yes?: boolean }) => {
+    const backups = listBackups(manager.paths.backupDir);
+    if (backups.length === 0) {
+      log("No config backups to restore.", "warn");
+      return;
+    }
+    
+    const backup = ref ? findBackup(manager.paths.backupDir, ref) : (await prompt([
+      {
+        type: "list",
+        name: "backup",
+        message: "Select a backup to restore:",
+        choices: backups.map(b => ({
+          name: `${b.name} (${new Date(b.createdAt).toLocaleString()}, ${describeBackup(b.file)})`,
+          value: b,
+        })),
+      },
+    ], "Pass the backup: cloudtunnel config restore <number|file>.")).backup;
+    
+    if (!backup) {
+      fail(`Backup not found: ${ref}.`, ExitCode.NOT_FOUND, "Run 'cloudtunnel config backups' to list them.");
+    }
+    
+    try {
+      // Older backups are fine, they are migrated on the next load
+      readConfigFile(backup.file);
+    } catch (err: any) {
+      fail(`Cannot restore ${backup.name}: ${err.message}`, ExitCode.CONFIG);
+    }
+    
+    if (!options.yes) {
+      const answer = await prompt([
+        {
+          type: "confirm",
+          name: "restore",
+          message: `Replace the current config with ${backup.name}?`,
+          default: false,
+        },
+      ], "Pass --yes to confirm.");
+      if (!answer.restore) fail("Cancelled.", ExitCode.CANCELLED);
+    }
+    
+    // Read it first: backing up the current file may rotate this one out
+    const content = fs.readFileSync(backup.file, "utf8");
+    manager.withConfigLock(() => {
+      // Keep the current file, even a broken one, so the restore can be undone
+      createBackup(manager.paths.configFile, manager.paths.backupDir);
+      writeFileAtomic(manager.paths.configFile, content);
+    });
+    log(`Restored config from ${backup.name}.`, "info");
   });
 
 // Clean command
 program
   .command("clean")
   .description("Clean up invalid tunnels from config")
-  .action(async () => {
-    ensureCloudflaredInstalled();
-    ensureLoggedIn();
+  .option("-y, --yes", "Remove invalid tunnels without asking for confirmation")
+  .option("-j, --json", "Output the removed tunnels as JSON")
+  .action(async (options: { yes?: boolean; json?: boolean }) => {
+    manager.ensureCloudflaredInstalled();
+    manager.ensureLoggedIn();
+    
+    const config = manager.loadConfig();
+    
+    const remoteTunnels = manager.listRemoteTunnels();
+    
+    const remoteTunnelIds = new Set(remoteTunnels.map(t => t.id));
+    const invalidTunnels = Object.keys(config.tunnels).filter(
+      id => !remoteTunnelIds.has(id)
+    );
+    const report = (removed: string[]) => {
+      if (options.json) {
+        console.log(JSON.stringify({ removed: removed.map(id => ({ tunnelId: id, tunnelName: config.tunnels[id].tunnelName })) }, null, 2));
+      }
+    };
     
-    const config = loadConfig();
+    if (invalidTunnels.length === 0) {
+      log("All tunnels in config are valid.", "info");
+      report([]);
+      return;
+    }
     
-    try {
-      const output = execSync("cloudflared tunnel list --output json").toString();
-      const remoteTunnels: Tunnel[] = JSON.parse(output);
-      const remoteTunnelIds = new Set(remoteTunnels.map(t => t.id));
-      
-      const invalidTunnels = Object.keys(config.tunnels).filter(
-        id => !remoteTunnelIds.has(id)
-      );
-      
-      if (invalidTunnels.length === 0) {
-        log("All tunnels in config are valid.", "info");
-        return;
+    log(`Found ${invalidTunnels.length} invalid tunnel(s) in config.`, "warn");
+    
+    const answer = options.yes ? { remove: true } : await prompt([
+      {
+        type: "confirm",
+        name: "remove",
+        message: "Remove invalid tunnels from config?",
+        default: true,
+      },
+    ], "Pass --yes to remove them.");
+    
+    if (!answer.remove) fail("Cancelled.", ExitCode.CANCELLED);
+    
+    invalidTunnels.forEach(id => log(`Removing: ${config.tunnels[id].tunnelName}`, "info"));
+    manager.updateConfig(fresh => {
+      invalidTunnels.forEach(id => delete fresh.tunnels[id]);
+      if (fresh.activeTunnel && invalidTunnels.includes(fresh.activeTunnel)) {
+        fresh.activeTunnel = undefined;
       }
-      
-      log(`Found ${invalidTunnels.length} invalid tunnel(s) in config.`, "warn");
-      
-      const answer = await inquirer.prompt([
+    });
+    log("Config cleaned.", "info");
+    report(invalidTunnels);
+  });
+
+// Doctor command
+program
+  .command("doctor")
+  .description("Check cloudflared, login, config, tunnels and services for problems")
+  .option("--fix", "Apply safe repairs (restore credentials, delete or regenerate stale tunnel configs)")
+  .option("-j, --json", "Output the results as JSON")
+  .action(async (options: { fix?: boolean; json?: boolean }) => {
+    const results = await manager.diagnose({ fix: options.fix });
+    
+    // A repaired check no longer counts against the exit code
+    const effective = (result: CheckResult): CheckStatus => result.fixed ? "pass" : result.status;
+    const counts = { pass: 0, warn: 0, fail: 0 };
+    results.forEach(result => counts[effective(result)]++);
+    if (counts.fail > 0) {
+      process.exitCode = ExitCode.UNHEALTHY;
+    }
+    
+    if (options.json) {
+      console.log(JSON.stringify({
+        results: results.map(({ repair, ...result }) => ({ ...result, fixable: !!repair && !result.fixed })),
+        summary: counts,
+      }, null, 2));
+      return;
+    }
+    
+    const icons: { [status in CheckStatus]: string } = {
+      pass: chalk.green("✓"),
+      warn: chalk.yellow("⚠"),
+      fail: chalk.red("✗"),
+    };
+    // IDs are "<check>:<subject>"; the subject is part of the message
+    const checkName = (result: CheckResult) => result.id.split(":")[0];
+    const width = Math.max(...results.map(result => checkName(result).length));
+    console.log(chalk.bold("\nCloudTunnel Doctor\n"));
+    for (const result of results) {
+      const icon = result.fixed ? chalk.green("✓") : icons[result.status];
+      console.log(`${icon} ${checkName(result).padEnd(width)}  ${result.message}${result.fixed ? chalk.green(" (fixed)") : ""}`);
+      if (result.status !== "pass" && !result.fixed && result.suggestion) {
+        console.log(chalk.dim(`  ${" ".repeat(width)}  → ${result.suggestion}`));
+      }
+    }
+    
+    const fixable = results.filter(result => result.repair && !result.fixed && result.status !== "pass").length;
+    console.log(`\n${counts.pass} passed, ${counts.warn} warning(s), ${counts.fail} failed`);
+    if (fixable > 0 && !options.fix) {
+      log(`Run 'cloudtunnel doctor --fix' to repair ${fixable} of them.`, "info");
+    }
+  });
+
+// Delete command
+program
+  .command("delete [tunnel]")
+  .description("Delete a tunnel: stop it, delete it in Cloudflare and remove its DNS records, files and config")
+  .option("--keep-dns", "Keep the DNS records of its hostnames")
+  .option("-f, --force", "Delete even if other machines are connected, and finish the local cleanup if a step fails")
+  .option("-y, --yes", "Delete without asking for confirmation")
+  .option("-j, --json", "Output what was deleted as JSON")
+  .action(async (ref: string | undefined, options: { keepDns?: boolean; force?: boolean; yes?: boolean; json?: boolean }) => {
+    manager.ensureCloudflaredInstalled();
+    manager.ensureLoggedIn();
+    
+    const config = manager.loadConfig();
+    
+    if (!ref) {
+      const tunnelIds = Object.keys(config.tunnels);
+      if (tunnelIds.length === 0) fail("No tunnels in config.", ExitCode.NOT_FOUND, "Pass the name or ID of a tunnel to delete.");
+      ref = (await prompt([
+        {
+          type: "list",
+          name: "tunnelId",
+          message: "Select a tunnel to delete:",
+          choices: tunnelIds.map(id => ({ name: `${config.tunnels[id].tunnelName} (${id})`, value: id })),
+          default: config.activeTunnel,
+        },
+      ], "Pass the name or ID of the tunnel to delete.")).tunnelId as string;
+    }
+    
+    // Tunnels created elsewhere can be deleted too, they just have no local state
+    const plan = manager.planDelete(ref, { keepDns: options.keepDns });
+    const { tunnelId, tunnelName, local, remote, processState, unit, hostnames, files } = plan;
+    
+    log(`This will delete tunnel ${chalk.bold(tunnelName)} (${tunnelId}):`, "warn");
+    if (processState) log(`  Stop its connector (PID ${processState.pid || processState.supervisorPid})`, "warn");
+    if (unit) log(`  Stop and remove the ${unit.manager} unit ${unit.name}`, "warn");
+    if (remote) {
+      const connections = remote.connections?.length || 0;
+      log(`  Delete it in Cloudflare${connections > 0 ? ` (${connections} active connection(s))` : ""}`, "warn");
+    }
+    hostnames.forEach(hostname => log(`  Delete the DNS record for ${hostname}`, "warn"));
+    if (options.keepDns && local && local.services.length > 0) log("  Keep the DNS records of its hostnames", "warn");
+    files.forEach(file => log(`  Delete ${file}`, "warn"));
+    if (local) log(`  Remove it and its ${local.services.length} service(s) from the config`, "warn");
+    
+    if (!options.yes) {
+      const answer = await prompt([
         {
           type: "confirm",
-          name: "remove",
-          message: "Remove invalid tunnels from config?",
-          default: true,
+          name: "delete",
+          message: `Delete ${tunnelName}? This cannot be undone.`,
+          default: false,
         },
-      ]);
-      
-      if (answer.remove) {
-        invalidTunnels.forEach(id => {
-          log(`Removing: ${config.tunnels[id].tunnelName}`, "info");
-          delete config.tunnels[id];
-        });
-        
-        if (config.activeTunnel && invalidTunnels.includes(config.activeTunnel)) {
-          config.activeTunnel = undefined;
-        }
-        
-        saveConfig(config);
-        log("Config cleaned.", "info");
-      }
-    } catch (err) {
-      log(`Error checking tunnels: ${err}`, "error");
+      ], "Pass --yes to delete it.");
+      if (!answer.delete) fail("Cancelled.", ExitCode.CANCELLED);
+    }
+    
+    const result = await manager.deleteTunnel(plan, { force: options.force });
+    if (result.cloudflareError) process.exitCode = ExitCode.CLOUDFLARE;
+    
+    log(`✓ Deleted tunnel ${tunnelName}`, "info");
+    if (result.wasActive) {
+      const activeTunnel = result.activeTunnel;
+      log(activeTunnel ? `Active tunnel is now ${manager.loadConfig().tunnels[activeTunnel]?.tunnelName || activeTunnel}.` : "No tunnels left; run 'cloudtunnel init' to create one.", "info");
+    }
+    
+    if (options.json) {
+      console.log(JSON.stringify({
+        tunnelId,
+        tunnelName,
+        deletedInCloudflare: result.deletedInCloudflare,
+        dnsRecords: hostnames,
+        files,
+        activeTunnel: result.activeTunnel,
+      }, null, 2));
     }
   });
 
-// Version command
+// Share command
 program
-  .command("version")
-  .description("Show version information")
-  .action(() => {
-    console.log(`cloudtunnel: ${chalk.green(getPackageVersion())}`);
-    
-    try {
-      const cloudflaredVersion = execSync("cloudflared --version 2>&1").toString().trim();
-      console.log(`cloudflared: ${chalk.green(cloudflaredVersion)}`);
-    } catch (err) {
-      console.log(`cloudflared: ${chalk.yellow("Not installed (optional for version check)")}`);
+  .command("share <port>")
+  .description("Share a local port through a temporary trycloudflare.com URL (no account needed)")
+  .option("-s, --protocol <protocol>", "Protocol of the local service (http/https)", "http")
+  .option("--host <host>", "Host of the local service (defaults to localhost)")
+  .option("-d, --detach", "Run in background")
+  .option("-c, --copy", "Copy the URL to the clipboard")
+  .option("-q, --qr", "Show the URL as a QR code")
+  .action(async (port: string, options: { protocol: string; host?: string; detach?: boolean; copy?: boolean; qr?: boolean }) => {
+    manager.ensureCloudflaredInstalled();
+    
+    const portError = validatePort(port);
+    if (portError !== true) {
+      fail(portError, ExitCode.USAGE);
     }
+    if (options.protocol !== "http" && options.protocol !== "https") {
+      fail("Protocol must be http or https.", ExitCode.USAGE);
+    }
+    
+    const shareId = `${QUICK_TUNNEL_PREFIX}${port}`;
+    const existing = getLiveProcessState(manager.paths.stateDir, shareId);
+    if (existing && existing.status !== "failed") {
+      const url = getQuickTunnelUrl(shareId);
+      fail(`Port ${port} is already shared${url ? ` at ${url}` : ""}.`, ExitCode.CONFLICT, `Use 'cloudtunnel stop --tunnel ${shareId}' to stop it.`);
+    }
+    
+    const host = options.host || "localhost";
+    const health = await checkTcp(host, parseInt(port, 10), parseDuration(DEFAULT_HEALTH_TIMEOUT));
+    if (!health.healthy) {
+      log(`Warning: No service detected on ${host}:${port} (${health.error})`, "warn");
+      log("The URL will return errors until the service starts.", "warn");
+    }
+    
+    const url = `${options.protocol}://${host}:${port}`;
+    const metricsAddress = `127.0.0.1:${await findFreePort()}`;
+    log(`Starting quick tunnel for ${url}...`, "info");
+    
+    if (options.detach) {
+      const logFile = manager.getTunnelLogFile(shareId);
+      const offset = fs.existsSync(logFile) ? fs.statSync(logFile).size : 0;
+      const supervisorPid = manager.spawnSupervisor(shareId, ["--url", url, "--metrics", metricsAddress]);
+      
+      // Wait for cloudflared to report the generated hostname
+      let shareUrl: string | null = null;
+      for (let i = 0; i < 60 && !shareUrl; i++) {
+        await new Promise(resolve => setTimeout(resolve, 500));
+        shareUrl = getQuickTunnelUrl(shareId, offset);
+      }
+      
+      if (!shareUrl) {
+        log(`Quick tunnel started (supervisor PID ${supervisorPid}) but no URL was reported yet.`, "warn");
+        log(`Check 'cloudtunnel logs --tunnel ${shareId}'.`, "info");
+        return;
+      }
+      
+      announceShareUrl(shareUrl, options);
+      log(`Running in background. Use 'cloudtunnel stop --tunnel ${shareId}' to stop it.`, "info");
+      return;
+    }
+    
+    log("Press Ctrl+C to stop sharing.", "info");
+    
+    const failure = await manager.runConnector(shareId, ["tunnel", "--url", url, "--metrics", metricsAddress], {
+      metricsAddress,
+      onOutput: watchForShareUrl(options),
+    });
+    if (failure) process.exitCode = ExitCode.CLOUDFLARE;
+  });
+
+// Dev command
+program
+  .command("dev <command...>")
+  .description("Run a dev server and expose it through a tunnel until it exits (cloudtunnel dev -- npm run dev)")
+  .option("-h, --hostname <hostname>", "Serve it on this hostname (defaults to a temporary trycloudflare.com URL)")
+  .option("-p, --port <port>", "Port the server listens on (detected from its output if omitted)")
+  .option("-s, --protocol <protocol>", "Protocol of the server (http/https)", "http")
+  .option("--host <host>", "Host the server listens on (defaults to localhost)")
+  .option("-t, --tunnel <tunnel>", "Use this tunnel (ID or name) instead of the active one")
+  .option("--wait <duration>", "How long to wait for the server to start listening", "60s")
+  .action(async (command: string[], options: {
+    hostname?: string;
+    port?: string;
+    protocol: string;
+    host?: string;
+    tunnel?: string;
+    wait: string;
+  }) => {
+    manager.ensureCloudflaredInstalled();
+    
+    if (options.protocol !== "http" && options.protocol !== "https") {
+      fail("Protocol must be http or https.", ExitCode.USAGE);
+    }
+    if (options.port) {
+      const portError = validatePort(options.port);
+      if (portError !== true) fail(portError, ExitCode.USAGE);
+    }
+    if (options.hostname && !validateHostname(options.hostname)) {
+      fail(`Invalid hostname: ${options.hostname}`, ExitCode.USAGE);
+    }
+    let waitMs: number;
+    try {
+      waitMs = parseDuration(options.wait);
+    } catch (err: any) {
+      fail(err.message, ExitCode.USAGE);
+    }
+    
+    // A named tunnel is checked before the server starts, so a mistake does
+    // not cost a full dev server startup
+    let config: Config | null = null;
+    let tunnel: TunnelEntry | null = null;
+    if (options.hostname) {
+      manager.ensureLoggedIn();
+      config = manager.loadConfig();
+      tunnel = resolveTunnel(config, options.tunnel);
+      if (!tunnel) {
+        fail(options.tunnel ? `Tunnel not found: ${options.tunnel}` : "No active tunnel. Run 'cloudtunnel init' first.", ExitCode.NOT_FOUND);
+      }
+      if (manager.getTunnelStatus(tunnel.tunnelId) === "running") {
+        fail(`Tunnel ${tunnel.tunnelName} is already running.`, ExitCode.CONFLICT, "Stop it with 'cloudtunnel stop' or pass --tunnel.");
+      }
+    }
+    
+    const host = options.host || "localhost";
+    let port = options.port || null;
+    let output = "";
+    
+    log(`Starting: ${command.join(" ")}`, "info");
+    const child = spawn(command[0], command.slice(1), {
+      stdio: ["inherit", "pipe", "pipe"],
+      shell: process.platform === "win32",
+    });
+    const watchOutput = (stream: NodeJS.WriteStream) => (chunk: Buffer) => {
+      stream.write(chunk);
+      if (!port) {
+        // Keep enough output to catch a port split across chunks
+        output = (output + chunk.toString()).slice(-4096);
+        port = detectListeningPort(output);
+      }
+    };
+    child.stdout?.on("data", watchOutput(process.stdout));
+    child.stderr?.on("data", watchOutput(process.stderr));
+    
+    let childExited = false;
+    const childExit = new Promise<number>((resolve) => {
+      child.on("error", (err) => {
+        childExited = true;
+        log(`Could not start ${command[0]}: ${err.message}`, "error");
+        resolve(ExitCode.NOT_FOUND);
+      });
+      child.on("exit", (code, signal) => {
+        childExited = true;
+        resolve(childExitCode(code, signal));
+      });
+    });
+    
+    // Signals sent to cloudtunnel are meant for the server; the tunnel is torn
+    // down once the server exits. Ctrl+C reaches the server and cloudflared
+    // through the terminal, and many servers take a second SIGINT as a
+    // request to quit without cleaning up, so it is not sent again.
+    let interrupted = false;
+    const forwardSignal = (signal: NodeJS.Signals) => {
+      if (signal === "SIGINT") {
+        interrupted = true;
+      } else if (!childExited) {
+        child.kill(signal);
+      }
+    };
+    const signals: NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGHUP"];
+    for (const signal of signals) process.on(signal, forwardSignal);
+    
+    const deadline = Date.now() + waitMs;
+    let listening = false;
+    while (!childExited && Date.now() < deadline) {
+      if (port && await checkServiceHealth(port, host)) {
+        listening = true;
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+    
+    if (!listening) {
+      const exitedEarly = childExited;
+      if (exitedEarly) {
+        log(`${command[0]} exited before it started listening.`, "error");
+      } else {
+        log(port
+          ? `Nothing is listening on ${host}:${port} after ${options.wait}.`
+          : `Could not detect the server's port after ${options.wait}. Pass --port.`, "error");
+        child.kill("SIGTERM");
+      }
+      const code = await childExit;
+      for (const signal of signals) process.off(signal, forwardSignal);
+      process.exitCode = exitedEarly ? code : ExitCode.UNHEALTHY;
+      return;
+    }
+    
+    const url = `${options.protocol}://${host}:${port}`;
+    const metricsAddress = `127.0.0.1:${await findFreePort()}`;
+    const abort = new AbortController();
+    let tunnelDone: Promise<string | null>;
+    let routedHostname: string | null = null;
+    
+    if (config && tunnel && options.hostname) {
+      const hostname = options.hostname;
+      // The dev service only exists while the server runs and is not saved
+      const service: Service = {
+        hostname,
+        service: url,
+        protocol: options.protocol,
+        host: options.host,
+        port: port!,
+        createdAt: new Date().toISOString(),
+      };
+      const devTunnel: TunnelEntry = {
+        ...tunnel,
+        services: [...tunnel.services.filter(s => serviceKey(s) !== hostname), service],
+      };
+      
+      if (!tunnel.services.some(s => s.hostname === hostname)) {
+        if (await manager.routeDns(config, tunnel.tunnelId, hostname)) {
+          routedHostname = hostname;
+        } else {
+          log("DNS may need manual setup.", "warn");
+        }
+      }
+      
+      await manager.routePreviews(config, tunnel);
+      // Kept apart from tunnel-<id>.yml, which a later run, supervisor restart
+      // or reload would otherwise pick up
+      const configPath = manager.writeTunnelConfig(devTunnel, manager.getDevConfigPath(tunnel.tunnelId));
+      console.log(`\n${chalk.green("✓")} ${chalk.bold.underline(`https://${hostname}`)} → ${url}\n`);
+      tunnelDone = manager.runConnector(tunnel.tunnelId, manager.cloudflaredTunnelArgs(["--config", configPath, "--metrics", metricsAddress, "run"]), {
+        configPath,
+        metricsAddress,
+        onOutput: printConnectorOutput,
+        signal: abort.signal,
+      });
+    } else {
+      const shareId = `${QUICK_TUNNEL_PREFIX}${port}`;
+      log(`Starting quick tunnel for ${url}...`, "info");
+      tunnelDone = manager.runConnector(shareId, ["tunnel", "--url", url, "--metrics", metricsAddress], {
+        metricsAddress,
+        onOutput: watchForShareUrl({}),
+        signal: abort.signal,
+      });
+    }
+    
+    const first = await Promise.race([childExit.then(() => "server"), tunnelDone.then(() => "tunnel")]);
+    // After Ctrl+C both are already shutting down and are left to finish
+    if (first === "server") {
+      if (!interrupted) abort.abort();
+      await tunnelDone;
+      process.exitCode = await childExit;
+    } else {
+      // The tunnel failed or was stopped with 'cloudtunnel stop'; take the server down with it
+      if (!childExited && !interrupted) child.kill("SIGTERM");
+      const code = await childExit;
+      process.exitCode = await tunnelDone ? ExitCode.CLOUDFLARE : code;
+    }
+    
+    if (tunnel) {
+      fs.removeSync(manager.getDevConfigPath(tunnel.tunnelId));
+      // The record routed for this run goes with it, unless the hostname was
+      // saved as a service meanwhile
+      const current = manager.loadConfig();
+      if (routedHostname && !current.tunnels[tunnel.tunnelId]?.services.some(s => s.hostname === routedHostname)) {
+        await manager.unrouteDns(current, tunnel.tunnelId, routedHostname);
+      }
+    }
+    for (const signal of signals) process.off(signal, forwardSignal);
+  });
+
+// Service commands
+const serviceCommand = program
+  .command("service")
+  .description("Run tunnels as OS services (systemd or launchd) that survive reboots");
+
+function requireServiceManager() {
+  const serviceManager = getServiceManager();
+  if (!serviceManager) {
+    fail(`Service units are not supported on ${process.platform}.`, ExitCode.PREREQUISITE, "On Windows, use 'cloudflared service install'.");
+  }
+  return serviceManager;
+}
+
+function isRoot(): boolean {
+  return process.getuid?.() === 0;
+}
+
+serviceCommand
+  .command("install")
+  .description("Install a service unit that runs a tunnel at boot")
+  .option("-t, --tunnel <tunnel>", "Tunnel to install (ID or name, defaults to the active one)")
+  .option("--scope <scope>", "Install for this user (user) or the whole machine (system)", "user")
+  .option("--restart <policy>", `When to restart cloudflared (${RESTART_POLICIES.join("/")})`, "always")
+  .option("--restart-delay <duration>", "Delay before a restart", "5s")
+  .option("-e, --env <NAME=VALUE>", "Environment variable for cloudflared (repeatable)", (value: string, previous: string[]) => [...previous, value], [] as string[])
+  .option("--log <destination>", `Log file, or '${JOURNAL_LOG}' for the systemd journal (default: the tunnel log read by 'cloudtunnel logs')`)
+  .option("--print", "Only print the unit file")
+  .option("--no-start", "Install and enable the unit without starting it")
+  .action(async (options: {
+    tunnel?: string;
+    scope: string;
+    restart: string;
+    restartDelay: string;
+    env: string[];
+    log?: string;
+    print?: boolean;
+    start: boolean;
+  }) => {
+    const serviceManager = requireServiceManager();
+    
+    if (options.scope !== "user" && options.scope !== "system") {
+      fail("Scope must be user or system.", ExitCode.USAGE);
+    }
+    if (!RESTART_POLICIES.includes(options.restart as RestartPolicy)) {
+      fail(`Restart policy must be one of: ${RESTART_POLICIES.join(", ")}.`, ExitCode.USAGE);
+    }
+    let restartDelayMs: number;
+    try {
+      restartDelayMs = parseDuration(options.restartDelay);
+    } catch (err: any) {
+      fail(err.message, ExitCode.USAGE);
+    }
+    const environment: { [name: string]: string } = {};
+    for (const entry of options.env) {
+      const match = entry.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/);
+      if (!match) fail(`Invalid environment variable: ${entry} (use NAME=VALUE)`, ExitCode.USAGE);
+      environment[match[1]] = match[2];
+    }
+    if (options.log === JOURNAL_LOG && serviceManager !== "systemd") {
+      fail(`--log ${JOURNAL_LOG} needs systemd; pass a log file instead.`, ExitCode.USAGE);
+    }
+    
+    const config = manager.loadConfig();
+    const tunnel = manager.requireTunnel(config, options.tunnel);
+    
+    const scope = options.scope as ServiceScope;
+    const unitName = getUnitName(serviceManager, tunnel.tunnelId);
+    const unitFile = getUnitFile(serviceManager, scope, tunnel.tunnelId);
+    const configPath = path.join(manager.paths.dir, `tunnel-${tunnel.tunnelId}.yml`);
+    const credentials = path.join(manager.paths.dir, `${tunnel.tunnelId}.json`);
+    
+    const spec: ServiceUnitSpec = {
+      tunnelId: tunnel.tunnelId,
+      tunnelName: tunnel.tunnelName,
+      command: [manager.findCloudflaredPath(), ...manager.cloudflaredTunnelArgs(["--config", configPath, "run"])],
+      restart: options.restart as RestartPolicy,
+      restartDelaySeconds: Math.max(1, Math.round(restartDelayMs / 1000)),
+      environment,
+      log: options.log === JOURNAL_LOG ? JOURNAL_LOG : path.resolve(options.log || manager.getTunnelLogFile(tunnel.tunnelId)),
+      // The config and credentials live in this user's home directory
+      user: scope === "system" && !isRoot() ? os.userInfo().username : undefined,
+    };
+    const content = renderUnit(serviceManager, scope, spec);
+    
+    if (options.print) {
+      if (!fs.existsSync(credentials)) {
+        log(`Warning: ${credentials} does not exist on this machine.`, "warn");
+      }
+      process.stdout.write(content);
+      return;
+    }
+    
+    if (!fs.existsSync(credentials)) {
+      fail(`Tunnel credentials not found: ${credentials}`, ExitCode.PREREQUISITE, "Service units can only run tunnels created or imported on this machine.");
+    }
+    if (scope === "system" && !isRoot()) {
+      const enable = serviceManager === "systemd"
+        ? `sudo systemctl daemon-reload && sudo systemctl enable --now ${unitName}`
+        : `sudo launchctl load -w ${unitFile}`;
+      fail(
+        "Installing a system unit requires root.",
+        ExitCode.PREREQUISITE,
+        `Run 'cloudtunnel service install --scope system --print | sudo tee ${unitFile}', then '${enable}'.`
+      );
+    }
+    
+    const existing = findInstalledUnit(serviceManager, tunnel.tunnelId);
+    if (existing && existing.scope !== scope) {
+      fail(`${tunnel.tunnelName} already has a ${existing.scope} unit: ${existing.file}`, ExitCode.CONFLICT, "Uninstall it first with 'cloudtunnel service uninstall'.");
+    }
+    
+    await manager.routePreviews(config, tunnel);
+    manager.writeTunnelConfig(tunnel);
+    if (spec.log !== JOURNAL_LOG) fs.ensureDirSync(path.dirname(spec.log));
+    const protectedServices = tunnel.services.filter(s => isProtected(s.access));
+    if (protectedServices.length > 0) {
+      log(`Protected services answer with 503 under the unit, as their access gateway only runs with 'cloudtunnel run': ${protectedServices.map(serviceKey).join(", ")}`, "warn");
+    }
+    
+    try {
+      installUnit({ manager: serviceManager, scope, name: unitName, file: unitFile }, content, options.start);
+    } catch (err: any) {
+      fail(`Could not install ${unitName}: ${err.stderr?.toString().trim() || err.message}`, ExitCode.ERROR);
+    }
+    
+    log(`✓ Installed ${serviceManager} ${scope} unit ${unitName} (${unitFile})`, "info");
+    if (options.start) {
+      log(`${tunnel.tunnelName} now runs as a service and starts at boot.`, "info");
+    }
+    if (getLiveProcessState(manager.paths.stateDir, tunnel.tunnelId)) {
+      log(`Warning: ${tunnel.tunnelName} is also running from 'cloudtunnel run'. Stop it with 'cloudtunnel stop' to leave it to the service.`, "warn");
+    }
+    if (serviceManager === "systemd" && scope === "user") {
+      log(`User units only run while you are logged in. Run 'loginctl enable-linger ${os.userInfo().username}' to start it at boot.`, "info");
+    }
+    log("Run 'cloudtunnel service install' again after changing services; the unit reads the generated tunnel config.", "info");
+  });
+
+serviceCommand
+  .command("uninstall")
+  .description("Stop a tunnel's service unit and remove it")
+  .option("-t, --tunnel <tunnel>", "Tunnel to uninstall (ID or name, defaults to the active one)")
+  .action((options: { tunnel?: string }) => {
+    const serviceManager = requireServiceManager();
+    const config = manager.loadConfig();
+    
+    // The unit may outlive the tunnel's config entry
+    const tunnelId = resolveTunnel(config, options.tunnel)?.tunnelId || options.tunnel;
+    if (!tunnelId) {
+      fail("No active tunnel.", ExitCode.USAGE, "Pass --tunnel <tunnel>.");
+    }
+    
+    const unit = findInstalledUnit(serviceManager, tunnelId);
+    if (!unit) {
+      fail(`No service unit is installed for ${options.tunnel || config.tunnels[tunnelId]?.tunnelName || tunnelId}.`, ExitCode.NOT_FOUND);
+    }
+    if (unit.scope === "system" && !isRoot()) {
+      const remove = serviceManager === "systemd"
+        ? `sudo systemctl disable --now ${unit.name} && sudo rm ${unit.file}`
+        : `sudo launchctl unload -w ${unit.file} && sudo rm ${unit.file}`;
+      fail("Removing a system unit requires root.", ExitCode.PREREQUISITE, `Run '${remove}'.`);
+    }
+    
+    try {
+      uninstallUnit(unit);
+    } catch (err: any) {
+      fail(`Could not uninstall ${unit.name}: ${err.stderr?.toString().trim() || err.message}`, ExitCode.ERROR);
+    }
+    log(`✓ Uninstalled ${unit.name}`, "info");
+  });
+
+serviceCommand
+  .command("status")
+  .description("Show which tunnels run as service units and which from 'cloudtunnel run'")
+  .option("-t, --tunnel <tunnel>", "Only show this tunnel (ID or name)")
+  .option("-j, --json", "Output as JSON")
+  .action((options: { tunnel?: string; json?: boolean }) => {
+    requireServiceManager();
+    const config = manager.loadConfig();
+    
+    let tunnels = Object.values(config.tunnels);
+    if (options.tunnel) {
+      const tunnel = resolveTunnel(config, options.tunnel);
+      if (!tunnel) fail(`Tunnel not found: ${options.tunnel}`, ExitCode.NOT_FOUND);
+      tunnels = [tunnel];
+    }
+    
+    const rows = tunnels.map(tunnel => ({
+      tunnelId: tunnel.tunnelId,
+      tunnelName: tunnel.tunnelName,
+      managedBy: manager.getManagedBy(tunnel.tunnelId),
+      serviceUnit: manager.getServiceUnit(tunnel.tunnelId),
+      process: getLiveProcessState(manager.paths.stateDir, tunnel.tunnelId),
+    }));
+    
+    if (options.json) {
+      console.log(JSON.stringify(rows, null, 2));
+      return;
+    }
+    
+    if (rows.length === 0) {
+      log("No tunnels configured.", "warn");
+      return;
+    }
+    
+    for (const row of rows) {
+      console.log(`\n${chalk.bold(row.tunnelName)} ${chalk.dim(row.tunnelId)}`);
+      console.log(`  Service: ${row.serviceUnit ? describeServiceUnit(row.serviceUnit) : chalk.dim("not installed")}`);
+      if (row.process && row.process.status !== "failed") {
+        console.log(`  Process: ${describeProcessState(row.process)}`);
+      }
+      const managedBy =
+        row.managedBy === "service" ? "service unit" :
+        row.managedBy === "detached" ? "detached run" :
+        row.managedBy === "foreground" ? "foreground run" :
+        chalk.dim("nothing (not running on this machine)");
+      console.log(`  Managed by: ${managedBy}`);
+    }
+  });
+
+// Preview commands
+const previewCommand = program
+  .command("preview")
+  .description("Manage hostnames created from {branch} hostname templates");
+
+previewCommand
+  .command("cleanup")
+  .description("Remove DNS routes and config entries of previews whose git branch no longer exists")
+  .option("-t, --tunnel <tunnel>", "Only clean up this tunnel (ID or name)")
+  .option("-y, --yes", "Remove without asking for confirmation")
+  .option("--dry-run", "Only show which previews would be removed")
+  .option("-j, --json", "Output the removed previews as JSON")
+  .action(async (options: { tunnel?: string; yes?: boolean; dryRun?: boolean; json?: boolean }) => {
+    const config = manager.loadConfig();
+    let tunnels = Object.values(config.tunnels);
+    if (options.tunnel) {
+      const tunnel = resolveTunnel(config, options.tunnel);
+      if (!tunnel) fail(`Tunnel not found: ${options.tunnel}`, ExitCode.NOT_FOUND);
+      tunnels = [tunnel];
+    }
+    
+    // Branches per repository; null when the repository is gone
+    const branchesByRepo = new Map<string, Set<string> | null>();
+    const getBranches = (repo: string): Set<string> | null => {
+      if (!branchesByRepo.has(repo)) {
+        if (!fs.existsSync(repo)) {
+          branchesByRepo.set(repo, null);
+        } else {
+          try {
+            branchesByRepo.set(repo, new Set(listGitBranches(repo)));
+          } catch (err: any) {
+            fail(`Could not list the branches of ${repo}: ${err.message}`, ExitCode.PREREQUISITE);
+          }
+        }
+      }
+      return branchesByRepo.get(repo)!;
+    };
+    
+    const stale: Array<{ tunnel: TunnelEntry; service: Service; preview: PreviewRoute }> = [];
+    for (const tunnel of tunnels) {
+      for (const service of tunnel.services) {
+        for (const preview of service.previews || []) {
+          if (!preview.branch || !preview.repo) continue;
+          if (!getBranches(preview.repo)?.has(preview.branch)) {
+            stale.push({ tunnel, service, preview });
+          }
+        }
+      }
+    }
+    
+    const summary = stale.map(({ tunnel, service, preview }) => ({
+      tunnelId: tunnel.tunnelId,
+      service: serviceKey(service),
+      hostname: preview.hostname,
+      branch: preview.branch,
+      repo: preview.repo,
+    }));
+    
+    if (stale.length === 0) {
+      log("No previews of deleted branches found.", "info");
+      if (options.json) console.log(JSON.stringify([], null, 2));
+      return;
+    }
+    
+    log(`Found ${stale.length} preview(s) of deleted branches:`, "warn");
+    stale.forEach(({ tunnel, preview }) => log(`  ${preview.hostname} (branch ${preview.branch}, tunnel ${tunnel.tunnelName})`, "warn"));
+    
+    if (options.dryRun) {
+      if (options.json) console.log(JSON.stringify(summary, null, 2));
+      return;
+    }
+    
+    if (!options.yes) {
+      const answer = await prompt([
+        {
+          type: "confirm",
+          name: "remove",
+          message: "Remove these previews and their DNS records?",
+          default: false,
+        },
+      ], "Pass --yes to remove them.");
+      if (!answer.remove) fail("Cancelled.", ExitCode.CANCELLED);
+    }
+    
+    for (const { service, preview } of stale) {
+      service.previews = service.previews!.filter(p => p !== preview);
+    }
+    manager.updateConfig(fresh => {
+      for (const { tunnel, service } of stale) {
+        const freshService = fresh.tunnels[tunnel.tunnelId]?.services.find(s => serviceKey(s) === serviceKey(service));
+        if (!freshService) continue;
+        freshService.previews = service.previews!.length > 0 ? service.previews : undefined;
+      }
+    });
+    
+    // Delete a record only once no other service of its tunnel still routes it
+    const unrouted = new Set<string>();
+    for (const { tunnel, preview } of stale) {
+      const key = `${tunnel.tunnelId} ${preview.hostname}`;
+      if (unrouted.has(key) || tunnel.services.some(s => routedHostnames(s).includes(preview.hostname))) continue;
+      unrouted.add(key);
+      await manager.unrouteDns(config, tunnel.tunnelId, preview.hostname);
+    }
+    
+    log(`✓ Removed ${stale.length} preview(s).`, "info");
+    if (options.json) {
+      console.log(JSON.stringify(summary, null, 2));
+    }
+  });
+
+// Top command
+program
+  .command("top")
+  .description("Show live traffic metrics for running tunnels")
+  .option("-t, --tunnel <id>", "Only show a specific tunnel (ID or name)")
+  .option("-a, --address <host:port>", "Scrape a metrics server directly instead of running tunnels")
+  .option("-i, --interval <seconds>", "Refresh interval in seconds", "2")
+  .option("-j, --json", "Print a single snapshot as JSON and exit")
+  .action(async (options: { tunnel?: string; address?: string; interval: string; json?: boolean }) => {
+    const config = manager.loadConfig();
+    const intervalMs = parseFloat(options.interval) * 1000;
+    
+    if (isNaN(intervalMs) || intervalMs <= 0) {
+      fail("--interval must be a positive number of seconds.", ExitCode.USAGE);
+    }
+    
+    let states = listProcessStates(manager.paths.stateDir).filter(state => state.status !== "failed" && state.metricsAddress);
+    if (options.address) {
+      states = [{ tunnelId: options.address, metricsAddress: options.address } as TunnelProcessState];
+    } else if (options.tunnel) {
+      const tunnelId = config.tunnels[options.tunnel]?.tunnelId || findTunnelByName(config, options.tunnel)?.tunnelId || options.tunnel;
+      states = states.filter(state => state.tunnelId === tunnelId);
+    }
+    
+    if (states.length === 0) {
+      log("No running tunnels with metrics. Start one with 'cloudtunnel run'.", "warn");
+      return;
+    }
+    
+    const previous = new Map<string, { samples: MetricSample[]; scrapedAt: number }>();
+    
+    const scrape = async () => {
+      return Promise.all(states.map(async (state) => {
+        const name = config.tunnels[state.tunnelId]?.tunnelName || state.tunnelId;
+        try {
+          const samples = await fetchMetrics(state.metricsAddress!);
+          const scrapedAt = Date.now();
+          const snapshot = summarizeMetrics(samples, previous.get(state.tunnelId), scrapedAt);
+          previous.set(state.tunnelId, { samples, scrapedAt });
+          return { tunnelId: state.tunnelId, name, metricsAddress: state.metricsAddress, snapshot, error: undefined };
+        } catch (err: any) {
+          return { tunnelId: state.tunnelId, name, metricsAddress: state.metricsAddress, snapshot: undefined, error: err.message as string };
+        }
+      }));
+    };
+    
+    const rate = (value: number) => `${value.toFixed(1)}/s`;
+    const ms = (value: number | null) => value === null ? "-" : `${value.toFixed(0)}ms`;
+    const render = (results: Awaited<ReturnType<typeof scrape>>) => {
+      // Clear the screen and move the cursor home before each refresh
+      process.stdout.write("\x1b[2J\x1b[H");
+      console.log(chalk.bold(`cloudtunnel top`) + chalk.dim(` — refreshing every ${options.interval}s, Ctrl+C to quit`));
+      
+      for (const result of results) {
+        console.log(`\n${chalk.bold(result.name)} ${chalk.dim(result.metricsAddress || "")}`);
+        if (!result.snapshot) {
+          console.log(`  ${chalk.red(`Metrics unavailable: ${result.error}`)}`);
+          continue;
+        }
+        
+        const snapshot: MetricsSnapshot = result.snapshot;
+        const errorColor = snapshot.totals.errorRate > 0 ? chalk.red : chalk.green;
+        console.log(`  Requests: ${rate(snapshot.totals.requestRate)} (${snapshot.totals.requests} total)  Errors: ${errorColor(rate(snapshot.totals.errorRate))} (${snapshot.totals.errors} total)`);
+        console.log(`  Edge connections: ${snapshot.edgeConnections}  HA connections: ${snapshot.haConnections}  In flight: ${snapshot.concurrentRequests}`);
+        console.log(`  Origin latency: mean ${ms(snapshot.latencyMs.mean)}, p95 ${ms(snapshot.latencyMs.p95)}`);
+        
+        for (const [hostname, stats] of Object.entries(snapshot.hostnames)) {
+          console.log(`    ${chalk.cyan(hostname)}  ${rate(stats.requestRate)} req, ${rate(stats.errorRate)} err`);
+        }
+      }
+    };
+    
+    // Two scrapes are needed to turn counters into rates
+    await scrape();
+    await new Promise(resolve => setTimeout(resolve, options.json ? Math.min(intervalMs, 1000) : 0));
+    
+    if (options.json) {
+      console.log(JSON.stringify(await scrape(), null, 2));
+      return;
+    }
+    
+    while (true) {
+      render(await scrape());
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+  });
+
+// DNS commands
+const dnsCommand = program
+  .command("dns")
+  .description("Manage DNS records of tunnel hostnames through the Cloudflare API");
+
+dnsCommand
+  .command("token [token]")
+  .description("Save the Cloudflare API token used for DNS management (needs Zone:DNS:Edit)")
+  .option("--base-url <url>", "Override the Cloudflare API base URL")
+  .option("--clear", "Remove the saved token")
+  .action(async (token: string | undefined, options: { baseUrl?: string; clear?: boolean }) => {
+    if (options.clear) {
+      manager.clearApiToken();
+      log("Cloudflare API token removed.", "info");
+      return;
+    }
+    
+    const apiToken = token || (await prompt([
+      {
+        type: "password",
+        name: "apiToken",
+        message: "Cloudflare API token:",
+        mask: "*",
+        validate: (input: string) => !!input.trim() || "Token cannot be empty.",
+      },
+    ], "Pass the token: cloudtunnel dns token <token>.")).apiToken;
+    
+    const zones = await manager.saveApiToken(apiToken.trim(), options.baseUrl);
+    log(`Token works: ${zones} zone(s) accessible.`, "info");
+    log("Cloudflare API token saved.", "info");
+  });
+
+dnsCommand
+  .command("list")
+  .description("List DNS records that point at tunnels")
+  .option("-j, --json", "Output as JSON")
+  .action(async (options: { json?: boolean }) => {
+    const records = await manager.listTunnelDnsRecords();
+    
+    if (options.json) {
+      console.log(JSON.stringify(records.map(({ record, tunnelName, state }) => ({
+        hostname: record.name,
+        zone: record.zone.name,
+        tunnelId: record.tunnelId,
+        tunnelName,
+        state,
+      })), null, 2));
+      return;
+    }
+    
+    if (records.length === 0) {
+      log("No DNS records point at tunnels.", "info");
+      return;
+    }
+    
+    console.log(chalk.bold(`\nTunnel DNS Records (${records.length}):`));
+    for (const { record, tunnelName, state } of records) {
+      const stateText =
+        state === "ok" ? chalk.green("ok") :
+        state === "unconfigured" ? chalk.yellow("not in config") :
+        chalk.red("orphaned");
+      console.log(`  ${chalk.cyan(record.name)} → ${tunnelName || chalk.dim(record.tunnelId)} [${stateText}]`);
+    }
+  });
+
+dnsCommand
+  .command("prune")
+  .description("Delete DNS records that point at tunnels which no longer exist")
+  .option("-y, --yes", "Delete without asking for confirmation")
+  .option("--dry-run", "Only show which records would be deleted")
+  .action(async (options: { yes?: boolean; dryRun?: boolean }) => {
+    const orphaned = (await manager.listTunnelDnsRecords()).filter(r => r.state === "orphaned");
+    
+    if (orphaned.length === 0) {
+      log("No orphaned DNS records found.", "info");
+      return;
+    }
+    
+    log(`Found ${orphaned.length} orphaned DNS record(s):`, "warn");
+    orphaned.forEach(({ record }) => log(`  ${record.name} → ${record.content}`, "warn"));
+    
+    if (options.dryRun) return;
+    
+    if (!options.yes) {
+      const answer = await prompt([
+        {
+          type: "confirm",
+          name: "remove",
+          message: "Delete these DNS records?",
+          default: false,
+        },
+      ], "Pass --yes to delete them.");
+      if (!answer.remove) fail("Cancelled.", ExitCode.CANCELLED);
+    }
+    
+    for (const entry of orphaned) {
+      await manager.deleteTunnelDnsRecord(entry);
+      log(`Deleted: ${entry.record.name}`, "info");
+    }
+  });
+
+// Logs command
+program
+  .command("logs")
+  .description("Show cloudflared output captured for a tunnel")
+  .option("-t, --tunnel <id>", "Show logs of a specific tunnel (ID or name)")
+  .option("-f, --follow", "Keep printing new log lines as they are written")
+  .option("-n, --lines <count>", "Number of most recent lines to show", "100")
+  .option("--since <time>", "Only show lines newer than a duration (10m, 2h, 1d) or date")
+  .option("--level <level>", `Minimum level (${LOG_LEVELS.join("/")})`)
+  .option("-j, --json", "Output one JSON object per line")
+  .action((options: { tunnel?: string; follow?: boolean; lines: string; since?: string; level?: string; json?: boolean }) => {
+    const config = manager.loadConfig();
+    const tunnelRef = options.tunnel || config.activeTunnel;
+    const tunnel = tunnelRef
+      ? config.tunnels[tunnelRef] || findTunnelByName(config, tunnelRef)
+      : null;
+    const tunnelId = tunnel?.tunnelId || tunnelRef;
+    
+    if (!tunnelId) {
+      fail("No tunnel selected. Use --tunnel or run 'cloudtunnel init' first.", ExitCode.NOT_FOUND);
+    }
+    
+    if (options.level && !LOG_LEVELS.includes(options.level as LogLevel)) {
+      fail(`Invalid level: ${options.level}. Use one of: ${LOG_LEVELS.join(", ")}`, ExitCode.USAGE);
+    }
+    
+    const lineCount = parseInt(options.lines, 10);
+    if (isNaN(lineCount) || lineCount < 0) {
+      fail("--lines must be a non-negative number.", ExitCode.USAGE);
+    }
+    
+    let since: number | undefined;
+    try {
+      since = options.since ? parseSince(options.since) : undefined;
+    } catch (err: any) {
+      fail(err.message, ExitCode.USAGE);
+    }
+    
+    const logFile = manager.getTunnelLogFile(tunnelId);
+    if (!fs.existsSync(logFile) && !options.follow) {
+      log(`No logs captured for ${tunnel?.tunnelName || tunnelId} yet. Start it with 'cloudtunnel run'.`, "warn");
+      return;
+    }
+    
+    const filter = { since, level: options.level as LogLevel | undefined };
+    const print = (entry: LogEntry) => {
+      if (options.json) {
+        const { raw, ...rest } = entry;
+        console.log(JSON.stringify(rest));
+        return;
+      }
+      
+      const color =
+        entry.level === "error" || entry.level === "fatal" ? chalk.red :
+        entry.level === "warn" ? chalk.yellow :
+        entry.level === "debug" ? chalk.dim :
+        (text: string) => text;
+      console.log(color(entry.raw));
+    };
+    
+    const content = fs.existsSync(logFile) ? fs.readFileSync(logFile, "utf8") : "";
+    const entries = filterLogEntries(parseLog(content), filter);
+    entries.slice(Math.max(0, entries.length - lineCount)).forEach(print);
+    
+    if (options.follow) {
+      let previous: LogEntry | undefined = entries[entries.length - 1];
+      followLogFile(logFile, Buffer.byteLength(content), (lines) => {
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          previous = parseLogLine(line, previous);
+          filterLogEntries([previous], filter).forEach(print);
+        }
+      });
+    }
+  });
+
+// Inspect commands
+const inspectCommand = program
+  .command("inspect")
+  .description("List requests recorded by 'run --inspect'; see subcommands to show and replay them")
+  .option("-t, --tunnel <tunnel>", "Only show requests of this tunnel (ID or name)")
+  .option("-n, --limit <count>", "Number of most recent requests to show", "20")
+  .option("-j, --json", "Output as JSON")
+  .action((options: { tunnel?: string; limit: string; json?: boolean }) => {
+    const limit = parseInt(options.limit, 10);
+    if (isNaN(limit) || limit < 1) {
+      fail("--limit must be a positive number.", ExitCode.USAGE);
+    }
+    
+    const tunnelId = options.tunnel ? resolveInspectTunnel(options.tunnel) : undefined;
+    const captures = listCaptures(manager.paths.inspectDir).filter(c => !tunnelId || c.tunnelId === tunnelId).slice(0, limit);
+    
+    if (options.json) {
+      console.log(JSON.stringify(captures, null, 2));
+      return;
+    }
+    if (captures.length === 0) {
+      log("No requests recorded yet. Start a tunnel with 'cloudtunnel run --inspect'.", "info");
+      return;
+    }
+    
+    // Oldest first, like a log
+    for (const capture of [...captures].reverse()) {
+      const time = new Date(capture.startedAt).toLocaleTimeString();
+      const replay = capture.replayOf ? chalk.dim(` (replay of ${capture.replayOf})`) : "";
+      console.log(`${chalk.dim(capture.id)}  ${time}  ${capture.request.method.padEnd(7)}${formatCaptureStatus(capture).padEnd(4)}  ${`${capture.durationMs}ms`.padStart(7)}  ${capture.request.headers.host || ""}${capture.request.path}${replay}`);
+    }
+  });
+
+function resolveInspectTunnel(ref: string): string {
+  const tunnel = resolveTunnel(manager.loadConfig(), ref);
+  if (!tunnel) fail(`Tunnel not found: ${ref}`, ExitCode.NOT_FOUND);
+  return tunnel.tunnelId;
+}
+
+function formatCaptureStatus(capture: Capture): string {
+  if (capture.upgrade) return "101";
+  return capture.response ? String(capture.response.status) : "ERR";
+}
+
+function loadCapture(ref: string): Capture {
+  let capture: Capture | null;
+  try {
+    capture = findCapture(manager.paths.inspectDir, ref);
+  } catch (err: any) {
+    fail(err.message, ExitCode.USAGE);
+  }
+  if (!capture) {
+    fail(`Request not found: ${ref}`, ExitCode.NOT_FOUND, "Run 'cloudtunnel inspect' to list recorded requests.");
+  }
+  return capture;
+}
+
+function printCapture(capture: Capture): void {
+  const headers = (values: { [name: string]: string | string[] | undefined }) => {
+    for (const [name, value] of Object.entries(values)) {
+      console.log(`  ${chalk.dim(`${name}:`)} ${Array.isArray(value) ? value.join(", ") : value}`);
+    }
+  };
+  
+  console.log(chalk.bold(`\n${capture.request.method} ${capture.request.headers.host || ""}${capture.request.path} → ${formatCaptureStatus(capture)} in ${capture.durationMs}ms`));
+  console.log(`  ID: ${capture.id}`);
+  console.log(`  Time: ${new Date(capture.startedAt).toLocaleString()}`);
+  console.log(`  Origin: ${capture.origin}`);
+  if (capture.replayOf) console.log(`  Replay of: ${capture.replayOf}`);
+  if (capture.upgrade) console.log(`  Upgraded to: ${capture.upgrade} (traffic not recorded)`);
+  
+  console.log(chalk.green("\nRequest:"));
+  headers(capture.request.headers);
+  const requestBody = formatBody(capture.request.body, capture.request.headers);
+  if (requestBody) console.log(`\n${requestBody}`);
+  
+  if (capture.response) {
+    console.log(chalk.green(`\nResponse: ${capture.response.status}`));
+    headers(capture.response.headers);
+    const responseBody = formatBody(capture.response.body, capture.response.headers);
+    if (responseBody) console.log(`\n${responseBody}`);
+  } else if (capture.error) {
+    console.log(chalk.red(`\nError: ${capture.error}`));
+  }
+}
+
+inspectCommand
+  .command("show <id>")
+  .description("Show the headers and bodies of a recorded request")
+  .option("-j, --json", "Output as JSON")
+  .action((id: string, options: { json?: boolean }) => {
+    const capture = loadCapture(id);
+    if (options.json) {
+      console.log(JSON.stringify(capture, null, 2));
+      return;
+    }
+    printCapture(capture);
+  });
+
+inspectCommand
+  .command("replay <id>")
+  .description("Send a recorded request to its origin again, optionally with edits")
+  .option("--origin <url>", "Send it to another origin, e.g. http://localhost:4000")
+  .option("-X, --method <method>", "Replace the method")
+  .option("--path <path>", "Replace the path and query")
+  .option("-H, --header <header>", "Set a header, as 'Name: value' (repeatable)", (value: string, previous: string[]) => [...previous, value], [] as string[])
+  .option("--remove-header <name>", "Remove a header (repeatable)", (value: string, previous: string[]) => [...previous, value], [] as string[])
+  .option("-d, --data <body>", "Replace the body")
+  .option("--data-file <path>", "Replace the body with the contents of a file")
+  .option("-k, --insecure", "Skip TLS verification of an https origin")
+  .option("-j, --json", "Output the new capture as JSON")
+  .action(async (id: string, options: {
+    origin?: string;
+    method?: string;
+    path?: string;
+    header: string[];
+    removeHeader: string[];
+    data?: string;
+    dataFile?: string;
+    insecure?: boolean;
+    json?: boolean;
+  }) => {
+    const capture = loadCapture(id);
+    
+    if (options.origin && !/^https?:\/\/[^/]+/.test(options.origin)) {
+      fail(`Invalid origin: ${options.origin}. Use a URL such as http://localhost:3000.`, ExitCode.USAGE);
+    }
+    if (options.data !== undefined && options.dataFile) {
+      fail("Use either --data or --data-file.", ExitCode.USAGE);
+    }
+    if (options.dataFile && !fs.existsSync(options.dataFile)) {
+      fail(`File not found: ${options.dataFile}`, ExitCode.NOT_FOUND);
+    }
+    
+    const headers: { [name: string]: string } = {};
+    for (const header of options.header) {
+      const separator = header.indexOf(":");
+      if (separator <= 0) {
+        fail(`Invalid header: ${header}. Use 'Name: value'.`, ExitCode.USAGE);
+      }
+      headers[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+    }
+    
+    let replay: Capture;
+    try {
+      replay = await replayCapture(manager.paths.inspectDir, capture, {
+        origin: options.origin,
+        method: options.method,
+        path: options.path,
+        headers,
+        removeHeaders: options.removeHeader,
+        body: options.dataFile ? fs.readFileSync(options.dataFile) : options.data !== undefined ? Buffer.from(options.data) : undefined,
+        insecure: options.insecure,
+      });
+    } catch (err: any) {
+      if (err instanceof InspectorError) fail(err.message, ExitCode.USAGE);
+      throw err;
+    }
+    
+    if (options.json) {
+      console.log(JSON.stringify(replay, null, 2));
+    } else {
+      printCapture(replay);
+    }
+    if (!replay.response) {
+      fail(`Could not reach ${replay.origin}: ${replay.error}`, ExitCode.UNHEALTHY);
+    }
+  });
+
+inspectCommand
+  .command("clear")
+  .description("Delete recorded requests")
+  .option("-t, --tunnel <tunnel>", "Only delete requests of this tunnel (ID or name)")
+  .option("-y, --yes", "Delete without asking for confirmation")
+  .action(async (options: { tunnel?: string; yes?: boolean }) => {
+    const tunnelId = options.tunnel ? resolveInspectTunnel(options.tunnel) : undefined;
+    
+    if (!options.yes) {
+      const answer = await prompt([
+        {
+          type: "confirm",
+          name: "clear",
+          message: options.tunnel ? `Delete all recorded requests of ${options.tunnel}?` : "Delete all recorded requests?",
+          default: false,
+        },
+      ], "Pass --yes to delete them.");
+      if (!answer.clear) fail("Cancelled.", ExitCode.CANCELLED);
+    }
+    
+    const count = clearCaptures(manager.paths.inspectDir, tunnelId);
+    log(`✓ Deleted ${count} recorded request(s).`, "info");
+  });
+
+inspectCommand
+  .command("ui")
+  .description("Browse and replay recorded requests in a local web page")
+  .option("-p, --port <port>", "Port to serve the page on", "4040")
+  .option("-t, --tunnel <tunnel>", "Only show requests of this tunnel (ID or name)")
+  .action(async (options: { port: string; tunnel?: string }) => {
+    const port = parseInt(options.port, 10);
+    if (isNaN(port) || port < 1 || port > 65535) {
+      fail(`Invalid port: ${options.port}`, ExitCode.USAGE);
+    }
+    const tunnelId = options.tunnel ? resolveInspectTunnel(options.tunnel) : undefined;
+    
+    const server = createInspectorUi(manager.paths.inspectDir, capture => !tunnelId || capture.tunnelId === tunnelId);
+    await new Promise<void>((resolve) => {
+      server.once("error", (err: NodeJS.ErrnoException) => {
+        fail(`Could not listen on port ${port}: ${err.message}`, err.code === "EADDRINUSE" ? ExitCode.CONFLICT : ExitCode.ERROR);
+      });
+      server.listen(port, "127.0.0.1", resolve);
+    });
+    
+    log(`Inspector UI at ${chalk.bold(`http://127.0.0.1:${port}`)}`, "info");
+    log("Press Ctrl+C to stop.", "info");
+  });
+
+// Context commands
+const contextCommand = program
+  .command("context")
+  .description("Manage contexts, each with its own Cloudflare login, credentials and tunnels");
+
+// Tunnel count of a context for listings; null when its config is unreadable
+function countContextTunnels(dir: string): number | null {
+  const file = path.join(dir, "cloudtunnel-config.json");
+  if (!fs.existsSync(file)) return 0;
+  try {
+    return Object.keys(readConfigFile(file).config.tunnels).length;
+  } catch (err) {
+    return null;
+  }
+}
+
+contextCommand
+  .command("list")
+  .description("List contexts")
+  .option("-j, --json", "Output as JSON")
+  .action((options: { json?: boolean }) => {
+    const current = resolveContextName(CLOUDTUNNEL_HOME, program.opts().context);
+    const contexts = listContexts(CLOUDTUNNEL_HOME).map(name => {
+      const dir = getContextDir(CLOUDTUNNEL_HOME, name);
+      return {
+        name,
+        current: name === current,
+        dir,
+        loggedIn: fs.existsSync(path.join(dir, "cert.pem")),
+        tunnels: countContextTunnels(dir),
+      };
+    });
+    
+    if (options.json) {
+      console.log(JSON.stringify(contexts, null, 2));
+      return;
+    }
+    
+    const width = Math.max(...contexts.map(c => c.name.length));
+    for (const context of contexts) {
+      const marker = context.current ? chalk.green("*") : " ";
+      const login = context.loggedIn ? chalk.green("logged in") : chalk.yellow("not logged in");
+      const tunnels = context.tunnels === null ? chalk.red("invalid config") : `${context.tunnels} tunnel(s)`;
+      console.log(`${marker} ${chalk.bold(context.name.padEnd(width))}  ${login}, ${tunnels}  ${chalk.dim(context.dir)}`);
+    }
+    if (!contexts.some(c => c.current)) {
+      log(`Current context ${current} does not exist. Run 'cloudtunnel context use <name>'.`, "warn");
+    }
+  });
+
+contextCommand
+  .command("create <name>")
+  .description("Create a context with its own login, credentials and tunnels")
+  .option("--use", "Make it the current context")
+  .action((name: string, options: { use?: boolean }) => {
+    let dir: string;
+    try {
+      dir = createContext(CLOUDTUNNEL_HOME, name);
+    } catch (err: any) {
+      if (err instanceof ContextError) {
+        fail(err.message, contextExists(CLOUDTUNNEL_HOME, name) ? ExitCode.CONFLICT : ExitCode.USAGE);
+      }
+      throw err;
+    }
+    
+    log(`✓ Created context ${chalk.bold(name)} in ${dir}`, "info");
+    if (options.use) {
+      writeCurrentContext(CLOUDTUNNEL_HOME, name);
+      log(`Switched to context ${name}.`, "info");
+      log("Run 'cloudtunnel login' to log in to its Cloudflare account.", "info");
+    } else {
+      log(`Run 'cloudtunnel --context ${name} login' to log in to its Cloudflare account.`, "info");
+    }
+  });
+
+contextCommand
+  .command("use <name>")
+  .description("Switch the current context")
+  .action((name: string) => {
+    if (!contextExists(CLOUDTUNNEL_HOME, name)) {
+      fail(`Context not found: ${name}`, ExitCode.NOT_FOUND, `Run 'cloudtunnel context create ${name}' first.`);
+    }
+    
+    writeCurrentContext(CLOUDTUNNEL_HOME, name);
+    log(`✓ Switched to context ${chalk.bold(name)}.`, "info");
+    if (process.env.CLOUDTUNNEL_CONTEXT && process.env.CLOUDTUNNEL_CONTEXT !== name) {
+      log(`CLOUDTUNNEL_CONTEXT is set to ${process.env.CLOUDTUNNEL_CONTEXT}, which still takes precedence in this shell.`, "warn");
+    }
+  });
+
+// Hooks commands
+const hooksCommand = program
+  .command("hooks")
+  .description("Run commands or call webhooks when tunnels start, stop or crash and services change");
+
+// A hook and the tunnel it belongs to, which is null for global hooks
+function findHookOwner(config: Config, id: string): { hook: Hook; tunnel: TunnelEntry | null } | null {
+  const global = config.hooks?.find(hook => hook.id === id);
+  if (global) return { hook: global, tunnel: null };
+  for (const tunnel of Object.values(config.tunnels)) {
+    const hook = tunnel.hooks?.find(h => h.id === id);
+    if (hook) return { hook, tunnel };
+  }
+  return null;
+}
+
+function describeHookResult(hook: Hook, event: string, result: HookDelivery): string {
+  return result.ok
+    ? `Hook ${hook.id} (${describeHook(hook)}) ran for ${event}`
+    : `Hook ${hook.id} (${describeHook(hook)}) failed for ${event} after ${result.attempts} attempt(s): ${result.error}`;
+}
+
+hooksCommand
+  .command("list")
+  .description("List hooks")
+  .option("-t, --tunnel <tunnel>", "Only hooks that run for this tunnel (ID or name)")
+  .option("-j, --json", "Output as JSON")
+  .action((options: { tunnel?: string; json?: boolean }) => {
+    const config = manager.loadConfig();
+    const tunnel = options.tunnel ? manager.requireTunnel(config, options.tunnel) : null;
+    
+    const entries = [
+      ...(config.hooks || []).map(hook => ({ hook, tunnel: null as TunnelEntry | null })),
+      ...Object.values(config.tunnels)
+        .filter(t => !tunnel || t.tunnelId === tunnel.tunnelId)
+        .flatMap(t => (t.hooks || []).map(hook => ({ hook, tunnel: t as TunnelEntry | null }))),
+    ];
+    
+    if (options.json) {
+      // Secrets are left out, like the hashes of `protect`
+      console.log(JSON.stringify(entries.map(({ hook, tunnel }) => ({
+        ...hook,
+        secret: undefined,
+        signed: !!hook.secret,
+        tunnelId: tunnel?.tunnelId || null,
+      })), null, 2));
+      return;
+    }
+    
+    if (entries.length === 0) {
+      log("No hooks. Add one with 'cloudtunnel hooks add'.", "info");
+      return;
+    }
+    for (const { hook, tunnel } of entries) {
+      const scope = tunnel ? tunnel.tunnelName : "all tunnels";
+      const signed = hook.secret ? chalk.dim(" (signed)") : "";
+      console.log(`${chalk.bold(hook.id)}  ${chalk.cyan(hook.events.join(", "))} → ${describeHook(hook)}${signed}  ${chalk.dim(scope)}`);
+    }
+  });
+
+hooksCommand
+  .command("add")
+  .description("Add a hook to the active tunnel, a given one or all of them")
+  .option("-e, --event <event>", `Event to run on (repeatable): ${HOOK_EVENTS.join(", ")} or * for all`, (value: string, previous: string[]) => [...previous, value], [] as string[])
+  .option("--command <command>", "Shell command to run, with the event as JSON on stdin")
+  .option("--url <url>", "Webhook to POST the event to as JSON")
+  .option("--secret [secret]", "Sign webhook bodies with HMAC-SHA256 (generated when no value is given)")
+  .option("--retries <count>", `Further attempts after a failed webhook delivery (default ${DEFAULT_HOOK_RETRIES})`)
+  .option("--timeout <duration>", `How long the command or each webhook attempt may take (default ${DEFAULT_HOOK_TIMEOUT})`)
+  .option("-t, --tunnel <tunnel>", "Tunnel to add the hook to (ID or name)")
+  .option("-g, --global", "Run the hook for every tunnel of the context")
+  .option("-j, --json", "Output the hook as JSON")
+  .action((options: {
+    event: string[];
+    command?: string;
+    url?: string;
+    secret?: string | boolean;
+    retries?: string;
+    timeout?: string;
+    tunnel?: string;
+    global?: boolean;
+    json?: boolean;
+  }) => {
+    if (options.global && options.tunnel) {
+      fail("Use either --tunnel or --global.", ExitCode.USAGE);
+    }
+    if (options.event.length === 0) {
+      fail("No event given.", ExitCode.USAGE, `Use --event with one of ${HOOK_EVENTS.join(", ")} or * for all.`);
+    }
+    const retries = options.retries === undefined ? undefined : Number(options.retries);
+    const secret = options.secret === true ? generateToken() : options.secret || undefined;
+    
+    const { hook, tunnel } = manager.addHook(options.global ? null : options.tunnel, {
+      events: options.event,
+      command: options.command,
+      url: options.url,
+      secret,
+      retries,
+      timeout: options.timeout,
+    });
+    
+    if (options.json) {
+      console.log(JSON.stringify({ ...hook, tunnelId: tunnel?.tunnelId || null }, null, 2));
+      return;
+    }
+    log(`✓ Added hook ${chalk.bold(hook.id)} for ${hook.events.join(", ")} ${tunnel ? `of ${tunnel.tunnelName}` : "of all tunnels"}: ${describeHook(hook)}`, "info");
+    if (options.secret === true) {
+      log(`  Signing secret (shown only once): ${chalk.bold(secret)}`, "info");
+    }
+    log(`Try it with 'cloudtunnel hooks test ${hook.id}'.`, "info");
+  });
+
+hooksCommand
+  .command("remove <id>")
+  .description("Remove a hook")
+  .action((id: string) => {
+    const hook = manager.removeHook(id);
+    log(`✓ Removed hook ${id} (${describeHook(hook)}).`, "info");
+  });
+
+hooksCommand
+  .command("test <id>")
+  .description("Deliver a test event to a hook and show the outcome")
+  .option("-e, --event <event>", "Event to send (defaults to the first the hook runs on)")
+  .option("-t, --tunnel <tunnel>", "Tunnel the event is about, for global hooks (defaults to the active tunnel)")
+  .action(async (id: string, options: { event?: string; tunnel?: string }) => {
+    const config = manager.loadConfig();
+    const owner = findHookOwner(config, id);
+    if (!owner) {
+      fail(`Hook not found: ${id}`, ExitCode.NOT_FOUND, "List hooks with 'cloudtunnel hooks list'.");
+    }
+    const { hook } = owner;
+    const tunnel = owner.tunnel || manager.requireTunnel(config, options.tunnel);
+    
+    const event = options.event || hook.events.find(isHookEvent) || HOOK_EVENTS[0];
+    if (!isHookEvent(event)) {
+      fail(`Unknown event: ${event}`, ExitCode.USAGE, `Events are ${HOOK_EVENTS.join(", ")}.`);
+    }
+    
+    const payload = manager.createHookPayload(event, tunnel, {
+      service: event.startsWith("service.") ? tunnel.services[0] : undefined,
+      details: { test: true },
+    });
+    log(`Sending ${event} for ${tunnel.tunnelName} to ${describeHook(hook)}...`, "info");
+    const result = await deliverHook(hook, payload);
+    
+    if (result.ok) {
+      log(`✓ Delivered${result.status ? ` (HTTP ${result.status})` : ""}${result.attempts > 1 ? ` after ${result.attempts} attempts` : ""}.`, "info");
+    } else {
+      fail(`Delivery failed after ${result.attempts} attempt(s): ${result.error}`, ExitCode.ERROR);
+    }
+  });
+
+// Deliver command (internal, started by TunnelManager.emitEvent)
+hooksCommand
+  .command("deliver <payload>", { hidden: true })
+  .action(async (payloadJson: string) => {
+    const payload = JSON.parse(payloadJson) as HookPayload;
+    setLogTunnel(payload.tunnel.id);
+    const hooks = manager.getHooks(manager.loadConfig(), payload.tunnel.id, payload.event);
+    
+    await Promise.all(hooks.map(async (hook) => {
+      const result = await deliverHook(hook, payload);
+      manager.appendTunnelLog(payload.tunnel.id, result.ok ? "info" : "warn", describeHookResult(hook, payload.event, result));
+    }));
+  });
+
+// Completion commands
+program
+  .command("completion <shell>")
+  .description(`Print a completion script for ${COMPLETION_SHELLS.join(", ")}`)
+  .addHelpText("after", `
+Examples:
+  source <(cloudtunnel completion bash)      # in ~/.bashrc
+  source <(cloudtunnel completion zsh)       # in ~/.zshrc
+  cloudtunnel completion fish > ~/.config/fish/completions/cloudtunnel.fish`)
+  .action((shell: string) => {
+    if (!isCompletionShell(shell)) {
+      fail(`Unsupported shell: ${shell}`, ExitCode.USAGE, `Use ${COMPLETION_SHELLS.join(", ")}.`);
+    }
+    process.stdout.write(completionScript(shell, program.name()));
+  });
+
+function contextCandidates(): Candidate[] {
+  return listContexts(CLOUDTUNNEL_HOME).map(name => ({ value: name, description: name === manager.context ? "current" : undefined }));
+}
+
+// Tunnel names, and IDs once something has been typed so that the list of
+// names is not doubled
+function tunnelCandidates(config: Config, prefix: string): Candidate[] {
+  const tunnels = Object.values(config.tunnels);
+  const names = tunnels.map(tunnel => ({
+    value: tunnel.tunnelName,
+    description: `${tunnel.tunnelId}${tunnel.tunnelId === config.activeTunnel ? " (active)" : ""}`,
+  }));
+  if (!prefix) return names;
+  return [...names, ...tunnels.map(tunnel => ({ value: tunnel.tunnelId, description: tunnel.tunnelName }))];
+}
+
+// Hostnames of the tunnel given with --tunnel, or of the active tunnel
+function hostnameCandidates(config: Config, tunnelRef?: string): Candidate[] {
+  const tunnel = resolveTunnel(config, tunnelRef);
+  if (!tunnel) return [];
+  const hostnames = new Map<string, string>();
+  for (const service of tunnel.services) {
+    if (!hostnames.has(service.hostname)) hostnames.set(service.hostname, service.service);
+  }
+  return [...hostnames].map(([value, description]) => ({ value, description }));
+}
+
+// Values for options and arguments, read from the config of the context in use
+function completionValues(request: ValueRequest): Candidate[] {
+  const { command, given, prefix } = request;
+  const name = request.option || request.argument;
+  const commandPath = command.join(" ");
+  if (given.context && contextExists(CLOUDTUNNEL_HOME, given.context)) {
+    useContext(given.context);
+  }
+  
+  switch (name) {
+    case "tunnel":
+    case "useExisting":
+      return tunnelCandidates(manager.loadConfig(), prefix);
+    case "hostname":
+      // New hostnames cannot be suggested
+      if (commandPath === "add" || commandPath === "dev") return [];
+      return hostnameCandidates(manager.loadConfig(), given.tunnel);
+    case "protocol":
+      return (commandPath === "add" ? SERVICE_TYPES : ["http", "https"]).map(value => ({ value }));
+    case "context":
+      return contextCandidates();
+    case "name":
+      return commandPath === "context use" ? contextCandidates() : [];
+    case "event":
+      return [...HOOK_EVENTS, ...(commandPath === "hooks add" ? ["*"] : [])].map(value => ({ value }));
+    case "level":
+      return LOG_LEVELS.map(value => ({ value }));
+    case "strategy":
+      return ["merge", "replace", "skip"].map(value => ({ value }));
+    case "scope":
+      return ["user", "system"].map(value => ({ value }));
+    case "restart":
+      return RESTART_POLICIES.map(value => ({ value }));
+    case "shell":
+      return COMPLETION_SHELLS.map(value => ({ value }));
+    case "id": {
+      if (commandPath !== "hooks remove" && commandPath !== "hooks test") return [];
+      const config = manager.loadConfig();
+      return [
+        ...(config.hooks || []).map(hook => ({ value: hook.id, description: `global ${describeHook(hook)}` })),
+        ...Object.values(config.tunnels).flatMap(tunnel => (tunnel.hooks || []).map(hook => ({
+          value: hook.id,
+          description: `${tunnel.tunnelName} ${describeHook(hook)}`,
+        }))),
+      ];
+    }
+    default:
+      return [];
+  }
+}
+
+// Complete command (internal, called by the completion scripts)
+program
+  .command("__complete [words...]", { hidden: true })
+  .option("--shell <shell>", "Shell to format the candidates for", "bash")
+  .allowUnknownOption()
+  .action((words: string[], options: { shell: string }) => {
+    const shell = isCompletionShell(options.shell) ? options.shell : "bash";
+    let candidates: Candidate[] = [];
+    try {
+      candidates = completeWords(program, words.length > 0 ? words : [""], completionValues);
+    } catch (err) {
+      // An unreadable config must not break the shell; offer nothing
+    }
+    if (candidates.length > 0) console.log(formatCandidates(shell, candidates));
+  });
+
+// Version command
+program
+  .command("version")
+  .description("Show version information")
+  .option("-j, --json", "Output as JSON")
+  .action((options: { json?: boolean }) => {
+    const cloudflaredVersion = manager.getCloudflaredVersion();
+    
+    if (options.json) {
+      console.log(JSON.stringify({
+        cloudtunnel: getPackageVersion(),
+        cloudflared: cloudflaredVersion,
+        configVersion: CONFIG_VERSION,
+        context: manager.context,
+        configFile: manager.paths.configFile,
+      }, null, 2));
+      return;
+    }
+    
+    console.log(`cloudtunnel: ${chalk.green(getPackageVersion())}`);
+    console.log(`cloudflared: ${cloudflaredVersion ? chalk.green(cloudflaredVersion) : chalk.yellow("Not installed (optional for version check)")}`);
     
     console.log(`Config version: ${chalk.green(CONFIG_VERSION)}`);
-    console.log(`Config location: ${chalk.dim(CONFIG_FILE)}`);
+    console.log(`Context: ${chalk.green(manager.context)}`);
+    console.log(`Config location: ${chalk.dim(manager.paths.configFile)}`);
   });
 
-// Parse and execute
-program.parse(process.argv);
+// Parse and execute; errors from the tunnel manager exit with their code
+program.parseAsync(process.argv).catch((err) => {
+  if (err instanceof TunnelError) fail(err.message, err.code, err.hint);
+  throw err;
+});
 
 // Show help if no command provided
 if (!process.argv.slice(2).length) {
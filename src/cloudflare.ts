@@ -0,0 +1,223 @@
+import http from "http";
+import https from "https";
+
+export const DEFAULT_API_BASE_URL = "https://api.cloudflare.com/client/v4";
+export const TUNNEL_DOMAIN = "cfargotunnel.com";
+
+export interface Zone {
+  id: string;
+  name: string;
+  account: { id: string; name?: string };
+}
+
+export interface DnsRecord {
+  id: string;
+  zone_id?: string;
+  zone_name?: string;
+  type: string;
+  name: string;
+  content: string;
+  proxied?: boolean;
+  ttl?: number;
+  comment?: string | null;
+}
+
+export interface RemoteTunnel {
+  id: string;
+  name: string;
+  deleted_at?: string | null;
+}
+
+export type DnsAction = "created" | "updated" | "unchanged";
+
+export class CloudflareApiError extends Error {
+  constructor(message: string, public status: number, public errors: Array<{ code: number; message: string }> = []) {
+    super(message);
+    this.name = "CloudflareApiError";
+  }
+}
+
+// Raised when a hostname already has records that were not created for a tunnel
+export class DnsConflictError extends Error {
+  constructor(public hostname: string, public records: DnsRecord[]) {
+    super(`${hostname} already has ${records.map(r => `${r.type} ${r.content}`).join(", ")}`);
+    this.name = "DnsConflictError";
+  }
+}
+
+export function tunnelTarget(tunnelId: string): string {
+  return `${tunnelId}.${TUNNEL_DOMAIN}`;
+}
+
+// Returns the tunnel ID a CNAME points at, or null for any other record
+export function tunnelIdFromRecord(record: DnsRecord): string | null {
+  if (record.type !== "CNAME") return null;
+  const suffix = `.${TUNNEL_DOMAIN}`;
+  return record.content.endsWith(suffix) ? record.content.slice(0, -suffix.length) : null;
+}
+
+export class CloudflareClient {
+  private zones: Zone[] | null = null;
+  
+  constructor(private apiToken: string, private baseUrl: string = DEFAULT_API_BASE_URL) {}
+  
+  private request<T>(method: string, apiPath: string, body?: unknown): Promise<{ result: T; result_info?: any }> {
+    const url = new URL(this.baseUrl.replace(/\/$/, "") + apiPath);
+    const client = url.protocol === "http:" ? http : https;
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    
+    return new Promise((resolve, reject) => {
+      const req = client.request(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${this.apiToken}`,
+          "Content-Type": "application/json",
+          ...(payload ? { "Content-Length": Buffer.byteLength(payload) } : {}),
+        },
+        timeout: 15_000,
+      }, (res) => {
+        let data = "";
+        res.setEncoding("utf8");
+        res.on("data", chunk => data += chunk);
+        res.on("end", () => {
+          let parsed: any;
+          try {
+            parsed = JSON.parse(data);
+          } catch (err) {
+            reject(new CloudflareApiError(`Invalid response from Cloudflare API (HTTP ${res.statusCode})`, res.statusCode || 0));
+            return;
+          }
+          
+          if (!parsed.success) {
+            const errors = parsed.errors || [];
+            const message = errors.map((e: any) => `${e.message} (${e.code})`).join("; ") || `HTTP ${res.statusCode}`;
+            reject(new CloudflareApiError(`Cloudflare API error: ${message}`, res.statusCode || 0, errors));
+            return;
+          }
+          
+          resolve(parsed);
+        });
+      });
+      
+      req.on("timeout", () => req.destroy(new Error(`Timed out calling ${method} ${apiPath}`)));
+      req.on("error", reject);
+      if (payload) req.write(payload);
+      req.end();
+    });
+  }
+  
+  private async paginate<T>(apiPath: string): Promise<T[]> {
+    const items: T[] = [];
+    const separator = apiPath.includes("?") ? "&" : "?";
+    
+    for (let page = 1; ; page++) {
+      const response = await this.request<T[]>("GET", `${apiPath}${separator}page=${page}&per_page=100`);
+      items.push(...response.result);
+      
+      const totalPages = response.result_info?.total_pages || 1;
+      if (page >= totalPages || response.result.length === 0) break;
+    }
+    
+    return items;
+  }
+  
+  async listZones(): Promise<Zone[]> {
+    if (!this.zones) {
+      this.zones = await this.paginate<Zone>("/zones");
+    }
+    return this.zones;
+  }
+  
+  // The zone for a hostname is the one with the longest matching name
+  async findZone(hostname: string): Promise<Zone> {
+    const zones = await this.listZones();
+    const zone = zones
+      .filter(z => hostname === z.name || hostname.endsWith(`.${z.name}`))
+      .sort((a, b) => b.name.length - a.name.length)[0];
+    
+    if (!zone) {
+      throw new CloudflareApiError(`No zone in this account matches ${hostname}`, 404);
+    }
+    return zone;
+  }
+  
+  async listDnsRecords(zoneId: string, filter: { name?: string; type?: string } = {}): Promise<DnsRecord[]> {
+    const query = new URLSearchParams();
+    if (filter.name) query.set("name", filter.name);
+    if (filter.type) query.set("type", filter.type);
+    const suffix = query.toString() ? `?${query}` : "";
+    return this.paginate<DnsRecord>(`/zones/${zoneId}/dns_records${suffix}`);
+  }
+  
+  async createDnsRecord(zoneId: string, record: Omit<DnsRecord, "id">): Promise<DnsRecord> {
+    return (await this.request<DnsRecord>("POST", `/zones/${zoneId}/dns_records`, record)).result;
+  }
+  
+  async updateDnsRecord(zoneId: string, recordId: string, record: Omit<DnsRecord, "id">): Promise<DnsRecord> {
+    return (await this.request<DnsRecord>("PUT", `/zones/${zoneId}/dns_records/${recordId}`, record)).result;
+  }
+  
+  async deleteDnsRecord(zoneId: string, recordId: string): Promise<void> {
+    await this.request<unknown>("DELETE", `/zones/${zoneId}/dns_records/${recordId}`);
+  }
+  
+  async listTunnels(accountId: string): Promise<RemoteTunnel[]> {
+    return this.paginate<RemoteTunnel>(`/accounts/${accountId}/cfd_tunnel?is_deleted=false`);
+  }
+  
+  // Points hostname at the tunnel. Records of other tunnels are repointed, but
+  // anything else (A records, CNAMEs to other hosts) is a conflict unless
+  // `force` is set, in which case it is replaced.
+  async ensureTunnelRecord(hostname: string, tunnelId: string, force = false): Promise<DnsAction> {
+    const zone = await this.findZone(hostname);
+    const existing = await this.listDnsRecords(zone.id, { name: hostname });
+    const record = { type: "CNAME", name: hostname, content: tunnelTarget(tunnelId), proxied: true, ttl: 1 };
+    
+    const current = existing.find(r => tunnelIdFromRecord(r) === tunnelId);
+    if (current && current.proxied !== false) return "unchanged";
+    
+    const tunnelRecord = existing.find(r => tunnelIdFromRecord(r) !== null);
+    const conflicts = existing.filter(r => tunnelIdFromRecord(r) === null);
+    
+    if (conflicts.length > 0 && !force) {
+      throw new DnsConflictError(hostname, conflicts);
+    }
+    for (const conflict of conflicts) {
+      await this.deleteDnsRecord(zone.id, conflict.id);
+    }
+    
+    if (current || tunnelRecord) {
+      await this.updateDnsRecord(zone.id, (current || tunnelRecord)!.id, record);
+      return "updated";
+    }
+    
+    await this.createDnsRecord(zone.id, record);
+    return "created";
+  }
+  
+  // Deletes the hostname's CNAME if it points at this tunnel. Returns whether
+  // a record was deleted.
+  async deleteTunnelRecord(hostname: string, tunnelId: string): Promise<boolean> {
+    const zone = await this.findZone(hostname);
+    const existing = await this.listDnsRecords(zone.id, { name: hostname, type: "CNAME" });
+    const record = existing.find(r => tunnelIdFromRecord(r) === tunnelId);
+    
+    if (!record) return false;
+    await this.deleteDnsRecord(zone.id, record.id);
+    return true;
+  }
+  
+  // Every CNAME pointing at a tunnel, across all zones of the token
+  async listTunnelRecords(): Promise<Array<DnsRecord & { zone: Zone; tunnelId: string }>> {
+    const records: Array<DnsRecord & { zone: Zone; tunnelId: string }> = [];
+    
+    for (const zone of await this.listZones()) {
+      for (const record of await this.listDnsRecords(zone.id, { type: "CNAME" })) {
+        const tunnelId = tunnelIdFromRecord(record);
+        if (tunnelId) records.push({ ...record, zone, tunnelId });
+      }
+    }
+    
+    return records;
+  }
+}
@@ -0,0 +1,196 @@
+import { Command, Help, Option } from "commander";
+
+// Shell completion: `cloudtunnel completion <shell>` prints a small script
+// that hands the words typed so far to the hidden `__complete` command.
+// Commands and options come from the commander definitions; values of options
+// and arguments, such as tunnel names, are looked up by the caller.
+
+export const COMPLETION_SHELLS = ["bash", "zsh", "fish"] as const;
+
+export type CompletionShell = typeof COMPLETION_SHELLS[number];
+
+export interface Candidate {
+  value: string;
+  description?: string;
+}
+
+// A value to complete: of an option, or of a positional argument
+export interface ValueRequest {
+  // The subcommands typed, e.g. ["hooks", "remove"]
+  command: string[];
+  // Attribute name of the option, e.g. "tunnel" for --tunnel
+  option?: string;
+  // Name of the argument, e.g. "hostname" for `protect <hostname>`
+  argument?: string;
+  // Options already given on the line, by attribute name
+  given: { [name: string]: string };
+  prefix: string;
+}
+
+export function isCompletionShell(shell: string): shell is CompletionShell {
+  return (COMPLETION_SHELLS as readonly string[]).includes(shell);
+}
+
+function findOption(command: Command, flag: string): Option | undefined {
+  for (let cmd: Command | null = command; cmd; cmd = cmd.parent) {
+    const option = cmd.options.find(o => o.long === flag || o.short === flag);
+    if (option) return option;
+  }
+  return undefined;
+}
+
+// Options of the command and of the commands above it, like --context
+function visibleOptions(help: Help, command: Command): Option[] {
+  const options: Option[] = [];
+  for (let cmd: Command | null = command; cmd; cmd = cmd.parent) {
+    options.push(...help.visibleOptions(cmd).filter(option => !options.some(o => o.long === option.long)));
+  }
+  return options;
+}
+
+// Candidates for the last of `words`, the arguments typed after the program
+// name. An empty list lets the shell fall back to file names.
+export function completeWords(program: Command, words: string[], values: (request: ValueRequest) => Candidate[]): Candidate[] {
+  const help = new Help();
+  let prefix = words.length > 0 ? words[words.length - 1] : "";
+  const path: string[] = [];
+  const given: { [name: string]: string } = {};
+  let command = program;
+  let positional = 0;
+  let pending: Option | undefined;
+  
+  for (const word of words.slice(0, -1)) {
+    // bash splits `--tunnel=demo` into `--tunnel`, `=` and `demo`
+    if (pending && word === "=") continue;
+    // An optional value is only taken if it does not look like an option
+    if (pending && !(pending.optional && word.startsWith("-"))) {
+      given[pending.attributeName()] = word;
+      pending = undefined;
+      continue;
+    }
+    pending = undefined;
+    
+    if (word.startsWith("-") && word !== "-" && word !== "--") {
+      const [flag, ...inline] = word.split("=");
+      const option = findOption(command, flag);
+      if (!option) continue;
+      if (inline.length > 0) {
+        given[option.attributeName()] = inline.join("=");
+      } else if (option.required || option.optional) {
+        pending = option;
+      } else {
+        given[option.attributeName()] = "true";
+      }
+      continue;
+    }
+    
+    const sub = positional === 0 ? command.commands.find(c => c.name() === word || c.aliases().includes(word)) : undefined;
+    if (sub) {
+      command = sub;
+      path.push(sub.name());
+    } else {
+      positional++;
+    }
+  }
+  
+  // A value typed as `--tunnel=de` in zsh and fish, where it is one word
+  let inlineFlag = "";
+  const inline = prefix.match(/^(--?[^=]+)=(.*)$/);
+  if (inline && findOption(command, inline[1])) {
+    pending = findOption(command, inline[1]);
+    inlineFlag = `${inline[1]}=`;
+    prefix = inline[2];
+  } else if (pending && prefix === "=") {
+    prefix = "";
+  }
+  
+  const request = { command: path, given, prefix };
+  let candidates: Candidate[] = [];
+  
+  if (pending && !(pending.optional && prefix.startsWith("-"))) {
+    candidates = pending.argChoices
+      ? pending.argChoices.map(value => ({ value }))
+      : values({ ...request, option: pending.attributeName() });
+  } else if (prefix.startsWith("-")) {
+    candidates = visibleOptions(help, command).map(option => ({
+      value: option.long || option.short!,
+      description: option.description,
+    }));
+  } else if (positional === 0 && help.visibleCommands(command).length > 0) {
+    candidates = help.visibleCommands(command).map(cmd => ({ value: cmd.name(), description: cmd.description() }));
+  } else {
+    const args = command.registeredArguments;
+    const last = args[args.length - 1];
+    const argument = positional < args.length ? args[positional] : last?.variadic ? last : undefined;
+    if (argument) {
+      candidates = argument.argChoices
+        ? argument.argChoices.map(value => ({ value }))
+        : values({ ...request, argument: argument.name() });
+    }
+  }
+  
+  return candidates
+    .filter(candidate => candidate.value.startsWith(prefix))
+    .map(candidate => inlineFlag ? { ...candidate, value: inlineFlag + candidate.value } : candidate);
+}
+
+// One candidate per line, in the form each script expects
+export function formatCandidates(shell: CompletionShell, candidates: Candidate[]): string {
+  return candidates.map(({ value, description }) => {
+    const summary = description?.split("\n")[0];
+    if (shell === "bash" || !summary) return shell === "zsh" ? value.replace(/:/g, "\\:") : value;
+    return shell === "zsh" ? `${value.replace(/:/g, "\\:")}:${summary}` : `${value}\t${summary}`;
+  }).join("\n");
+}
+
+export function completionScript(shell: CompletionShell, name: string): string {
+  const fn = `_${name.replace(/[^A-Za-z0-9_]/g, "_")}`;
+  
+  if (shell === "bash") {
+    return `# bash completion for ${name}
+# Add to ~/.bashrc: source <(${name} completion bash)
+${fn}() {
+  local IFS=$'\\n'
+  COMPREPLY=($(${name} __complete --shell bash -- "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null))
+}
+complete -o default -F ${fn} ${name}
+`;
+  }
+  
+  if (shell === "zsh") {
+    return `#compdef ${name}
+# zsh completion for ${name}
+# Add to ~/.zshrc: source <(${name} completion zsh)
+# or save it as ${fn} in a directory on $fpath
+${fn}() {
+  local -a candidates
+  candidates=("\${(@f)$(${name} __complete --shell zsh -- "\${(@)words[2,CURRENT]}" 2>/dev/null)}")
+  if [[ -n "\${candidates[1]}" ]]; then
+    _describe -t values '${name}' candidates
+  else
+    _files
+  fi
+}
+if [[ "\${funcstack[1]}" == "${fn}" ]]; then
+  ${fn} "$@"
+else
+  compdef ${fn} ${name}
+fi
+`;
+  }
+  
+  return `# fish completion for ${name}
+# Save as ~/.config/fish/completions/${name}.fish: ${name} completion fish > ~/.config/fish/completions/${name}.fish
+function __${fn}_complete
+    set -l words (commandline -opc)
+    set -e words[1]
+    set -l candidates (${name} __complete --shell fish -- $words (commandline -ct) 2>/dev/null)
+    if test (count $candidates) -gt 0
+        printf '%s\\n' $candidates
+    else
+        __fish_complete_path (commandline -ct)
+    end
+end
+complete -c ${name} -f -a '(__${fn}_complete)'
+`;
+}
@@ -0,0 +1,366 @@
+import fs from "fs-extra";
+import path from "path";
+
+export interface ConfigIssue {
+  // Location of the bad value, e.g. tunnels["abc"].services[0].hostname
+  path: string;
+  message: string;
+}
+
+export interface ConfigBackup {
+  name: string;
+  file: string;
+  createdAt: string;
+  size: number;
+}
+
+export class ConfigValidationError extends Error {
+  constructor(public file: string, public issues: ConfigIssue[]) {
+    super(`${file} is invalid:\n${issues.map(i => `  ${i.path}: ${i.message}`).join("\n")}`);
+    this.name = "ConfigValidationError";
+  }
+}
+
+export class ConfigLockError extends Error {
+  constructor(public lockFile: string, public ownerPid?: number) {
+    super(`Timed out waiting for the config lock ${lockFile}${ownerPid ? ` (held by PID ${ownerPid})` : ""}`);
+    this.name = "ConfigLockError";
+  }
+}
+
+export const MAX_BACKUPS = 10;
+
+// A lock without a readable owner that is older than this was left behind by a
+// process that crashed while creating it
+const STALE_LOCK_MS = 30_000;
+const BACKUP_PREFIX = "cloudtunnel-config-";
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkType(issues: ConfigIssue[], at: string, value: unknown, type: "string" | "boolean" | "number", required = false): void {
+  if (value === undefined || value === null) {
+    if (required) issues.push({ path: at, message: "is required" });
+    return;
+  }
+  if (typeof value !== type) {
+    issues.push({ path: at, message: `must be a ${type}, got ${JSON.stringify(value)}` });
+  }
+}
+
+function validateAccess(issues: ConfigIssue[], at: string, access: unknown): void {
+  if (!isObject(access)) {
+    issues.push({ path: at, message: "must be an object" });
+    return;
+  }
+  
+  if (access.basicAuth !== undefined) {
+    if (!isObject(access.basicAuth)) {
+      issues.push({ path: `${at}.basicAuth`, message: "must be an object" });
+    } else {
+      checkType(issues, `${at}.basicAuth.username`, access.basicAuth.username, "string", true);
+      checkType(issues, `${at}.basicAuth.passwordHash`, access.basicAuth.passwordHash, "string", true);
+    }
+  }
+  checkType(issues, `${at}.tokenHash`, access.tokenHash, "string");
+  if (access.allowIps !== undefined && (!Array.isArray(access.allowIps) || access.allowIps.some(cidr => typeof cidr !== "string"))) {
+    issues.push({ path: `${at}.allowIps`, message: "must be an array of strings" });
+  }
+}
+
+function validateHooks(issues: ConfigIssue[], at: string, hooks: unknown): void {
+  if (!Array.isArray(hooks)) {
+    issues.push({ path: at, message: "must be an array" });
+    return;
+  }
+  hooks.forEach((hook, idx) => {
+    if (!isObject(hook)) {
+      issues.push({ path: `${at}[${idx}]`, message: "must be an object" });
+      return;
+    }
+    checkType(issues, `${at}[${idx}].id`, hook.id, "string", true);
+    for (const field of ["command", "url", "secret", "timeout"]) {
+      checkType(issues, `${at}[${idx}].${field}`, hook[field], "string");
+    }
+    checkType(issues, `${at}[${idx}].retries`, hook.retries, "number");
+    if (!Array.isArray(hook.events) || hook.events.some(event => typeof event !== "string")) {
+      issues.push({ path: `${at}[${idx}].events`, message: hook.events === undefined ? "is required" : "must be an array of strings" });
+    }
+  });
+}
+
+function validateService(issues: ConfigIssue[], at: string, service: unknown): void {
+  if (!isObject(service)) {
+    issues.push({ path: at, message: "must be an object" });
+    return;
+  }
+  
+  checkType(issues, `${at}.hostname`, service.hostname, "string", true);
+  checkType(issues, `${at}.service`, service.service, "string", true);
+  for (const field of ["path", "protocol", "host", "port", "createdAt", "updatedAt"]) {
+    checkType(issues, `${at}.${field}`, service[field], "string");
+  }
+  
+  if (service.originRequest !== undefined && !isObject(service.originRequest)) {
+    issues.push({ path: `${at}.originRequest`, message: "must be an object" });
+  }
+  if (service.healthCheck !== undefined && !isObject(service.healthCheck)) {
+    issues.push({ path: `${at}.healthCheck`, message: "must be an object" });
+  }
+  
+  if (service.access !== undefined) {
+    validateAccess(issues, `${at}.access`, service.access);
+  }
+  
+  if (service.previews !== undefined) {
+    if (!Array.isArray(service.previews)) {
+      issues.push({ path: `${at}.previews`, message: "must be an array" });
+      return;
+    }
+    service.previews.forEach((preview, idx) => {
+      if (!isObject(preview)) {
+        issues.push({ path: `${at}.previews[${idx}]`, message: "must be an object" });
+        return;
+      }
+      checkType(issues, `${at}.previews[${idx}].hostname`, preview.hostname, "string", true);
+      checkType(issues, `${at}.previews[${idx}].branch`, preview.branch, "string");
+      checkType(issues, `${at}.previews[${idx}].repo`, preview.repo, "string");
+    });
+  }
+}
+
+// Checks the structure of a parsed config file. Returns every problem found
+// rather than stopping at the first one.
+export function validateConfig(data: unknown): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  
+  if (!isObject(data)) {
+    return [{ path: "(root)", message: "must be a JSON object" }];
+  }
+  
+  checkType(issues, "version", data.version, "string", true);
+  checkType(issues, "activeTunnel", data.activeTunnel, "string");
+  
+  if (data.cloudflare !== undefined) {
+    if (!isObject(data.cloudflare)) {
+      issues.push({ path: "cloudflare", message: "must be an object" });
+    } else {
+      checkType(issues, "cloudflare.apiToken", data.cloudflare.apiToken, "string");
+      checkType(issues, "cloudflare.apiBaseUrl", data.cloudflare.apiBaseUrl, "string");
+    }
+  }
+  if (data.hooks !== undefined) {
+    validateHooks(issues, "hooks", data.hooks);
+  }
+  
+  if (!isObject(data.tunnels)) {
+    issues.push({ path: "tunnels", message: data.tunnels === undefined ? "is required" : "must be an object keyed by tunnel ID" });
+    return issues;
+  }
+  
+  for (const [tunnelId, tunnel] of Object.entries(data.tunnels)) {
+    const at = `tunnels[${JSON.stringify(tunnelId)}]`;
+    if (!isObject(tunnel)) {
+      issues.push({ path: at, message: "must be an object" });
+      continue;
+    }
+    
+    checkType(issues, `${at}.tunnelName`, tunnel.tunnelName, "string", true);
+    checkType(issues, `${at}.tunnelId`, tunnel.tunnelId, "string", true);
+    checkType(issues, `${at}.createdAt`, tunnel.createdAt, "string");
+    checkType(issues, `${at}.lastUsed`, tunnel.lastUsed, "string");
+    if (typeof tunnel.tunnelId === "string" && tunnel.tunnelId !== tunnelId) {
+      issues.push({ path: `${at}.tunnelId`, message: `does not match its key (${tunnel.tunnelId})` });
+    }
+    if (tunnel.hooks !== undefined) {
+      validateHooks(issues, `${at}.hooks`, tunnel.hooks);
+    }
+    
+    if (!Array.isArray(tunnel.services)) {
+      issues.push({ path: `${at}.services`, message: tunnel.services === undefined ? "is required" : "must be an array" });
+      continue;
+    }
+    tunnel.services.forEach((service, idx) => validateService(issues, `${at}.services[${idx}]`, service));
+  }
+  
+  return issues;
+}
+
+// Writes to a temporary file and renames it over the target, so readers
+// never see a half-written file and a crash leaves the old one intact
+export function writeFileAtomic(file: string, content: string): void {
+  fs.ensureDirSync(path.dirname(file));
+  const tmpFile = `${file}.${process.pid}.tmp`;
+  
+  const fd = fs.openSync(tmpFile, "w", 0o600);
+  try {
+    fs.writeSync(fd, content);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tmpFile, file);
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function readLockOwner(lockFile: string): number | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(lockFile, "utf8")).pid;
+  } catch (err) {
+    return undefined;
+  }
+}
+
+// A lock is stale once its owner is gone. A live owner keeps it however long
+// it takes, e.g. for a large import.
+function isStaleLock(lockFile: string, pid: number | undefined): boolean {
+  if (pid) {
+    try {
+      process.kill(pid, 0);
+      return false;
+    } catch (err: any) {
+      // EPERM: alive, but run by another user
+      return err.code === "ESRCH";
+    }
+  }
+  
+  try {
+    return Date.now() - fs.statSync(lockFile).mtimeMs > STALE_LOCK_MS;
+  } catch (err) {
+    // Released while we were looking
+    return false;
+  }
+}
+
+function createLockFile(lockFile: string): boolean {
+  try {
+    const fd = fs.openSync(lockFile, "wx");
+    fs.writeSync(fd, JSON.stringify({ pid: process.pid, createdAt: new Date().toISOString() }));
+    fs.closeSync(fd);
+    return true;
+  } catch (err: any) {
+    if (err.code === "EEXIST") return false;
+    throw err;
+  }
+}
+
+// Removes a stale lock. Only one waiter at a time does so, the one holding
+// `<lockFile>.takeover`, and it checks again under that guard that the lock
+// is still the stale one. No new lock can be taken while the stale one
+// exists, so a lock removed this way is never one that is in use.
+function takeOverLock(lockFile: string, stalePid: number | undefined): void {
+  const guard = `${lockFile}.takeover`;
+  if (!createLockFile(guard)) {
+    // Another waiter is taking over. A guard left by a waiter that died
+    // meanwhile is cleared, so that the next attempt can take it.
+    if (isStaleLock(guard, readLockOwner(guard))) {
+      fs.removeSync(guard);
+    }
+    return;
+  }
+  
+  try {
+    const owner = readLockOwner(lockFile);
+    if (owner === stalePid && isStaleLock(lockFile, owner)) {
+      fs.removeSync(lockFile);
+    }
+  } finally {
+    fs.removeSync(guard);
+  }
+}
+
+// Takes an advisory lock by creating `lockFile` exclusively. Other cloudtunnel
+// processes wait for it; locks of dead processes are taken over. Returns a
+// function that releases the lock.
+export function acquireLock(lockFile: string, timeoutMs = 10_000): () => void {
+  fs.ensureDirSync(path.dirname(lockFile));
+  const deadline = Date.now() + timeoutMs;
+  
+  for (;;) {
+    if (createLockFile(lockFile)) break;
+    
+    const owner = readLockOwner(lockFile);
+    if (isStaleLock(lockFile, owner)) {
+      takeOverLock(lockFile, owner);
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new ConfigLockError(lockFile, readLockOwner(lockFile));
+    }
+    sleepSync(50);
+  }
+  
+  return () => {
+    if (readLockOwner(lockFile) === process.pid) {
+      fs.removeSync(lockFile);
+    }
+  };
+}
+
+// Backup names are the timestamp, plus a counter for backups taken within the
+// same millisecond (see createBackup)
+function backupOrder(name: string): [string, number] {
+  const match = name.slice(BACKUP_PREFIX.length, -".json".length).match(/^(.*?)(?:-(\d+))?$/);
+  return match ? [match[1], Number(match[2] || 0)] : [name, 0];
+}
+
+export function listBackups(backupDir: string): ConfigBackup[] {
+  if (!fs.existsSync(backupDir)) return [];
+  
+  return fs.readdirSync(backupDir)
+    .filter(name => name.startsWith(BACKUP_PREFIX) && name.endsWith(".json"))
+    .map(name => {
+      const file = path.join(backupDir, name);
+      const stat = fs.statSync(file);
+      return { name, file, createdAt: stat.mtime.toISOString(), size: stat.size };
+    })
+    // Newest first
+    .sort((a, b) => {
+      const [stampA, countA] = backupOrder(a.name);
+      const [stampB, countB] = backupOrder(b.name);
+      return stampB.localeCompare(stampA) || countB - countA;
+    });
+}
+
+// Copies the current config into the backup directory and deletes the oldest
+// backups beyond `keep`. Does nothing if the file does not exist or is
+// identical to the newest backup.
+export function createBackup(file: string, backupDir: string, keep = MAX_BACKUPS): ConfigBackup | null {
+  if (!fs.existsSync(file)) return null;
+  
+  const content = fs.readFileSync(file);
+  const backups = listBackups(backupDir);
+  if (backups.length > 0 && content.equals(fs.readFileSync(backups[0].file))) {
+    return backups[0];
+  }
+  
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  let name = `${BACKUP_PREFIX}${stamp}.json`;
+  for (let n = 1; fs.existsSync(path.join(backupDir, name)); n++) {
+    name = `${BACKUP_PREFIX}${stamp}-${n}.json`;
+  }
+  
+  fs.ensureDirSync(backupDir);
+  writeFileAtomic(path.join(backupDir, name), content.toString("utf8"));
+  
+  for (const old of listBackups(backupDir).slice(keep)) {
+    fs.removeSync(old.file);
+  }
+  
+  return listBackups(backupDir).find(b => b.name === name) || null;
+}
+
+// Accepts a backup file name, a path, or a 1-based index into listBackups
+// (1 is the most recent)
+export function findBackup(backupDir: string, ref: string): ConfigBackup | null {
+  const backups = listBackups(backupDir);
+  
+  if (/^\d+$/.test(ref)) {
+    return backups[parseInt(ref, 10) - 1] || null;
+  }
+  return backups.find(b => b.name === ref || b.name === `${ref}.json` || b.file === path.resolve(ref)) || null;
+}
@@ -0,0 +1,106 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+
+// Named contexts: each has its own directory with an origin cert, tunnel
+// credentials, config, state and logs, so one machine can use several
+// Cloudflare accounts. The default context is the cloudtunnel home itself,
+// which keeps existing ~/.cloudflared setups working unchanged.
+
+export const DEFAULT_CONTEXT = "default";
+
+const CONTEXTS_DIR = "cloudtunnel-contexts";
+const CURRENT_CONTEXT_FILE = "cloudtunnel-context.json";
+
+// Files and directories of one context
+export interface ContextPaths {
+  dir: string;
+  configFile: string;
+  lockFile: string;
+  backupDir: string;
+  certFile: string;
+  logFile: string;
+  stateDir: string;
+  tunnelLogDir: string;
+  inspectDir: string;
+}
+
+export class ContextError extends Error {
+  constructor(message: string, public context: string) {
+    super(message);
+    this.name = "ContextError";
+  }
+}
+
+// CLOUDTUNNEL_HOME moves everything, including the default context, out of ~/.cloudflared
+export function getCloudtunnelHome(env: NodeJS.ProcessEnv = process.env): string {
+  return env.CLOUDTUNNEL_HOME ? path.resolve(env.CLOUDTUNNEL_HOME) : path.join(os.homedir(), ".cloudflared");
+}
+
+export function validateContextName(name: string): string | true {
+  if (!/^[a-z0-9][a-z0-9_-]{0,62}$/i.test(name)) {
+    return "Context names may only contain letters, digits, dashes and underscores.";
+  }
+  return true;
+}
+
+export function getContextDir(home: string, name: string): string {
+  return name === DEFAULT_CONTEXT ? home : path.join(home, CONTEXTS_DIR, name);
+}
+
+export function getContextPaths(home: string, name: string): ContextPaths {
+  const dir = getContextDir(home, name);
+  const configFile = path.join(dir, "cloudtunnel-config.json");
+  return {
+    dir,
+    configFile,
+    lockFile: `${configFile}.lock`,
+    backupDir: path.join(dir, "cloudtunnel-backups"),
+    certFile: path.join(dir, "cert.pem"),
+    logFile: path.join(dir, "cloudtunnel.log"),
+    stateDir: path.join(dir, "cloudtunnel-state"),
+    tunnelLogDir: path.join(dir, "cloudtunnel-logs"),
+    inspectDir: path.join(dir, "cloudtunnel-inspect"),
+  };
+}
+
+export function contextExists(home: string, name: string): boolean {
+  return name === DEFAULT_CONTEXT || fs.existsSync(getContextDir(home, name));
+}
+
+export function listContexts(home: string): string[] {
+  const dir = path.join(home, CONTEXTS_DIR);
+  const named = fs.existsSync(dir)
+    ? fs.readdirSync(dir).filter(name => validateContextName(name) === true && fs.statSync(path.join(dir, name)).isDirectory())
+    : [];
+  return [DEFAULT_CONTEXT, ...named.filter(name => name !== DEFAULT_CONTEXT).sort()];
+}
+
+export function createContext(home: string, name: string): string {
+  const nameError = validateContextName(name);
+  if (nameError !== true) throw new ContextError(nameError, name);
+  if (contextExists(home, name)) throw new ContextError(`Context ${name} already exists`, name);
+  
+  const dir = getContextDir(home, name);
+  fs.ensureDirSync(dir, 0o700);
+  return dir;
+}
+
+export function readCurrentContext(home: string): string {
+  try {
+    const current = JSON.parse(fs.readFileSync(path.join(home, CURRENT_CONTEXT_FILE), "utf8")).current;
+    return typeof current === "string" && current ? current : DEFAULT_CONTEXT;
+  } catch (err) {
+    return DEFAULT_CONTEXT;
+  }
+}
+
+export function writeCurrentContext(home: string, name: string): void {
+  fs.ensureDirSync(home);
+  fs.writeFileSync(path.join(home, CURRENT_CONTEXT_FILE), JSON.stringify({ current: name }, null, 2));
+}
+
+// --context wins over CLOUDTUNNEL_CONTEXT, which wins over `context use`
+export function resolveContextName(home: string, flag?: string, env: NodeJS.ProcessEnv = process.env): string {
+  return flag || env.CLOUDTUNNEL_CONTEXT || readCurrentContext(home);
+}
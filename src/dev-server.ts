@@ -0,0 +1,40 @@
+import os from "os";
+
+// Hosts a dev server may report itself on that mean "this machine"
+const LOCAL_HOST = String.raw`(?:localhost|127\.\d+\.\d+\.\d+|0\.0\.0\.0|\[::1?\]|::1?)`;
+
+// Most specific first: a local URL or host:port is trusted over a bare "port 3000"
+const PORT_PATTERNS = [
+  new RegExp(String.raw`https?://${LOCAL_HOST}:(\d{1,5})`, "i"),
+  new RegExp(String.raw`(?:^|[\s(])${LOCAL_HOST}:(\d{1,5})\b`, "i"),
+  /\bport[\s:=]+(\d{1,5})\b/i,
+];
+
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "");
+}
+
+// Finds the port a dev server says it listens on, e.g. "Local: http://localhost:5173/"
+// (Vite), "ready - started server on 0.0.0.0:3000" (Next.js) or "Listening on port 8080"
+export function detectListeningPort(output: string): string | null {
+  const text = stripAnsi(output);
+  
+  for (const pattern of PORT_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    
+    const port = parseInt(match[1], 10);
+    if (port > 0 && port <= 65535) return String(port);
+  }
+  return null;
+}
+
+// Exit code a shell would report for a child, 128 + the signal number when it
+// was killed by a signal
+export function childExitCode(code: number | null, signal: NodeJS.Signals | null): number {
+  if (code !== null) return code;
+  if (signal) return 128 + (os.constants.signals[signal] || 0);
+  return 1;
+}
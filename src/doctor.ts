@@ -0,0 +1,305 @@
+import crypto from "crypto";
+import fs from "fs-extra";
+import path from "path";
+
+// Diagnostics for `cloudtunnel doctor`. Checks get everything they look at
+// through a DoctorContext, so they never reach into the CLI.
+
+export type CheckStatus = "pass" | "warn" | "fail";
+
+export interface CheckResult {
+  // Stable identifier, e.g. "credentials" or "credentials:my-app"
+  id: string;
+  status: CheckStatus;
+  message: string;
+  // What the user can do about a warning or failure
+  suggestion?: string;
+  // A safe repair that `doctor --fix` may run
+  repair?: () => void | Promise<void>;
+  fixed?: boolean;
+}
+
+export interface DoctorService {
+  hostname: string;
+  path?: string;
+  service: string;
+  protocol?: string;
+  host?: string;
+  port?: string;
+}
+
+export interface DoctorTunnel {
+  tunnelName: string;
+  tunnelId: string;
+  services: DoctorService[];
+}
+
+export interface DoctorContext {
+  configDir: string;
+  certFile: string;
+  // Output of `cloudflared --version`, or null when it is not installed
+  cloudflaredVersion: string | null;
+  // Null when the config could not be loaded; `configError` says why
+  tunnels: DoctorTunnel[] | null;
+  configError?: string;
+  // Remote tunnel IDs; throws when they cannot be listed
+  listRemoteTunnelIds(): string[];
+  // Hostnames with DNS routes for a service (templates have several)
+  routedHostnames(service: DoctorService): string[];
+  checkService(service: DoctorService): Promise<{ healthy: boolean; error?: string } | null>;
+  // Contents `tunnel-<id>.yml` would have if it were generated now
+  renderTunnelConfig(tunnel: DoctorTunnel): string;
+  writeTunnelConfig(tunnel: DoctorTunnel): void;
+  restoreCredentials(tunnel: DoctorTunnel): void;
+}
+
+// Cloudflare supports cloudflared releases from the last year
+export const CLOUDFLARED_SUPPORT_MONTHS = 12;
+// Warn this long before cert.pem expires
+export const CERT_EXPIRY_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function checkCloudflared(context: DoctorContext, now: Date): CheckResult[] {
+  if (!context.cloudflaredVersion) {
+    return [{
+      id: "cloudflared",
+      status: "fail",
+      message: "cloudflared is not installed or not in the PATH",
+      suggestion: "Install it: https://developers.cloudflare.com/cloudflare-one/connections/connect-apps/install-and-setup/installation",
+    }];
+  }
+  
+  // Versions are release dates: 2024.1.0 was released in January 2024
+  const match = context.cloudflaredVersion.match(/(\d{4})\.(\d{1,2})\.\d+/);
+  if (!match) {
+    return [{ id: "cloudflared", status: "warn", message: `Unrecognized version: ${context.cloudflaredVersion}` }];
+  }
+  
+  const version = match[0];
+  const ageMonths = (now.getFullYear() - parseInt(match[1], 10)) * 12 + (now.getMonth() + 1 - parseInt(match[2], 10));
+  if (ageMonths > CLOUDFLARED_SUPPORT_MONTHS) {
+    return [{
+      id: "cloudflared",
+      status: "warn",
+      message: `cloudflared ${version} is ${ageMonths} months old; Cloudflare only supports releases from the last year`,
+      suggestion: "Update cloudflared (e.g. 'brew upgrade cloudflared' or your package manager).",
+    }];
+  }
+  return [{ id: "cloudflared", status: "pass", message: `cloudflared ${version}` }];
+}
+
+function checkCert(context: DoctorContext, now: Date): CheckResult[] {
+  if (!fs.existsSync(context.certFile)) {
+    return [{ id: "cert", status: "fail", message: `${context.certFile} not found`, suggestion: "Run 'cloudtunnel login'." }];
+  }
+  
+  // Older logins store a certificate next to the token; newer ones only the token
+  const pem = fs.readFileSync(context.certFile, "utf8");
+  const block = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/);
+  if (!block) {
+    return [{ id: "cert", status: "pass", message: `${context.certFile} present` }];
+  }
+  
+  let validTo: Date;
+  try {
+    validTo = new Date(new crypto.X509Certificate(block[0]).validTo);
+  } catch (err: any) {
+    return [{ id: "cert", status: "fail", message: `${context.certFile} is unreadable: ${err.message}`, suggestion: "Run 'cloudtunnel login'." }];
+  }
+  
+  const daysLeft = Math.floor((validTo.getTime() - now.getTime()) / DAY_MS);
+  if (daysLeft < 0) {
+    return [{ id: "cert", status: "fail", message: `${context.certFile} expired on ${validTo.toISOString().slice(0, 10)}`, suggestion: "Run 'cloudtunnel login'." }];
+  }
+  if (daysLeft < CERT_EXPIRY_WARNING_DAYS) {
+    return [{ id: "cert", status: "warn", message: `${context.certFile} expires in ${daysLeft} day(s)`, suggestion: "Run 'cloudtunnel login' to renew it." }];
+  }
+  return [{ id: "cert", status: "pass", message: `${context.certFile} valid until ${validTo.toISOString().slice(0, 10)}` }];
+}
+
+function checkCredentials(context: DoctorContext, tunnels: DoctorTunnel[]): CheckResult[] {
+  return tunnels.map(tunnel => {
+    const file = path.join(context.configDir, `${tunnel.tunnelId}.json`);
+    if (fs.existsSync(file)) {
+      return { id: `credentials:${tunnel.tunnelName}`, status: "pass", message: `${tunnel.tunnelName} has credentials` };
+    }
+    return {
+      id: `credentials:${tunnel.tunnelName}`,
+      status: "fail",
+      message: `${tunnel.tunnelName} has no credentials file (${file})`,
+      suggestion: `Copy it from the machine that created the tunnel, or run 'cloudflared tunnel token --cred-file ${file} ${tunnel.tunnelId}'.`,
+      repair: () => context.restoreCredentials(tunnel),
+    };
+  });
+}
+
+function checkRemoteTunnels(context: DoctorContext, tunnels: DoctorTunnel[]): CheckResult[] {
+  let remoteIds: Set<string>;
+  try {
+    remoteIds = new Set(context.listRemoteTunnelIds());
+  } catch (err: any) {
+    return [{ id: "remote", status: "warn", message: `Could not list tunnels in Cloudflare: ${err.message}`, suggestion: "Check your network and 'cloudtunnel login'." }];
+  }
+  
+  return tunnels.map(tunnel => remoteIds.has(tunnel.tunnelId)
+    ? { id: `remote:${tunnel.tunnelName}`, status: "pass", message: `${tunnel.tunnelName} exists in Cloudflare` }
+    : {
+      id: `remote:${tunnel.tunnelName}`,
+      status: "fail",
+      message: `${tunnel.tunnelName} (${tunnel.tunnelId}) no longer exists in Cloudflare`,
+      suggestion: "Run 'cloudtunnel clean' to remove it from the config.",
+    });
+}
+
+function checkDuplicateHostnames(context: DoctorContext, tunnels: DoctorTunnel[]): CheckResult[] {
+  const owners = new Map<string, Set<string>>();
+  for (const tunnel of tunnels) {
+    for (const service of tunnel.services) {
+      for (const hostname of context.routedHostnames(service)) {
+        owners.set(hostname, (owners.get(hostname) || new Set()).add(tunnel.tunnelName));
+      }
+    }
+  }
+  
+  const duplicates = [...owners].filter(([, names]) => names.size > 1);
+  if (duplicates.length === 0) {
+    return [{ id: "hostnames", status: "pass", message: "Every hostname belongs to one tunnel" }];
+  }
+  return duplicates.map(([hostname, names]) => ({
+    id: `hostnames:${hostname}`,
+    status: "fail",
+    message: `${hostname} is configured in ${[...names].join(", ")}, but its DNS record can only point at one of them`,
+    suggestion: `Remove it from all but one tunnel with 'cloudtunnel remove --hostname ${hostname} --tunnel <tunnel>'.`,
+  }));
+}
+
+function checkPorts(tunnels: DoctorTunnel[]): CheckResult[] {
+  const users = new Map<string, string[]>();
+  for (const tunnel of tunnels) {
+    for (const service of tunnel.services) {
+      if (!service.port) continue;
+      const origin = `${service.host || "localhost"}:${service.port}`;
+      const label = `${service.hostname}${service.path ? ` ${service.path}` : ""} (${tunnel.tunnelName})`;
+      users.set(origin, [...(users.get(origin) || []), label]);
+    }
+  }
+  
+  const shared = [...users].filter(([, labels]) => labels.length > 1);
+  if (shared.length === 0) {
+    return [{ id: "ports", status: "pass", message: "No origin port is used by two services" }];
+  }
+  return shared.map(([origin, labels]) => ({
+    id: `ports:${origin}`,
+    status: "warn",
+    message: `${origin} is the origin of ${labels.join(", ")}`,
+    suggestion: "This is fine for aliases; otherwise one of the services points at the wrong port.",
+  }));
+}
+
+async function checkServices(context: DoctorContext, tunnels: DoctorTunnel[]): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+  for (const tunnel of tunnels) {
+    for (const service of tunnel.services) {
+      const health = await context.checkService(service);
+      if (!health) continue;
+      
+      const id = `service:${service.hostname}${service.path ? ` ${service.path}` : ""}`;
+      results.push(health.healthy
+        ? { id, status: "pass", message: `${service.service} is reachable` }
+        : {
+          id,
+          status: "warn",
+          message: `${service.service} is unreachable (${health.error})`,
+          suggestion: `Start the service, or check the port with 'cloudtunnel list --tunnel ${tunnel.tunnelName}'.`,
+        });
+    }
+  }
+  return results;
+}
+
+function checkTunnelConfigs(context: DoctorContext, tunnels: DoctorTunnel[]): CheckResult[] {
+  const results: CheckResult[] = [];
+  const byId = new Map(tunnels.map(t => [t.tunnelId, t]));
+  const files = fs.existsSync(context.configDir)
+    ? fs.readdirSync(context.configDir).filter(name => /^tunnel-.+\.yml$/.test(name))
+    : [];
+  
+  for (const name of files) {
+    const file = path.join(context.configDir, name);
+    const tunnel = byId.get(name.slice("tunnel-".length, -".yml".length));
+    
+    if (!tunnel) {
+      results.push({
+        id: `tunnel-config:${name}`,
+        status: "warn",
+        message: `${file} belongs to a tunnel that is not in the config`,
+        suggestion: `Delete ${file}.`,
+        repair: () => fs.removeSync(file),
+      });
+      continue;
+    }
+    
+    let expected: string;
+    try {
+      expected = context.renderTunnelConfig(tunnel);
+    } catch (err: any) {
+      results.push({ id: `tunnel-config:${name}`, status: "warn", message: `Could not render ${name}: ${err.message}` });
+      continue;
+    }
+    if (fs.readFileSync(file, "utf8") !== expected) {
+      results.push({
+        id: `tunnel-config:${name}`,
+        status: "warn",
+        message: `${file} is out of date with the services of ${tunnel.tunnelName}`,
+        suggestion: "It is rewritten on the next 'cloudtunnel run'; restart running tunnels to apply it.",
+        repair: () => context.writeTunnelConfig(tunnel),
+      });
+    }
+  }
+  
+  if (results.length === 0) {
+    results.push({ id: "tunnel-config", status: "pass", message: "Generated tunnel configs are up to date" });
+  }
+  return results;
+}
+
+export async function runDoctor(context: DoctorContext, now = new Date()): Promise<CheckResult[]> {
+  const results = [...checkCloudflared(context, now), ...checkCert(context, now)];
+  
+  if (!context.tunnels) {
+    results.push({
+      id: "config",
+      status: "fail",
+      message: context.configError || "The config could not be loaded",
+      suggestion: "Fix the file, or roll back with 'cloudtunnel config restore'.",
+    });
+    return results;
+  }
+  results.push({ id: "config", status: "pass", message: `${context.tunnels.length} tunnel(s) configured` });
+  
+  const tunnels = context.tunnels;
+  results.push(...checkCredentials(context, tunnels));
+  if (context.cloudflaredVersion && fs.existsSync(context.certFile)) {
+    results.push(...checkRemoteTunnels(context, tunnels));
+  }
+  results.push(...checkDuplicateHostnames(context, tunnels));
+  results.push(...checkPorts(tunnels));
+  results.push(...await checkServices(context, tunnels));
+  results.push(...checkTunnelConfigs(context, tunnels));
+  return results;
+}
+
+// Runs the repairs of failed and warned checks. A repair that throws leaves
+// its check as it was, with the error appended to the message.
+export async function applyRepairs(results: CheckResult[]): Promise<void> {
+  for (const result of results) {
+    if (result.status === "pass" || !result.repair) continue;
+    try {
+      await result.repair();
+      result.fixed = true;
+    } catch (err: any) {
+      result.message += ` (repair failed: ${err.message})`;
+    }
+  }
+}
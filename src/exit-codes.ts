@@ -0,0 +1,27 @@
+// Process exit codes. Scripts can rely on these: once released, a code keeps
+// its meaning and new failure kinds get new numbers.
+export const ExitCode = {
+  OK: 0,
+  // Unexpected failure
+  ERROR: 1,
+  // Invalid arguments or option values
+  USAGE: 2,
+  // The tunnel, service, context, file or backup does not exist
+  NOT_FOUND: 3,
+  // cloudflared is not installed or you are not logged in
+  PREREQUISITE: 4,
+  // The config file is invalid, locked or from a newer cloudtunnel
+  CONFIG: 5,
+  // cloudflared or the Cloudflare API reported an error
+  CLOUDFLARE: 6,
+  // Something already exists or is already running
+  CONFLICT: 7,
+  // One or more services failed their health check, or a doctor check failed
+  UNHEALTHY: 8,
+  // A prompt was needed but prompting is disabled
+  INPUT_REQUIRED: 9,
+  // A confirmation was declined
+  CANCELLED: 10,
+} as const;
+
+export type ExitCode = typeof ExitCode[keyof typeof ExitCode];
@@ -0,0 +1,146 @@
+import http from "http";
+import https from "https";
+import net from "net";
+
+export interface HealthCheck {
+  path?: string;
+  method?: string;
+  // A single code (200), a range (200-399) or a comma separated list of either
+  expectedStatus?: string;
+  bodyContains?: string;
+  timeout?: string;
+  interval?: string;
+  // Accept self-signed or otherwise invalid origin certificates
+  insecure?: boolean;
+}
+
+export interface HealthResult {
+  healthy: boolean;
+  checkedAt: string;
+  latencyMs: number;
+  statusCode?: number;
+  error?: string;
+}
+
+export const DEFAULT_HEALTH_TIMEOUT = "1s";
+export const DEFAULT_HEALTH_INTERVAL = "10s";
+export const DEFAULT_EXPECTED_STATUS = "200-399";
+
+// Only this much of the response body is searched for `bodyContains`
+const MAX_BODY_BYTES = 64 * 1024;
+
+export function parseDuration(value: string): number {
+  const match = value.match(/^(\d+(?:\.\d+)?)(ms|s|m|h)$/);
+  if (!match) {
+    throw new Error(`Invalid duration: ${value} (use e.g. 500ms, 5s or 1m)`);
+  }
+  const unit = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 }[match[2] as "ms" | "s" | "m" | "h"];
+  return parseFloat(match[1]) * unit;
+}
+
+export function parseStatusRanges(expected: string): Array<[number, number]> {
+  return expected.split(",").map(part => {
+    const [low, high = low] = part.trim().split("-").map(n => parseInt(n, 10));
+    if (isNaN(low) || isNaN(high) || low < 100 || high > 599 || low > high) {
+      throw new Error(`Invalid expected status: ${expected} (use e.g. 200, 200-299 or 200,204)`);
+    }
+    return [low, high] as [number, number];
+  });
+}
+
+export function validateHealthCheck(check: HealthCheck): string | true {
+  try {
+    if (check.timeout) parseDuration(check.timeout);
+    if (check.interval) parseDuration(check.interval);
+    if (check.expectedStatus) parseStatusRanges(check.expectedStatus);
+  } catch (err: any) {
+    return err.message;
+  }
+  if (check.path && !check.path.startsWith("/")) {
+    return "Health check path must start with '/'.";
+  }
+  if (check.method && !/^[A-Z]+$/.test(check.method)) {
+    return "Health check method must be an HTTP method such as GET or HEAD.";
+  }
+  return true;
+}
+
+export function checkTcp(host: string, port: number, timeoutMs: number): Promise<HealthResult> {
+  const started = Date.now();
+  
+  return new Promise((resolve) => {
+    const client = new net.Socket();
+    const done = (error?: string) => {
+      client.destroy();
+      resolve({
+        healthy: !error,
+        checkedAt: new Date(started).toISOString(),
+        latencyMs: Date.now() - started,
+        error,
+      });
+    };
+    
+    client.setTimeout(timeoutMs);
+    client.on("connect", () => done());
+    client.on("error", (err) => done(err.message));
+    client.on("timeout", () => done(`No connection after ${timeoutMs}ms`));
+    client.connect(port, host);
+  });
+}
+
+export function checkHttp(origin: string, check: HealthCheck): Promise<HealthResult> {
+  const started = Date.now();
+  const timeoutMs = parseDuration(check.timeout || DEFAULT_HEALTH_TIMEOUT);
+  const ranges = parseStatusRanges(check.expectedStatus || DEFAULT_EXPECTED_STATUS);
+  const url = new URL(check.path || "/", origin);
+  const client = url.protocol === "https:" ? https : http;
+  
+  return new Promise((resolve) => {
+    let settled = false;
+    const done = (result: { healthy: boolean; statusCode?: number; error?: string }) => {
+      if (settled) return;
+      settled = true;
+      resolve({ ...result, checkedAt: new Date(started).toISOString(), latencyMs: Date.now() - started });
+    };
+    
+    const req = client.request(url, {
+      method: check.method || "GET",
+      timeout: timeoutMs,
+      rejectUnauthorized: !check.insecure,
+    }, (res) => {
+      const statusCode = res.statusCode || 0;
+      const statusOk = ranges.some(([low, high]) => statusCode >= low && statusCode <= high);
+      
+      if (!statusOk) {
+        res.resume();
+        done({ healthy: false, statusCode, error: `Unexpected status ${statusCode}` });
+        return;
+      }
+      if (!check.bodyContains) {
+        res.resume();
+        done({ healthy: true, statusCode });
+        return;
+      }
+      
+      let body = "";
+      res.setEncoding("utf8");
+      res.on("data", (chunk) => {
+        body += chunk;
+        if (body.includes(check.bodyContains!)) {
+          done({ healthy: true, statusCode });
+          res.destroy();
+        } else if (body.length > MAX_BODY_BYTES) {
+          res.destroy();
+        }
+      });
+      res.on("close", () => done({ healthy: false, statusCode, error: `Response body does not contain "${check.bodyContains}"` }));
+    });
+    
+    req.on("timeout", () => {
+      req.destroy();
+      done({ healthy: false, error: `No response after ${timeoutMs}ms` });
+    });
+    req.on("error", (err) => done({ healthy: false, error: err.message }));
+    req.end();
+  });
+}
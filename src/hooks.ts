@@ -0,0 +1,225 @@
+import { spawn } from "child_process";
+import crypto from "crypto";
+import http from "http";
+import https from "https";
+import { parseDuration } from "./health.js";
+import { computeBackoff } from "./supervisor.js";
+
+// Lifecycle hooks: local commands and webhooks that are told when a tunnel
+// starts, stops or crashes and when its services are added, removed or turn
+// unhealthy
+
+export const HOOK_EVENTS = [
+  "tunnel.started",
+  "tunnel.stopped",
+  "tunnel.crashed",
+  "service.added",
+  "service.removed",
+  "service.unhealthy",
+] as const;
+
+export type HookEvent = typeof HOOK_EVENTS[number];
+
+export interface Hook {
+  id: string;
+  // Events that trigger the hook, or "*" for all of them
+  events: string[];
+  // Run by the shell with the event as JSON on stdin
+  command?: string;
+  // Sent the event as a JSON POST
+  url?: string;
+  // Signs webhook bodies with HMAC-SHA256
+  secret?: string;
+  // Further attempts after a failed webhook delivery
+  retries?: number;
+  timeout?: string;
+}
+
+export interface HookPayload {
+  id: string;
+  event: HookEvent;
+  timestamp: string;
+  context: string;
+  tunnel: { id: string; name: string };
+  service?: { hostname: string; path?: string; service: string };
+  // Depends on the event, e.g. the exit code of a crashed connector
+  details?: { [key: string]: unknown };
+}
+
+export interface HookDelivery {
+  hookId: string;
+  ok: boolean;
+  attempts: number;
+  // Status of the last webhook response
+  status?: number;
+  error?: string;
+}
+
+export const DEFAULT_HOOK_RETRIES = 3;
+export const DEFAULT_HOOK_TIMEOUT = "10s";
+
+export const SIGNATURE_HEADER = "X-Cloudtunnel-Signature";
+export const EVENT_HEADER = "X-Cloudtunnel-Event";
+export const DELIVERY_HEADER = "X-Cloudtunnel-Delivery";
+
+const RETRY_INITIAL_MS = 1000;
+const RETRY_MAX_MS = 30_000;
+// Only this much of a failed command's stderr is kept
+const MAX_ERROR_OUTPUT = 500;
+
+export function isHookEvent(event: string): event is HookEvent {
+  return (HOOK_EVENTS as readonly string[]).includes(event);
+}
+
+export function validateHook(hook: Hook): string | true {
+  if (!hook.command === !hook.url) {
+    return "A hook needs either a command or a URL.";
+  }
+  if (hook.events.length === 0) {
+    return "A hook needs at least one event.";
+  }
+  const unknown = hook.events.filter(event => event !== "*" && !isHookEvent(event));
+  if (unknown.length > 0) {
+    return `Unknown event: ${unknown.join(", ")}. Events are ${HOOK_EVENTS.join(", ")} or * for all of them.`;
+  }
+  if (hook.url) {
+    let url: URL;
+    try {
+      url = new URL(hook.url);
+    } catch (err) {
+      return `Invalid URL: ${hook.url}`;
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return "Webhook URLs must use http or https.";
+    }
+  }
+  if (hook.secret !== undefined && !hook.url) {
+    return "Only webhooks are signed; a command hook has no use for a secret.";
+  }
+  if (hook.retries !== undefined && (!Number.isInteger(hook.retries) || hook.retries < 0)) {
+    return "Retries must be a whole number of 0 or more.";
+  }
+  if (hook.timeout) {
+    try {
+      parseDuration(hook.timeout);
+    } catch (err: any) {
+      return err.message;
+    }
+  }
+  return true;
+}
+
+export function hookMatches(hook: Hook, event: HookEvent): boolean {
+  return hook.events.includes("*") || hook.events.includes(event);
+}
+
+export function newHookId(): string {
+  return crypto.randomBytes(4).toString("hex");
+}
+
+export function newDeliveryId(): string {
+  return crypto.randomUUID();
+}
+
+// "sha256=" and the hex HMAC of the exact body, so receivers can check that
+// the event came from someone who knows the secret
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+export function describeHook(hook: Hook): string {
+  return hook.command ? `command ${hook.command}` : `webhook ${hook.url}`;
+}
+
+function runCommand(command: string, body: string, event: string, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ["pipe", "ignore", "pipe"],
+      env: { ...process.env, CLOUDTUNNEL_EVENT: event },
+    });
+    let stderr = "";
+    const timer = setTimeout(() => child.kill("SIGTERM"), timeoutMs);
+    
+    child.stderr!.on("data", (chunk) => {
+      stderr = (stderr + chunk.toString()).slice(-MAX_ERROR_OUTPUT);
+    });
+    // The command may exit without reading its input
+    child.stdin!.on("error", () => {});
+    child.stdin!.end(body);
+    
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    child.on("exit", (code, signal) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve();
+        return;
+      }
+      const reason = signal === "SIGTERM" ? `timed out after ${timeoutMs}ms` : signal ? `killed by ${signal}` : `exited with code ${code}`;
+      reject(new Error(stderr.trim() ? `${reason}: ${stderr.trim()}` : reason));
+    });
+  });
+}
+
+function postWebhook(url: string, body: string, headers: http.OutgoingHttpHeaders, timeoutMs: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const client = target.protocol === "https:" ? https : http;
+    const req = client.request(target, {
+      method: "POST",
+      headers: { ...headers, "content-type": "application/json", "content-length": Buffer.byteLength(body) },
+      timeout: timeoutMs,
+    }, (res) => {
+      res.resume();
+      res.on("end", () => resolve(res.statusCode || 0));
+      res.on("error", reject);
+    });
+    req.on("timeout", () => req.destroy(new Error(`timed out after ${timeoutMs}ms`)));
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+// Runs a command hook once. A webhook is retried with backoff after network
+// errors, timeouts, 429 and 5xx responses; other responses are final.
+export async function deliverHook(hook: Hook, payload: HookPayload): Promise<HookDelivery> {
+  const body = JSON.stringify(payload);
+  const timeoutMs = parseDuration(hook.timeout || DEFAULT_HOOK_TIMEOUT);
+  
+  if (hook.command) {
+    try {
+      await runCommand(hook.command, body, payload.event, timeoutMs);
+      return { hookId: hook.id, ok: true, attempts: 1 };
+    } catch (err: any) {
+      return { hookId: hook.id, ok: false, attempts: 1, error: err.message };
+    }
+  }
+  
+  const headers: http.OutgoingHttpHeaders = {
+    "user-agent": "cloudtunnel-hooks",
+    [EVENT_HEADER]: payload.event,
+    [DELIVERY_HEADER]: payload.id,
+  };
+  if (hook.secret) headers[SIGNATURE_HEADER] = signPayload(body, hook.secret);
+  
+  const retries = hook.retries ?? DEFAULT_HOOK_RETRIES;
+  let delivery: HookDelivery = { hookId: hook.id, ok: false, attempts: 0 };
+  
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    if (attempt > 1) {
+      await new Promise(resolve => setTimeout(resolve, computeBackoff(attempt - 1, RETRY_INITIAL_MS, RETRY_MAX_MS)));
+    }
+    try {
+      const status = await postWebhook(hook.url!, body, headers, timeoutMs);
+      const ok = status >= 200 && status < 300;
+      delivery = { hookId: hook.id, ok, attempts: attempt, status, error: ok ? undefined : `HTTP ${status}` };
+      if (ok || (status < 500 && status !== 429)) return delivery;
+    } catch (err: any) {
+      delivery = { hookId: hook.id, ok: false, attempts: attempt, error: err.message };
+    }
+  }
+  return delivery;
+}
@@ -0,0 +1,112 @@
+import { execFileSync } from "child_process";
+import crypto from "crypto";
+import os from "os";
+
+// Hostname templates: {branch}, {user} and {env:NAME} are filled in when a
+// tunnel starts, e.g. {branch}.preview.example.com -> feature-login.preview.example.com
+
+export interface TemplateContext {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+}
+
+export class HostnameTemplateError extends Error {
+  constructor(message: string, public template: string) {
+    super(message);
+    this.name = "HostnameTemplateError";
+  }
+}
+
+const VARIABLE_PATTERN = /\{([^{}]*)\}/g;
+const ENV_VARIABLE = /^env:([A-Za-z_][A-Za-z0-9_]*)$/;
+
+// DNS labels are at most 63 characters
+const MAX_LABEL_LENGTH = 63;
+
+export function isHostnameTemplate(hostname: string): boolean {
+  return /[{}]/.test(hostname);
+}
+
+export function usesBranch(hostname: string): boolean {
+  return hostname.includes("{branch}");
+}
+
+// Lowercases and replaces everything but letters, digits and dashes, so that
+// e.g. "feature/Login_v2" becomes "feature-login-v2". Values too long for a
+// label are cut and get a hash suffix, so that long branch names stay distinct.
+export function toDnsLabel(value: string): string {
+  const slug = value
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+  if (slug.length <= MAX_LABEL_LENGTH) return slug;
+
+  const hash = crypto.createHash("sha1").update(value).digest("hex").slice(0, 8);
+  return `${slug.slice(0, MAX_LABEL_LENGTH - hash.length - 1).replace(/-+$/, "")}-${hash}`;
+}
+
+function runGit(args: string[], cwd: string): string {
+  return execFileSync("git", args, { cwd, encoding: "utf8", stdio: ["ignore", "pipe", "pipe"] }).trim();
+}
+
+export function getGitBranch(cwd: string): string {
+  let branch: string;
+  try {
+    branch = runGit(["rev-parse", "--abbrev-ref", "HEAD"], cwd);
+  } catch (err) {
+    throw new Error(`${cwd} is not inside a git repository`);
+  }
+  if (branch === "HEAD") {
+    throw new Error("HEAD is detached, so there is no branch name");
+  }
+  return branch;
+}
+
+export function getGitRoot(cwd: string): string {
+  return runGit(["rev-parse", "--show-toplevel"], cwd);
+}
+
+export function listGitBranches(repo: string): string[] {
+  const output = runGit(["for-each-ref", "--format=%(refname:short)", "refs/heads"], repo);
+  return output ? output.split("\n") : [];
+}
+
+function resolveVariable(name: string, template: string, context: TemplateContext): string {
+  if (name === "branch") {
+    try {
+      return getGitBranch(context.cwd);
+    } catch (err: any) {
+      throw new HostnameTemplateError(`Cannot fill in {branch} of ${template}: ${err.message}`, template);
+    }
+  }
+
+  if (name === "user") {
+    return os.userInfo().username;
+  }
+
+  const envMatch = name.match(ENV_VARIABLE);
+  if (envMatch) {
+    const value = context.env[envMatch[1]];
+    if (!value) {
+      throw new HostnameTemplateError(`Cannot fill in {${name}} of ${template}: ${envMatch[1]} is not set`, template);
+    }
+    return value;
+  }
+
+  throw new HostnameTemplateError(`Unknown variable {${name}} in ${template} (use {branch}, {user} or {env:NAME})`, template);
+}
+
+export function expandHostname(
+  template: string,
+  context: TemplateContext = { cwd: process.cwd(), env: process.env }
+): string {
+  return template.replace(VARIABLE_PATTERN, (_, name: string) => {
+    const label = toDnsLabel(resolveVariable(name.trim(), template, context));
+    if (!label) {
+      throw new HostnameTemplateError(`{${name}} of ${template} has no characters usable in a hostname`, template);
+    }
+    return label;
+  });
+}
@@ -1,4 +1,56 @@
-#!/usr/bin/env node
-
-// Main entry point for the CloudTunnel CLI
-import "./cli.js";
\ No newline at end of file
+// Library entry point: create tunnels, manage their services and start or stop
+// connectors from Node code. The CLI lives in bin.ts.
+export {
+  AttachOptions,
+  CONFIG_VERSION,
+  Config,
+  ConnectorOptions,
+  DeletePlan,
+  DeleteResult,
+  ImportChange,
+  ImportPlan,
+  ImportStrategy,
+  ManifestResult,
+  ReloadResult,
+  RemoteTunnel,
+  RunPlan,
+  ServiceInput,
+  StartOptions,
+  StartResult,
+  StopResult,
+  SuperviseOptions,
+  TunnelEntry,
+  TunnelError,
+  TunnelManager,
+  TunnelDnsRecord,
+  TunnelManagerOptions,
+  TunnelStatus,
+  buildService,
+  findTunnelByName,
+  getActiveTunnel,
+  readConfigFile,
+  readImportFile,
+  resolveHostname,
+  resolveTunnel,
+} from "./tunnel-manager.js";
+export {
+  IngressRule,
+  OriginRequest,
+  PreviewRoute,
+  SERVICE_TYPES,
+  Service,
+  ServiceTarget,
+  buildIngressRules,
+  buildServiceUrl,
+  serviceKey,
+  validateHostname,
+  validatePathRegex,
+  validatePort,
+} from "./services.js";
+export { MANIFEST_FILES, Manifest, ManifestService, findManifest, loadManifest } from "./manifest.js";
+export { ServiceAccess, generateToken, hashSecret } from "./access-gateway.js";
+export { HealthCheck } from "./health.js";
+export { LogFields, LoggerLevel } from "./logger.js";
+export { HOOK_EVENTS, Hook, HookEvent, HookPayload, signPayload } from "./hooks.js";
+export { CheckResult, CheckStatus } from "./doctor.js";
+export { ExitCode } from "./exit-codes.js";
@@ -0,0 +1,155 @@
+import http from "http";
+import { Capture, InspectorError, findCapture, formatBody, listCaptures, replayCapture } from "./inspector.js";
+
+// Local web UI for captured requests, served by `cloudtunnel inspect ui`
+
+const PAGE = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>cloudtunnel inspect</title>
+<style>
+  body { margin: 0; font: 13px -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; display: flex; height: 100vh; }
+  #list { width: 45%; overflow: auto; border-right: 1px solid #ddd; }
+  #detail { flex: 1; overflow: auto; padding: 0 16px; }
+  table { border-collapse: collapse; width: 100%; }
+  td { padding: 6px 8px; border-bottom: 1px solid #eee; white-space: nowrap; }
+  tr { cursor: pointer; }
+  tr:hover, tr.selected { background: #f0f4ff; }
+  .ok { color: #17803d; } .redirect { color: #a16207; } .error { color: #b91c1c; }
+  pre { background: #f7f7f7; padding: 8px; white-space: pre-wrap; word-break: break-all; }
+  button { margin: 12px 0; }
+</style>
+</head>
+<body>
+<div id="list"><table id="rows"></table></div>
+<div id="detail"><p>Select a request.</p></div>
+<script>
+let selected = null;
+const esc = (s) => String(s).replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" }[c]));
+const statusClass = (s) => !s || s >= 400 ? "error" : s >= 300 ? "redirect" : "ok";
+const headers = (h) => Object.entries(h).map(([k, v]) => k + ": " + v).join("\\n");
+async function refresh() {
+  const captures = await (await fetch("/api/captures")).json();
+  document.getElementById("rows").innerHTML = captures.map((c) =>
+    '<tr data-id="' + c.id + '"' + (c.id === selected ? ' class="selected"' : "") + ">" +
+    "<td>" + new Date(c.startedAt).toLocaleTimeString() + "</td>" +
+    "<td>" + esc(c.method) + "</td>" +
+    '<td class="' + statusClass(c.status) + '">' + (c.status || esc(c.error || "-")) + "</td>" +
+    "<td>" + esc(c.host + c.path) + "</td>" +
+    "<td>" + c.durationMs + " ms</td></tr>").join("");
+}
+async function show(id) {
+  selected = id;
+  const c = await (await fetch("/api/captures/" + id)).json();
+  document.getElementById("detail").innerHTML =
+    "<h3>" + esc(c.request.method + " " + c.request.path) + "</h3>" +
+    "<p>" + esc(c.origin) + " &middot; " + c.durationMs + " ms" + (c.replayOf ? " &middot; replay of " + esc(c.replayOf) : "") + "</p>" +
+    '<button id="replay">Replay</button>' +
+    "<h4>Request</h4><pre>" + esc(headers(c.request.headers)) + "</pre>" +
+    (c.requestBody ? "<pre>" + esc(c.requestBody) + "</pre>" : "") +
+    "<h4>Response</h4>" +
+    (c.response
+      ? "<pre>" + c.response.status + "\\n" + esc(headers(c.response.headers)) + "</pre>" + (c.responseBody ? "<pre>" + esc(c.responseBody) + "</pre>" : "")
+      : '<p class="error">' + esc(c.error || "No response") + "</p>");
+  document.getElementById("replay").onclick = async () => {
+    const res = await fetch("/api/captures/" + id + "/replay", { method: "POST", headers: { "content-type": "application/json" }, body: "{}" });
+    const replay = await res.json();
+    if (replay.error && !replay.id) return alert(replay.error);
+    await refresh();
+    show(replay.id);
+  };
+  refresh();
+}
+document.getElementById("rows").onclick = (e) => {
+  const row = e.target.closest("tr");
+  if (row) show(row.dataset.id);
+};
+refresh();
+setInterval(refresh, 2000);
+</script>
+</body>
+</html>
+`;
+
+function summarize(capture: Capture) {
+  return {
+    id: capture.id,
+    startedAt: capture.startedAt,
+    method: capture.request.method,
+    host: String(capture.request.headers.host || ""),
+    path: capture.request.path,
+    status: capture.response?.status,
+    error: capture.error,
+    durationMs: capture.durationMs,
+  };
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "content-type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+}
+
+export function createInspectorUi(storeDir: string, filter: (capture: Capture) => boolean = () => true): http.Server {
+  return http.createServer((req, res) => {
+    // Only answer requests addressed to this machine, so that other sites
+    // cannot reach the captures through DNS rebinding
+    const host = String(req.headers.host || "").replace(/:\d+$/, "");
+    if (!["127.0.0.1", "localhost", "[::1]"].includes(host)) {
+      sendJson(res, 403, { error: "Forbidden" });
+      return;
+    }
+    
+    const url = new URL(req.url || "/", "http://localhost");
+    const match = url.pathname.match(/^\/api\/captures\/([a-z0-9]+)(\/replay)?$/);
+    
+    if (req.method === "GET" && url.pathname === "/") {
+      res.writeHead(200, { "content-type": "text/html; charset=utf-8" });
+      res.end(PAGE);
+      return;
+    }
+    
+    if (req.method === "GET" && url.pathname === "/api/captures") {
+      sendJson(res, 200, listCaptures(storeDir).filter(filter).map(summarize));
+      return;
+    }
+    
+    if (!match) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+    
+    let capture: Capture | null;
+    try {
+      capture = findCapture(storeDir, match[1]);
+    } catch (err: any) {
+      sendJson(res, 400, { error: err.message });
+      return;
+    }
+    if (!capture) {
+      sendJson(res, 404, { error: `Capture not found: ${match[1]}` });
+      return;
+    }
+    
+    if (req.method === "GET" && !match[2]) {
+      sendJson(res, 200, {
+        ...capture,
+        requestBody: formatBody(capture.request.body, capture.request.headers),
+        responseBody: capture.response ? formatBody(capture.response.body, capture.response.headers) : undefined,
+      });
+      return;
+    }
+    
+    // A JSON content type cannot be sent cross-site without a CORS preflight,
+    // which is never answered, so other pages cannot trigger replays
+    if (req.method === "POST" && match[2] && String(req.headers["content-type"]).startsWith("application/json")) {
+      replayCapture(storeDir, capture).then(
+        (replay) => sendJson(res, 200, replay),
+        (err) => sendJson(res, err instanceof InspectorError ? 400 : 500, { error: err.message })
+      );
+      return;
+    }
+    
+    sendJson(res, 405, { error: "Method not allowed" });
+  });
+}
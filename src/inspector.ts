@@ -0,0 +1,340 @@
+import crypto from "crypto";
+import fs from "fs-extra";
+import http from "http";
+import net from "net";
+import path from "path";
+import zlib from "zlib";
+import { forwardHeaders, originRequest, proxyRequest, proxyUpgrade, targetPath } from "./proxy.js";
+
+// Inspecting proxy: `run --inspect` puts it between cloudflared and each HTTP
+// origin and records every request and response, one JSON file per exchange,
+// so that `cloudtunnel inspect` can show and replay them
+
+export const DEFAULT_BODY_LIMIT = 64 * 1024;
+
+// Older captures are deleted once a store holds more than this
+export const MAX_CAPTURES = 500;
+
+export interface CapturedBody {
+  encoding: "utf8" | "base64";
+  data: string;
+  // Size of the whole body in bytes; data holds at most the body limit
+  size: number;
+  truncated: boolean;
+}
+
+export interface CapturedRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: CapturedBody;
+}
+
+export interface CapturedResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: CapturedBody;
+}
+
+export interface Capture {
+  id: string;
+  tunnelId: string;
+  origin: string;
+  startedAt: string;
+  durationMs: number;
+  request: CapturedRequest;
+  // Missing when the origin could not be reached
+  response?: CapturedResponse;
+  error?: string;
+  // Protocol the connection switched to, e.g. websocket; its traffic is not recorded
+  upgrade?: string;
+  // ID of the capture this one replayed
+  replayOf?: string;
+}
+
+// One proxy as passed from `run` to the detached supervisor
+export interface InspectorSpec {
+  port: number;
+  origin: string;
+  // Skip TLS verification of an https origin, like originRequest.noTLSVerify
+  insecure?: boolean;
+}
+
+export interface InspectorOptions extends InspectorSpec {
+  tunnelId: string;
+  storeDir: string;
+  bodyLimit?: number;
+  onCapture?: (capture: Capture) => void;
+}
+
+export interface ReplayOptions {
+  // Defaults to the origin the request was captured for
+  origin?: string;
+  method?: string;
+  path?: string;
+  headers?: { [name: string]: string };
+  removeHeaders?: string[];
+  body?: Buffer;
+  insecure?: boolean;
+  bodyLimit?: number;
+}
+
+export class InspectorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InspectorError";
+  }
+}
+
+// Time-ordered, so that sorting file names sorts captures
+function newCaptureId(): string {
+  return `${Date.now().toString(36)}${crypto.randomBytes(2).toString("hex")}`;
+}
+
+function encodeBody(data: Buffer, size: number): CapturedBody {
+  const truncated = size > data.length;
+  const text = data.toString("utf8");
+  // Bodies that survive a round trip through UTF-8 are stored readable
+  const isText = Buffer.from(text, "utf8").equals(data);
+  return { encoding: isText ? "utf8" : "base64", data: isText ? text : data.toString("base64"), size, truncated };
+}
+
+// Keeps the first `limit` bytes of a streamed body while counting all of it
+function createBodyRecorder(limit: number) {
+  const chunks: Buffer[] = [];
+  let kept = 0;
+  let size = 0;
+  return {
+    write(chunk: Buffer) {
+      size += chunk.length;
+      if (kept < limit) {
+        const part = chunk.subarray(0, limit - kept);
+        chunks.push(part);
+        kept += part.length;
+      }
+    },
+    body(): CapturedBody {
+      return encodeBody(Buffer.concat(chunks), size);
+    },
+  };
+}
+
+export function decodeBody(body: CapturedBody): Buffer {
+  return Buffer.from(body.data, body.encoding);
+}
+
+// Body for display: decompressed when complete, or a placeholder for binary data
+export function formatBody(body: CapturedBody, headers: http.IncomingHttpHeaders): string {
+  if (body.size === 0) return "";
+  
+  let data = decodeBody(body);
+  const encoding = String(headers["content-encoding"] || "").toLowerCase();
+  if (encoding && !body.truncated) {
+    try {
+      if (encoding === "gzip") data = zlib.gunzipSync(data);
+      else if (encoding === "deflate") data = zlib.inflateSync(data);
+      else if (encoding === "br") data = zlib.brotliDecompressSync(data);
+    } catch (err) {
+      // Shown as recorded
+    }
+  }
+  
+  const text = data.toString("utf8");
+  const shown = Buffer.from(text, "utf8").equals(data) ? text : `<${data.length} bytes of binary data>`;
+  return body.truncated ? `${shown}\n… (${body.size - data.length} more bytes not recorded)` : shown;
+}
+
+// Captures hold full headers, including authorization and cookies, so only the
+// user may read them. The directory is tightened too if an older version
+// created it.
+export function saveCapture(storeDir: string, capture: Capture): void {
+  fs.ensureDirSync(storeDir, { mode: 0o700 });
+  fs.chmodSync(storeDir, 0o700);
+  fs.writeFileSync(path.join(storeDir, `${capture.id}.json`), JSON.stringify(capture, null, 2), { mode: 0o600 });
+  
+  const files = fs.readdirSync(storeDir).filter(name => name.endsWith(".json")).sort();
+  for (const name of files.slice(0, Math.max(0, files.length - MAX_CAPTURES))) {
+    fs.removeSync(path.join(storeDir, name));
+  }
+}
+
+// Newest first; unreadable files are skipped
+export function listCaptures(storeDir: string): Capture[] {
+  if (!fs.existsSync(storeDir)) return [];
+  
+  const captures: Capture[] = [];
+  for (const name of fs.readdirSync(storeDir).filter(name => name.endsWith(".json")).sort().reverse()) {
+    try {
+      captures.push(JSON.parse(fs.readFileSync(path.join(storeDir, name), "utf8")));
+    } catch (err) {
+      // Being written or damaged
+    }
+  }
+  return captures;
+}
+
+// Accepts a full ID or a unique prefix
+export function findCapture(storeDir: string, ref: string): Capture | null {
+  const matches = listCaptures(storeDir).filter(capture => capture.id.startsWith(ref));
+  if (matches.length > 1 && !matches.some(capture => capture.id === ref)) {
+    throw new InspectorError(`${ref} matches ${matches.length} captures; use more of the ID`);
+  }
+  return matches.find(capture => capture.id === ref) || matches[0] || null;
+}
+
+export function clearCaptures(storeDir: string, tunnelId?: string): number {
+  const captures = listCaptures(storeDir).filter(capture => !tunnelId || capture.tunnelId === tunnelId);
+  for (const capture of captures) {
+    fs.removeSync(path.join(storeDir, `${capture.id}.json`));
+  }
+  return captures.length;
+}
+
+// Sends one request to an origin, recording the response
+function sendRequest(
+  origin: URL,
+  request: { method: string; path: string; headers: http.OutgoingHttpHeaders; body: Buffer },
+  options: { insecure?: boolean; bodyLimit: number }
+): Promise<{ response?: CapturedResponse; error?: string }> {
+  return new Promise((resolve) => {
+    const upstream = originRequest({ origin, insecure: options.insecure }, {
+      method: request.method,
+      path: targetPath(origin, request.path),
+      headers: request.headers,
+    }, (res) => {
+      const recorder = createBodyRecorder(options.bodyLimit);
+      res.on("data", (chunk: Buffer) => recorder.write(chunk));
+      res.on("end", () => resolve({ response: { status: res.statusCode || 0, headers: res.headers, body: recorder.body() } }));
+      res.on("error", (err) => resolve({ error: err.message }));
+    });
+    upstream.on("error", (err) => resolve({ error: err.message }));
+    upstream.end(request.body);
+  });
+}
+
+export function createInspector(options: InspectorOptions): http.Server {
+  const target = { origin: new URL(options.origin), insecure: options.insecure };
+  const bodyLimit = options.bodyLimit ?? DEFAULT_BODY_LIMIT;
+  
+  const record = (capture: Capture) => {
+    try {
+      saveCapture(options.storeDir, capture);
+    } catch (err) {
+      // Recording must never break the proxied request
+    }
+    options.onCapture?.(capture);
+  };
+  
+  const server = http.createServer((req, res) => {
+    const started = Date.now();
+    const requestBody = createBodyRecorder(bodyLimit);
+    const capture: Capture = {
+      id: newCaptureId(),
+      tunnelId: options.tunnelId,
+      origin: options.origin,
+      startedAt: new Date(started).toISOString(),
+      durationMs: 0,
+      request: { method: req.method || "GET", path: req.url || "/", headers: req.headers, body: requestBody.body() },
+    };
+    
+    const responseBody = createBodyRecorder(bodyLimit);
+    let upstreamRes: http.IncomingMessage | undefined;
+    
+    req.on("data", (chunk: Buffer) => requestBody.write(chunk));
+    proxyRequest(req, res, target, {
+      onResponse: (response) => {
+        upstreamRes = response;
+        response.on("data", (chunk: Buffer) => responseBody.write(chunk));
+      },
+      onDone: (error) => {
+        capture.durationMs = Date.now() - started;
+        capture.request.body = requestBody.body();
+        if (upstreamRes) {
+          capture.response = { status: upstreamRes.statusCode || 0, headers: upstreamRes.headers, body: responseBody.body() };
+        }
+        if (error) capture.error = error;
+        record(capture);
+      },
+    });
+  });
+  
+  // WebSockets and other upgrades are passed through without recording their traffic
+  server.on("upgrade", (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+    const capture: Capture = {
+      id: newCaptureId(),
+      tunnelId: options.tunnelId,
+      origin: options.origin,
+      startedAt: new Date().toISOString(),
+      durationMs: 0,
+      request: { method: req.method || "GET", path: req.url || "/", headers: req.headers, body: encodeBody(Buffer.alloc(0), 0) },
+      upgrade: String(req.headers.upgrade || ""),
+    };
+    
+    proxyUpgrade(req, socket, head, target, {
+      onConnect: () => record(capture),
+      onError: (error) => record({ ...capture, error }),
+    });
+  });
+  
+  return server;
+}
+
+export function startInspector(options: InspectorOptions): Promise<http.Server> {
+  const server = createInspector(options);
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, "127.0.0.1", () => resolve(server));
+  });
+}
+
+// Resends a captured request, with optional edits, and records the result as a
+// new capture
+export async function replayCapture(storeDir: string, capture: Capture, options: ReplayOptions = {}): Promise<Capture> {
+  if (capture.upgrade) {
+    throw new InspectorError(`${capture.id} upgraded to ${capture.upgrade || "another protocol"} and cannot be replayed`);
+  }
+  if (!options.body && capture.request.body.truncated) {
+    throw new InspectorError(`Only ${decodeBody(capture.request.body).length} of ${capture.request.body.size} bytes of the body of ${capture.id} were recorded; pass a body to replay it`);
+  }
+  
+  const originUrl = options.origin || capture.origin;
+  const body = options.body ?? decodeBody(capture.request.body);
+  const headers = forwardHeaders(capture.request.headers);
+  for (const name of options.removeHeaders || []) {
+    delete headers[name.toLowerCase()];
+  }
+  for (const [name, value] of Object.entries(options.headers || {})) {
+    headers[name.toLowerCase()] = value;
+  }
+  delete headers["content-length"];
+  if (body.length > 0) headers["content-length"] = String(body.length);
+  
+  const request = {
+    method: (options.method || capture.request.method).toUpperCase(),
+    path: options.path || capture.request.path,
+    headers,
+    body,
+  };
+  
+  const bodyLimit = options.bodyLimit ?? DEFAULT_BODY_LIMIT;
+  const started = Date.now();
+  const result = await sendRequest(new URL(originUrl), request, { insecure: options.insecure, bodyLimit });
+  
+  const replay: Capture = {
+    id: newCaptureId(),
+    tunnelId: capture.tunnelId,
+    origin: originUrl,
+    startedAt: new Date(started).toISOString(),
+    durationMs: Date.now() - started,
+    request: {
+      method: request.method,
+      path: request.path,
+      headers: request.headers as http.IncomingHttpHeaders,
+      body: encodeBody(body.subarray(0, bodyLimit), body.length),
+    },
+    ...result,
+    replayOf: capture.id,
+  };
+  saveCapture(storeDir, replay);
+  return replay;
+}
@@ -0,0 +1,160 @@
+import { ExecSyncOptions, execSync } from "child_process";
+import fs from "fs-extra";
+import path from "path";
+
+// cloudtunnel's own log: leveled messages for the terminal and a log file of
+// text or JSON lines that is rotated by size. cloudflared's output goes to the
+// tunnel logs instead (see logs.ts).
+
+export const LOGGER_LEVELS = ["trace", "debug", "info", "warn", "error"] as const;
+
+export type LoggerLevel = typeof LOGGER_LEVELS[number];
+
+export type LogFormat = "text" | "json";
+
+export interface LogFields {
+  [key: string]: unknown;
+}
+
+export interface LogFileOptions {
+  file: string;
+  // Less severe entries are not written
+  level: LoggerLevel;
+  format: LogFormat;
+  // The file is rotated before it grows past this size, keeping maxFiles old ones
+  maxBytes: number;
+  maxFiles: number;
+  // Added to every JSON entry, e.g. the command being run
+  fields?: LogFields;
+}
+
+export type LogFn = (message: string, level: LoggerLevel, fields?: LogFields) => void;
+
+export const DEFAULT_LOG_MAX_BYTES = 5 * 1024 * 1024;
+export const DEFAULT_LOG_MAX_FILES = 5;
+
+// Output of a logged command is cut to this many characters
+const MAX_LOGGED_OUTPUT = 4000;
+
+export function parseLogLevel(value: string): LoggerLevel {
+  const level = value.trim().toLowerCase();
+  if (!(LOGGER_LEVELS as readonly string[]).includes(level)) {
+    throw new Error(`Invalid log level: ${value} (use ${LOGGER_LEVELS.join(", ")})`);
+  }
+  return level as LoggerLevel;
+}
+
+export function parseLogFormat(value: string): LogFormat {
+  const format = value.trim().toLowerCase();
+  if (format !== "text" && format !== "json") {
+    throw new Error(`Invalid log format: ${value} (use text or json)`);
+  }
+  return format;
+}
+
+// Accepts a number of bytes or a size such as 512K, 10M or 1G
+export function parseByteSize(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmg]?)b?$/i);
+  if (!match || parseFloat(match[1]) <= 0) {
+    throw new Error(`Invalid size: ${value} (use e.g. 512K, 10M or 1G)`);
+  }
+  const unit = { "": 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 }[match[2].toLowerCase() as "" | "k" | "m" | "g"];
+  return Math.round(parseFloat(match[1]) * unit);
+}
+
+export function isLevelEnabled(level: LoggerLevel, threshold: LoggerLevel): boolean {
+  return LOGGER_LEVELS.indexOf(level) >= LOGGER_LEVELS.indexOf(threshold);
+}
+
+// The more detailed of two levels, e.g. debug for debug and info
+export function moreDetailedLevel(a: LoggerLevel, b: LoggerLevel): LoggerLevel {
+  return LOGGER_LEVELS.indexOf(a) <= LOGGER_LEVELS.indexOf(b) ? a : b;
+}
+
+// Log file settings from CLOUDTUNNEL_LOG_LEVEL, CLOUDTUNNEL_LOG_FORMAT,
+// CLOUDTUNNEL_LOG_MAX_SIZE and CLOUDTUNNEL_LOG_MAX_FILES. Throws on invalid values.
+export function readLogEnv(env: NodeJS.ProcessEnv = process.env): { level?: LoggerLevel; format: LogFormat; maxBytes: number; maxFiles: number } {
+  const maxFiles = env.CLOUDTUNNEL_LOG_MAX_FILES ? Number(env.CLOUDTUNNEL_LOG_MAX_FILES) : DEFAULT_LOG_MAX_FILES;
+  if (!Number.isInteger(maxFiles) || maxFiles < 0) {
+    throw new Error(`Invalid CLOUDTUNNEL_LOG_MAX_FILES: ${env.CLOUDTUNNEL_LOG_MAX_FILES} (use a whole number of 0 or more)`);
+  }
+  return {
+    level: env.CLOUDTUNNEL_LOG_LEVEL ? parseLogLevel(env.CLOUDTUNNEL_LOG_LEVEL) : undefined,
+    format: env.CLOUDTUNNEL_LOG_FORMAT ? parseLogFormat(env.CLOUDTUNNEL_LOG_FORMAT) : "text",
+    maxBytes: env.CLOUDTUNNEL_LOG_MAX_SIZE ? parseByteSize(env.CLOUDTUNNEL_LOG_MAX_SIZE) : DEFAULT_LOG_MAX_BYTES,
+    maxFiles,
+  };
+}
+
+// Fields in the key=value style of cloudflared's log lines, quoting values
+// that contain spaces or line breaks, so that `parseLogLine` can read them back
+export function formatLogFields(fields: LogFields): string {
+  return Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      const text = typeof value === "string" ? value : JSON.stringify(value);
+      return ` ${key}=${/^[^\s"]*$/.test(text) && text !== "" ? text : JSON.stringify(text)}`;
+    })
+    .join("");
+}
+
+export function formatLogEntry(format: LogFormat, time: string, level: LoggerLevel, message: string, fields: LogFields = {}): string {
+  if (format === "json") {
+    return JSON.stringify({ time, level, message, ...fields });
+  }
+  return `[${time}] [${level.toUpperCase()}] ${message}${formatLogFields(fields)}`;
+}
+
+// cloudtunnel.log becomes cloudtunnel.log.1, which becomes cloudtunnel.log.2
+// and so on; the oldest beyond maxFiles is deleted
+export function rotateLogFile(file: string, maxFiles: number): void {
+  fs.removeSync(`${file}.${maxFiles}`);
+  for (let idx = maxFiles - 1; idx >= 1; idx--) {
+    if (fs.existsSync(`${file}.${idx}`)) fs.moveSync(`${file}.${idx}`, `${file}.${idx + 1}`, { overwrite: true });
+  }
+  if (maxFiles > 0) {
+    fs.moveSync(file, `${file}.1`, { overwrite: true });
+  } else {
+    fs.removeSync(file);
+  }
+}
+
+export function appendLogEntry(options: LogFileOptions, level: LoggerLevel, message: string, fields: LogFields = {}): void {
+  if (!isLevelEnabled(level, options.level)) return;
+  
+  const entryFields = options.format === "json" ? { ...options.fields, ...fields } : fields;
+  const line = `${formatLogEntry(options.format, new Date().toISOString(), level, message.trim(), entryFields)}\n`;
+  try {
+    fs.ensureDirSync(path.dirname(options.file));
+    if (fs.existsSync(options.file) && fs.statSync(options.file).size + Buffer.byteLength(line) > options.maxBytes) {
+      rotateLogFile(options.file, options.maxFiles);
+    }
+    fs.appendFileSync(options.file, line);
+  } catch (err) {
+    // Logging must never fail a command
+  }
+}
+
+function loggedOutput(...outputs: Array<Buffer | string | null | undefined>): string | undefined {
+  const text = outputs.map(output => output?.toString() || "").join("").trim();
+  if (!text) return undefined;
+  return text.length > MAX_LOGGED_OUTPUT ? `${text.slice(0, MAX_LOGGED_OUTPUT)}… (${text.length - MAX_LOGGED_OUTPUT} more characters)` : text;
+}
+
+// execSync that logs the command line, its exit code, how long it took and
+// its captured output at debug level
+export function execSyncLogged(command: string, options: ExecSyncOptions, log: LogFn): Buffer {
+  const started = Date.now();
+  try {
+    const output = execSync(command, options) as Buffer;
+    log(`$ ${command}`, "debug", { exitCode: 0, durationMs: Date.now() - started, output: loggedOutput(output) });
+    return output;
+  } catch (err: any) {
+    log(`$ ${command}`, "debug", {
+      exitCode: err.status ?? null,
+      durationMs: Date.now() - started,
+      output: loggedOutput(err.stdout, err.stderr) || err.message,
+    });
+    throw err;
+  }
+}
@@ -0,0 +1,135 @@
+import fs from "fs-extra";
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "fatal";
+
+export interface LogEntry {
+  time?: string;
+  level: LogLevel;
+  message: string;
+  fields: { [key: string]: string };
+  raw: string;
+}
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error", "fatal"];
+
+const CLOUDFLARED_LEVELS: { [abbr: string]: LogLevel } = {
+  DBG: "debug",
+  INF: "info",
+  WRN: "warn",
+  ERR: "error",
+  FTL: "fatal",
+};
+
+// cloudflared writes lines like:
+//   2024-01-20T10:00:00Z INF Registered tunnel connection connIndex=0 location=ams01
+const LINE_PATTERN = /^(\d{4}-\d{2}-\d{2}T\S+)\s+(DBG|INF|WRN|ERR|FTL)\s+(.*)$/;
+const FIELD_PATTERN = /\s([A-Za-z][\w.-]*)=("(?:[^"\\]|\\.)*"|\S*)/g;
+
+export function parseLogLine(line: string, previous?: LogEntry): LogEntry {
+  const match = line.match(LINE_PATTERN);
+  
+  if (!match) {
+    // Continuation lines (stack traces, wrapped output) inherit the previous entry's time and level
+    return {
+      time: previous?.time,
+      level: previous?.level || "info",
+      message: line,
+      fields: {},
+      raw: line,
+    };
+  }
+  
+  const [, time, abbr, rest] = match;
+  const fields: { [key: string]: string } = {};
+  let firstField = rest.length;
+  
+  for (const field of ` ${rest}`.matchAll(FIELD_PATTERN)) {
+    const value = field[2];
+    fields[field[1]] = value.startsWith("\"") ? JSON.parse(value) : value;
+    firstField = Math.min(firstField, (field.index || 0));
+  }
+  
+  return {
+    time,
+    level: CLOUDFLARED_LEVELS[abbr],
+    message: rest.slice(0, firstField).trim(),
+    fields,
+    raw: line,
+  };
+}
+
+export function parseLog(content: string): LogEntry[] {
+  const entries: LogEntry[] = [];
+  
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    entries.push(parseLogLine(line, entries[entries.length - 1]));
+  }
+  
+  return entries;
+}
+
+// Accepts a relative duration such as 30s, 10m, 2h or 1d, or an absolute date
+export function parseSince(since: string, now: number = Date.now()): number {
+  const match = since.match(/^(\d+)(s|m|h|d)$/);
+  
+  if (match) {
+    const unit = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as "s" | "m" | "h" | "d"];
+    return now - parseInt(match[1], 10) * unit;
+  }
+  
+  const time = Date.parse(since);
+  if (isNaN(time)) {
+    throw new Error(`Invalid --since value: ${since} (use e.g. 10m, 2h, 1d or an ISO date)`);
+  }
+  return time;
+}
+
+export function filterLogEntries(entries: LogEntry[], filter: { since?: number; level?: LogLevel }): LogEntry[] {
+  const minLevel = LOG_LEVELS.indexOf(filter.level || "debug");
+  
+  return entries.filter(entry => {
+    if (LOG_LEVELS.indexOf(entry.level) < minLevel) return false;
+    if (filter.since !== undefined && entry.time && Date.parse(entry.time) < filter.since) return false;
+    return true;
+  });
+}
+
+// Polls a log file and calls onLines with every complete line appended after
+// `offset`. Returns a function that stops following.
+export function followLogFile(file: string, offset: number, onLines: (lines: string[]) => void, intervalMs = 500): () => void {
+  let position = offset;
+  let partial = "";
+  
+  const poll = () => {
+    let size: number;
+    try {
+      size = fs.statSync(file).size;
+    } catch (err) {
+      return;
+    }
+    
+    // The file was truncated or replaced, start again from the top
+    if (size < position) {
+      position = 0;
+      partial = "";
+    }
+    if (size === position) return;
+    
+    const fd = fs.openSync(file, "r");
+    try {
+      const buffer = Buffer.alloc(size - position);
+      fs.readSync(fd, buffer, 0, buffer.length, position);
+      position = size;
+      
+      const lines = (partial + buffer.toString("utf8")).split(/\r?\n/);
+      partial = lines.pop() || "";
+      if (lines.length > 0) onLines(lines);
+    } finally {
+      fs.closeSync(fd);
+    }
+  };
+  
+  const timer = setInterval(poll, intervalMs);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,143 @@
+import fs from "fs-extra";
+import path from "path";
+import YAML from "yaml";
+import { HealthCheck, validateHealthCheck } from "./health.js";
+import {
+  DEFAULT_PORTS,
+  OriginRequest,
+  PORT_SERVICE_TYPES,
+  ServiceTarget,
+  buildServiceUrl,
+  compactHealthCheck,
+  compactOriginRequest,
+  serviceKey,
+  validateHostname,
+  validateOriginRequest,
+  validatePathRegex,
+  validateServiceTarget,
+} from "./services.js";
+
+// Project manifest (cloudtunnel.yml): the tunnel a project needs and the
+// services it serves, for `cloudtunnel up` and `down`
+
+export const MANIFEST_FILES = ["cloudtunnel.yml", "cloudtunnel.yaml"];
+
+export interface ManifestService {
+  hostname: string;
+  service: string;
+  path?: string;
+  originRequest?: OriginRequest;
+  healthCheck?: HealthCheck;
+  protocol: string;
+  host?: string;
+  port?: string;
+}
+
+export interface Manifest {
+  tunnel: string;
+  services: ManifestService[];
+}
+
+export function findManifest(startDir: string): string | null {
+  let dir = path.resolve(startDir);
+  
+  // Walk up towards the filesystem root, like git does for .git
+  while (true) {
+    for (const name of MANIFEST_FILES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate)) return candidate;
+    }
+    
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+// Reads and validates a manifest; throws with the file and entry at fault
+export function loadManifest(manifestPath: string): Manifest {
+  const raw = YAML.parse(fs.readFileSync(manifestPath, "utf8"));
+  
+  if (!raw || typeof raw !== "object") {
+    throw new Error(`${manifestPath}: expected a mapping with 'tunnel' and 'services'`);
+  }
+  if (typeof raw.tunnel !== "string" || !raw.tunnel.trim()) {
+    throw new Error(`${manifestPath}: 'tunnel' must be a non-empty string`);
+  }
+  if (raw.services !== undefined && !Array.isArray(raw.services)) {
+    throw new Error(`${manifestPath}: 'services' must be a list`);
+  }
+  
+  const services: ManifestService[] = (raw.services || []).map((srv: any, idx: number) => {
+    const where = `${manifestPath}: services[${idx}]`;
+    
+    if (!srv || typeof srv.hostname !== "string" || !validateHostname(srv.hostname)) {
+      throw new Error(`${where}.hostname is missing or invalid`);
+    }
+    
+    const protocol = srv.protocol ?? "http";
+    const target: ServiceTarget = {
+      protocol,
+      host: srv.host,
+      port: srv.port !== undefined ? String(srv.port) : DEFAULT_PORTS[protocol],
+      socket: srv.socket,
+      status: srv.status !== undefined ? String(srv.status) : undefined,
+    };
+    const targetError = validateServiceTarget(target);
+    if (targetError !== true) {
+      throw new Error(`${where}: ${targetError}`);
+    }
+    
+    if (srv.path !== undefined) {
+      const pathError = typeof srv.path === "string" ? validatePathRegex(srv.path) : "path must be a string";
+      if (pathError !== true) throw new Error(`${where}: ${pathError}`);
+    }
+    
+    const originRequest = compactOriginRequest({
+      noTLSVerify: srv.originRequest?.noTLSVerify,
+      httpHostHeader: srv.originRequest?.httpHostHeader,
+      originServerName: srv.originRequest?.originServerName,
+      connectTimeout: srv.originRequest?.connectTimeout,
+      caPool: srv.originRequest?.caPool,
+    });
+    if (originRequest) {
+      const originError = validateOriginRequest(originRequest);
+      if (originError !== true) throw new Error(`${where}.originRequest: ${originError}`);
+    }
+    
+    const healthCheck = srv.healthCheck && compactHealthCheck({
+      path: srv.healthCheck.path,
+      method: srv.healthCheck.method?.toUpperCase(),
+      expectedStatus: srv.healthCheck.expectedStatus !== undefined ? String(srv.healthCheck.expectedStatus) : undefined,
+      bodyContains: srv.healthCheck.bodyContains,
+      timeout: srv.healthCheck.timeout,
+      interval: srv.healthCheck.interval,
+      insecure: srv.healthCheck.insecure,
+    });
+    if (healthCheck) {
+      const healthError = validateHealthCheck(healthCheck);
+      if (healthError !== true) throw new Error(`${where}.healthCheck: ${healthError}`);
+    }
+    
+    return {
+      hostname: srv.hostname,
+      service: buildServiceUrl(target),
+      path: srv.path,
+      originRequest,
+      healthCheck,
+      protocol,
+      host: target.host,
+      port: PORT_SERVICE_TYPES.includes(protocol) ? target.port : undefined,
+    };
+  });
+  
+  const seen = new Set<string>();
+  for (const srv of services) {
+    if (seen.has(serviceKey(srv))) {
+      throw new Error(`${manifestPath}: '${serviceKey(srv)}' is declared more than once`);
+    }
+    seen.add(serviceKey(srv));
+  }
+  
+  return { tunnel: raw.tunnel.trim(), services };
+}
@@ -0,0 +1,205 @@
+import http from "http";
+import net from "net";
+
+export interface MetricSample {
+  name: string;
+  labels: { [label: string]: string };
+  value: number;
+}
+
+export interface TrafficStats {
+  requests: number;
+  errors: number;
+  requestRate: number;
+  errorRate: number;
+}
+
+export interface MetricsSnapshot {
+  scrapedAt: string;
+  totals: TrafficStats;
+  hostnames: { [hostname: string]: TrafficStats };
+  concurrentRequests: number;
+  edgeConnections: number;
+  haConnections: number;
+  // Mean and p95 origin connect latency over the sampling interval, in ms
+  latencyMs: { mean: number | null; p95: number | null };
+}
+
+// Metric names exposed by cloudflared on its --metrics address
+const TOTAL_REQUESTS = "cloudflared_tunnel_total_requests";
+const REQUEST_ERRORS = "cloudflared_tunnel_request_errors";
+const CONCURRENT_REQUESTS = "cloudflared_tunnel_concurrent_requests_per_tunnel";
+const HA_CONNECTIONS = "cloudflared_tunnel_ha_connections";
+const SERVER_LOCATIONS = "cloudflared_tunnel_server_locations";
+const CONNECT_LATENCY = "cloudflared_proxy_connect_latency";
+
+// Labels cloudflared may attach to per-request metrics to identify the ingress rule
+const HOSTNAME_LABELS = ["hostname", "host", "ingress"];
+
+const SAMPLE_PATTERN = /^([a-zA-Z_:][a-zA-Z0-9_:]*)(?:\{(.*)\})?\s+(\S+)/;
+const LABEL_PATTERN = /([a-zA-Z_][a-zA-Z0-9_]*)="((?:[^"\\]|\\.)*)"/g;
+
+export function parsePrometheus(text: string): MetricSample[] {
+  const samples: MetricSample[] = [];
+  
+  for (const line of text.split(/\r?\n/)) {
+    if (!line || line.startsWith("#")) continue;
+    
+    const match = line.match(SAMPLE_PATTERN);
+    if (!match) continue;
+    
+    const labels: { [label: string]: string } = {};
+    for (const label of (match[2] || "").matchAll(LABEL_PATTERN)) {
+      labels[label[1]] = label[2].replace(/\\(.)/g, (_, c) => (c === "n" ? "\n" : c));
+    }
+    
+    const value = match[3] === "+Inf" ? Infinity : match[3] === "-Inf" ? -Infinity : Number(match[3]);
+    samples.push({ name: match[1], labels, value });
+  }
+  
+  return samples;
+}
+
+function sum(samples: MetricSample[], name: string, filter?: (labels: MetricSample["labels"]) => boolean): number {
+  return samples
+    .filter(s => s.name === name && (!filter || filter(s.labels)))
+    .reduce((total, s) => total + s.value, 0);
+}
+
+function hostnameOf(labels: MetricSample["labels"]): string | undefined {
+  const key = HOSTNAME_LABELS.find(label => labels[label]);
+  return key ? labels[key] : undefined;
+}
+
+function rate(current: number, previous: number | undefined, seconds: number): number {
+  if (previous === undefined || seconds <= 0) return 0;
+  // Counters reset when cloudflared restarts
+  return Math.max(0, current - previous) / seconds;
+}
+
+function histogramDelta(current: MetricSample[], previous: MetricSample[] | undefined) {
+  const buckets = new Map<number, number>();
+  for (const s of current.filter(s => s.name === `${CONNECT_LATENCY}_bucket`)) {
+    const le = s.labels.le === "+Inf" ? Infinity : Number(s.labels.le);
+    buckets.set(le, (buckets.get(le) || 0) + s.value);
+  }
+  for (const s of (previous || []).filter(s => s.name === `${CONNECT_LATENCY}_bucket`)) {
+    const le = s.labels.le === "+Inf" ? Infinity : Number(s.labels.le);
+    buckets.set(le, (buckets.get(le) || 0) - s.value);
+  }
+  
+  const count = sum(current, `${CONNECT_LATENCY}_count`) - (previous ? sum(previous, `${CONNECT_LATENCY}_count`) : 0);
+  const total = sum(current, `${CONNECT_LATENCY}_sum`) - (previous ? sum(previous, `${CONNECT_LATENCY}_sum`) : 0);
+  
+  return { buckets: [...buckets.entries()].sort((a, b) => a[0] - b[0]), count, total };
+}
+
+// Builds a snapshot from the current scrape. Rates and latency are computed
+// against the previous scrape when one is given, otherwise over the lifetime
+// of the process.
+export function summarizeMetrics(
+  current: MetricSample[],
+  previous?: { samples: MetricSample[]; scrapedAt: number },
+  scrapedAt: number = Date.now()
+): MetricsSnapshot {
+  const seconds = previous ? (scrapedAt - previous.scrapedAt) / 1000 : 0;
+  const before = previous?.samples;
+  
+  const requests = sum(current, TOTAL_REQUESTS);
+  const errors = sum(current, REQUEST_ERRORS);
+  
+  const hostnames: MetricsSnapshot["hostnames"] = {};
+  for (const s of current) {
+    if (s.name !== TOTAL_REQUESTS && s.name !== REQUEST_ERRORS) continue;
+    const hostname = hostnameOf(s.labels);
+    if (!hostname || hostnames[hostname]) continue;
+    
+    const byHost = (labels: MetricSample["labels"]) => hostnameOf(labels) === hostname;
+    const hostRequests = sum(current, TOTAL_REQUESTS, byHost);
+    const hostErrors = sum(current, REQUEST_ERRORS, byHost);
+    hostnames[hostname] = {
+      requests: hostRequests,
+      errors: hostErrors,
+      requestRate: rate(hostRequests, before && sum(before, TOTAL_REQUESTS, byHost), seconds),
+      errorRate: rate(hostErrors, before && sum(before, REQUEST_ERRORS, byHost), seconds),
+    };
+  }
+  
+  const latency = histogramDelta(current, before);
+  let p95: number | null = null;
+  if (latency.count > 0) {
+    const target = latency.count * 0.95;
+    const bucket = latency.buckets.find(([, cumulative]) => cumulative >= target);
+    p95 = bucket && isFinite(bucket[0]) ? bucket[0] : null;
+  }
+  
+  return {
+    scrapedAt: new Date(scrapedAt).toISOString(),
+    totals: {
+      requests,
+      errors,
+      requestRate: rate(requests, before && sum(before, TOTAL_REQUESTS), seconds),
+      errorRate: rate(errors, before && sum(before, REQUEST_ERRORS), seconds),
+    },
+    hostnames,
+    concurrentRequests: sum(current, CONCURRENT_REQUESTS),
+    edgeConnections: current.filter(s => s.name === SERVER_LOCATIONS && s.value > 0).length,
+    haConnections: sum(current, HA_CONNECTIONS),
+    latencyMs: {
+      mean: latency.count > 0 ? latency.total / latency.count : null,
+      p95,
+    },
+  };
+}
+
+export function fetchMetrics(address: string, timeoutMs = 2000): Promise<MetricSample[]> {
+  return new Promise((resolve, reject) => {
+    const req = http.get(`http://${address}/metrics`, { timeout: timeoutMs }, (res) => {
+      if (res.statusCode !== 200) {
+        res.resume();
+        reject(new Error(`Metrics endpoint returned HTTP ${res.statusCode}`));
+        return;
+      }
+      
+      let body = "";
+      res.setEncoding("utf8");
+      res.on("data", chunk => body += chunk);
+      res.on("end", () => resolve(parsePrometheus(body)));
+    });
+    
+    req.on("timeout", () => req.destroy(new Error(`Timed out scraping ${address}`)));
+    req.on("error", reject);
+  });
+}
+
+// cloudflared answers /ready with 200 once it is connected to the Cloudflare edge
+export function isConnectorReady(address: string, timeoutMs = 2000): Promise<boolean> {
+  return new Promise((resolve) => {
+    const req = http.get(`http://${address}/ready`, { timeout: timeoutMs }, (res) => {
+      res.resume();
+      resolve(res.statusCode === 200);
+    });
+    
+    req.on("timeout", () => req.destroy());
+    req.on("error", () => resolve(false));
+  });
+}
+
+// Asks the OS for a free local port for cloudflared's metrics server
+export function findFreePort(host = "127.0.0.1"): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.on("error", reject);
+    server.listen(0, host, () => {
+      const address = server.address();
+      server.close(() => {
+        if (address && typeof address === "object") {
+          resolve(address.port);
+        } else {
+          reject(new Error("Could not determine a free port"));
+        }
+      });
+    });
+  });
+}
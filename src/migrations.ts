@@ -0,0 +1,170 @@
+// Config migrations. Each step upgrades a raw config object from one version
+// to the next and must keep working on its own: steps never use the current
+// CLI types or constants, which may change after the step was written.
+
+export interface Migration {
+  from: string;
+  to: string;
+  description: string;
+  migrate(config: any): any;
+}
+
+export interface MigrationResult {
+  config: any;
+  fromVersion: string;
+  applied: Migration[];
+}
+
+export class ConfigVersionError extends Error {
+  constructor(message: string, public version?: string) {
+    super(message);
+    this.name = "ConfigVersionError";
+  }
+}
+
+// Ports implied by a scheme when a service URL does not name one, as of 2.1.0
+const SCHEME_PORTS: { [scheme: string]: string } = { http: "80", https: "443", ssh: "22", rdp: "3389" };
+
+function describeTarget(service: string): { protocol?: string; host?: string; port?: string } {
+  if (/^unix(\+tls)?:/.test(service)) return { protocol: "unix" };
+  if (service === "hello_world") return { protocol: "hello_world" };
+  if (service.startsWith("http_status:")) return { protocol: "http_status" };
+  
+  const match = service.match(/^(https?|tcp|ssh|rdp):\/\/(\[[^\]]+\]|[^:/]+)(?::(\d+))?/);
+  if (!match) return {};
+  
+  const [, protocol, host, port] = match;
+  return {
+    protocol,
+    host: host === "localhost" ? undefined : host,
+    port: port || SCHEME_PORTS[protocol],
+  };
+}
+
+// Ordered oldest first; each step's `to` is the next step's `from`
+export const MIGRATIONS: Migration[] = [
+  {
+    from: "1.0.0",
+    to: "2.0.0",
+    description: "Convert the single-tunnel config into the multi-tunnel format",
+    migrate: (config) => ({
+      version: "2.0.0",
+      activeTunnel: config.tunnelId,
+      tunnels: {
+        [config.tunnelId]: {
+          tunnelName: config.tunnelName,
+          tunnelId: config.tunnelId,
+          services: config.services || [],
+          createdAt: new Date().toISOString(),
+        },
+      },
+    }),
+  },
+  {
+    from: "2.0.0",
+    to: "2.1.0",
+    description: "Record the protocol, host and port of services that only have an origin URL, so they are health checked",
+    migrate: (config) => {
+      const tunnels: { [id: string]: any } = {};
+      for (const [id, tunnel] of Object.entries<any>(config.tunnels || {})) {
+        tunnels[id] = {
+          ...tunnel,
+          services: (tunnel.services || []).map((service: any) => {
+            if (typeof service.port === "number") {
+              service = { ...service, port: String(service.port) };
+            }
+            if (service.protocol || typeof service.service !== "string") return service;
+            
+            const target = describeTarget(service.service);
+            return { ...service, ...(target.protocol ? target : {}) };
+          }),
+        };
+      }
+      return { ...config, version: "2.1.0", tunnels };
+    },
+  },
+];
+
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split(".").map(n => parseInt(n, 10) || 0);
+  const pb = b.split(".").map(n => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return 0;
+}
+
+// Version 1 configs had no version field and kept a single tunnel at the root
+export function detectVersion(config: any): string {
+  if (config && typeof config === "object" && config.tunnelId && config.tunnelName && !config.tunnels) {
+    return "1.0.0";
+  }
+  if (config && typeof config.version === "string") {
+    return config.version;
+  }
+  throw new ConfigVersionError("Config has no version field and is not a version 1 config");
+}
+
+// Steps that take a config from `from` to `to`. Refuses to go backwards: a
+// config written by a newer cloudtunnel may contain fields this one would drop.
+export function planMigrations(from: string, to: string, migrations: Migration[] = MIGRATIONS): Migration[] {
+  if (compareVersions(from, to) > 0) {
+    throw new ConfigVersionError(
+      `Config version ${from} was written by a newer cloudtunnel (this one supports up to ${to}). Upgrade cloudtunnel to use it.`,
+      from
+    );
+  }
+  
+  const plan: Migration[] = [];
+  let current = from;
+  while (current !== to) {
+    const step = migrations.find(m => m.from === current);
+    if (!step) {
+      throw new ConfigVersionError(`Don't know how to migrate config version ${current} to ${to}`, current);
+    }
+    plan.push(step);
+    current = step.to;
+  }
+  return plan;
+}
+
+export function migrateConfig(config: any, to: string, migrations: Migration[] = MIGRATIONS): MigrationResult {
+  const fromVersion = detectVersion(config);
+  const applied = planMigrations(fromVersion, to, migrations);
+  const migrated = applied.reduce((current, step) => step.migrate(current), config);
+  return { config: migrated, fromVersion, applied };
+}
+
+// Line diff of two texts, in unified style without hunk headers. Good enough
+// for showing what a migration changes in a pretty-printed config.
+export function diffLines(before: string, after: string): string[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(`  ${a[i]}`);
+      i++;
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push(`- ${a[i]}`);
+      i++;
+    } else {
+      lines.push(`+ ${b[j]}`);
+      j++;
+    }
+  }
+  return lines;
+}
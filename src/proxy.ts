@@ -0,0 +1,146 @@
+import http from "http";
+import https from "https";
+import net from "net";
+import tls from "tls";
+
+// Forwarding shared by the local proxies `run` can put in front of an origin:
+// the request inspector and the access gateway
+
+export interface ProxyTarget {
+  origin: URL;
+  // Skip TLS verification of an https origin, like originRequest.noTLSVerify
+  insecure?: boolean;
+}
+
+export interface ProxyHooks {
+  // Called with the origin's response before it is streamed to the client
+  onResponse?: (res: http.IncomingMessage) => void;
+  // Called once, when the exchange is over; with a message when it failed
+  onDone?: (error?: string) => void;
+}
+
+// Headers that only apply to a single connection and must not be forwarded
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+];
+
+export function forwardHeaders(headers: http.IncomingHttpHeaders): http.OutgoingHttpHeaders {
+  const forwarded: http.OutgoingHttpHeaders = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined && !HOP_BY_HOP_HEADERS.includes(name)) forwarded[name] = value;
+  }
+  return forwarded;
+}
+
+// Headers as the name and value pairs of `rawHeaders`, one pair per value
+export function toRawHeaders(headers: http.IncomingHttpHeaders): string[] {
+  const raw: string[] = [];
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) raw.push(name, item);
+  }
+  return raw;
+}
+
+export function originPort(origin: URL): number {
+  return origin.port ? parseInt(origin.port, 10) : origin.protocol === "https:" ? 443 : 80;
+}
+
+// Request path on the origin, below the origin URL's own path if it has one
+export function targetPath(origin: URL, requestPath: string): string {
+  return `${origin.pathname.replace(/\/+$/, "")}${requestPath.startsWith("/") ? "" : "/"}${requestPath}`;
+}
+
+export function originRequest(target: ProxyTarget, options: http.RequestOptions, callback?: (res: http.IncomingMessage) => void): http.ClientRequest {
+  const client = target.origin.protocol === "https:" ? https : http;
+  return client.request({
+    hostname: target.origin.hostname,
+    port: originPort(target.origin),
+    rejectUnauthorized: !target.insecure,
+    ...options,
+  }, callback);
+}
+
+// Forwards `req` to the origin and streams the response back. `path` and
+// `headers` replace the request's own.
+export function proxyRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  target: ProxyTarget & { path?: string; headers?: http.IncomingHttpHeaders },
+  hooks: ProxyHooks = {}
+): void {
+  let done = false;
+  const finish = (error?: string) => {
+    if (done) return;
+    done = true;
+    hooks.onDone?.(error);
+  };
+  
+  const upstream = originRequest(target, {
+    method: req.method,
+    path: targetPath(target.origin, target.path ?? req.url ?? "/"),
+    headers: forwardHeaders(target.headers || req.headers),
+  }, (upstreamRes) => {
+    hooks.onResponse?.(upstreamRes);
+    res.writeHead(upstreamRes.statusCode || 502, upstreamRes.statusMessage, forwardHeaders(upstreamRes.headers));
+    upstreamRes.pipe(res);
+    upstreamRes.on("end", () => finish());
+    upstreamRes.on("error", (err) => finish(err.message));
+  });
+  
+  upstream.on("error", (err) => {
+    if (!res.headersSent) {
+      res.writeHead(502, { "content-type": "text/plain; charset=utf-8" });
+      res.end(`cloudtunnel could not reach ${target.origin.origin}: ${err.message}\n`);
+    } else {
+      res.destroy();
+    }
+    finish(err.message);
+  });
+  // Client went away before the response was complete
+  res.on("close", () => {
+    if (!res.writableFinished) finish("Connection closed before the response was complete");
+  });
+  
+  req.pipe(upstream);
+}
+
+// Passes an upgraded connection, e.g. a WebSocket, through untouched.
+// `rawHeaders` replaces the request's own headers.
+export function proxyUpgrade(
+  req: http.IncomingMessage,
+  socket: net.Socket,
+  head: Buffer,
+  target: ProxyTarget & { path?: string; rawHeaders?: string[] },
+  hooks: { onConnect?: () => void; onError?: (error: string) => void } = {}
+): void {
+  const { origin } = target;
+  const onConnect = () => {
+    const rawHeaders = target.rawHeaders || req.rawHeaders;
+    const lines = [`${req.method} ${targetPath(origin, target.path ?? req.url ?? "/")} HTTP/1.1`];
+    for (let i = 0; i < rawHeaders.length; i += 2) {
+      lines.push(`${rawHeaders[i]}: ${rawHeaders[i + 1]}`);
+    }
+    upstream.write(`${lines.join("\r\n")}\r\n\r\n`);
+    if (head.length > 0) upstream.write(head);
+    upstream.pipe(socket);
+    socket.pipe(upstream);
+    hooks.onConnect?.();
+  };
+  const upstream: net.Socket = origin.protocol === "https:"
+    ? tls.connect({ host: origin.hostname, port: originPort(origin), servername: origin.hostname, rejectUnauthorized: !target.insecure }, onConnect)
+    : net.connect({ host: origin.hostname, port: originPort(origin) }, onConnect);
+  
+  upstream.on("error", (err) => {
+    socket.destroy();
+    hooks.onError?.(err.message);
+  });
+  socket.on("error", () => upstream.destroy());
+}
@@ -0,0 +1,235 @@
+import { execFileSync } from "child_process";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+
+// OS service units (systemd on Linux, launchd on macOS) that keep a tunnel
+// running across reboots without cloudtunnel's own supervisor
+
+export type ServiceManager = "systemd" | "launchd";
+export type ServiceScope = "user" | "system";
+export type RestartPolicy = "always" | "on-failure" | "no";
+export type UnitState = "active" | "inactive" | "failed" | "unknown";
+
+export const RESTART_POLICIES: RestartPolicy[] = ["always", "on-failure", "no"];
+
+// Log destination that sends output to the systemd journal instead of a file
+export const JOURNAL_LOG = "journal";
+
+export interface ServiceUnitSpec {
+  tunnelId: string;
+  tunnelName: string;
+  // Absolute path of the program followed by its arguments
+  command: string[];
+  restart: RestartPolicy;
+  restartDelaySeconds: number;
+  environment: { [name: string]: string };
+  // File for stdout and stderr, or JOURNAL_LOG
+  log: string;
+  // Account to run as, for system units
+  user?: string;
+}
+
+export interface InstalledUnit {
+  manager: ServiceManager;
+  scope: ServiceScope;
+  name: string;
+  file: string;
+}
+
+export function getServiceManager(platform: NodeJS.Platform = process.platform): ServiceManager | null {
+  if (platform === "linux") return "systemd";
+  if (platform === "darwin") return "launchd";
+  return null;
+}
+
+export function getUnitName(manager: ServiceManager, tunnelId: string): string {
+  return manager === "systemd" ? `cloudtunnel-${tunnelId}.service` : `com.cloudtunnel.${tunnelId}`;
+}
+
+export function getUnitFile(manager: ServiceManager, scope: ServiceScope, tunnelId: string): string {
+  const name = getUnitName(manager, tunnelId);
+  if (manager === "systemd") {
+    return scope === "user"
+      ? path.join(os.homedir(), ".config", "systemd", "user", name)
+      : path.join("/etc", "systemd", "system", name);
+  }
+  return scope === "user"
+    ? path.join(os.homedir(), "Library", "LaunchAgents", `${name}.plist`)
+    : path.join("/Library", "LaunchDaemons", `${name}.plist`);
+}
+
+// systemd splits command lines on spaces and expands % specifiers
+function quoteSystemd(value: string): string {
+  const escaped = value.replace(/%/g, "%%");
+  return /[\s"'\\]/.test(escaped) ? `"${escaped.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"` : escaped;
+}
+
+export function renderSystemdUnit(spec: ServiceUnitSpec, scope: ServiceScope): string {
+  const lines = [
+    "# Generated by cloudtunnel. Reinstall with 'cloudtunnel service install' instead of editing.",
+    "[Unit]",
+    `Description=cloudtunnel: ${spec.tunnelName} (${spec.tunnelId})`,
+    "After=network-online.target",
+    "Wants=network-online.target",
+    "",
+    "[Service]",
+    "Type=simple",
+  ];
+
+  if (spec.user) lines.push(`User=${spec.user}`);
+  lines.push(`ExecStart=${spec.command.map(quoteSystemd).join(" ")}`);
+  lines.push(`Restart=${spec.restart}`);
+  lines.push(`RestartSec=${spec.restartDelaySeconds}`);
+  for (const [name, value] of Object.entries(spec.environment)) {
+    lines.push(`Environment=${quoteSystemd(`${name}=${value}`)}`);
+  }
+  if (spec.log === JOURNAL_LOG) {
+    lines.push("StandardOutput=journal", "StandardError=journal");
+  } else {
+    lines.push(`StandardOutput=append:${spec.log}`, `StandardError=append:${spec.log}`);
+  }
+
+  lines.push("", "[Install]", `WantedBy=${scope === "user" ? "default.target" : "multi-user.target"}`, "");
+  return lines.join("\n");
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function renderLaunchdPlist(spec: ServiceUnitSpec): string {
+  const string = (value: string) => `<string>${escapeXml(value)}</string>`;
+  const keepAlive =
+    spec.restart === "always" ? "<true/>" :
+    spec.restart === "on-failure" ? "<dict>\n    <key>SuccessfulExit</key>\n    <false/>\n  </dict>" :
+    "<false/>";
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+    "<!-- Generated by cloudtunnel. Reinstall with 'cloudtunnel service install' instead of editing. -->",
+    '<plist version="1.0">',
+    "<dict>",
+    "  <key>Label</key>",
+    `  ${string(getUnitName("launchd", spec.tunnelId))}`,
+    "  <key>ProgramArguments</key>",
+    "  <array>",
+    ...spec.command.map(arg => `    ${string(arg)}`),
+    "  </array>",
+    "  <key>RunAtLoad</key>",
+    "  <true/>",
+    "  <key>KeepAlive</key>",
+    `  ${keepAlive}`,
+    "  <key>ThrottleInterval</key>",
+    `  <integer>${spec.restartDelaySeconds}</integer>`,
+  ];
+
+  if (spec.user) {
+    lines.push("  <key>UserName</key>", `  ${string(spec.user)}`);
+  }
+  if (Object.keys(spec.environment).length > 0) {
+    lines.push("  <key>EnvironmentVariables</key>", "  <dict>");
+    for (const [name, value] of Object.entries(spec.environment)) {
+      lines.push(`    <key>${escapeXml(name)}</key>`, `    ${string(value)}`);
+    }
+    lines.push("  </dict>");
+  }
+  lines.push(
+    "  <key>StandardOutPath</key>",
+    `  ${string(spec.log)}`,
+    "  <key>StandardErrorPath</key>",
+    `  ${string(spec.log)}`,
+    "</dict>",
+    "</plist>",
+    ""
+  );
+  return lines.join("\n");
+}
+
+export function renderUnit(manager: ServiceManager, scope: ServiceScope, spec: ServiceUnitSpec): string {
+  return manager === "systemd" ? renderSystemdUnit(spec, scope) : renderLaunchdPlist(spec);
+}
+
+// User units are looked up first: they are the default for 'service install'
+export function findInstalledUnit(manager: ServiceManager, tunnelId: string): InstalledUnit | null {
+  for (const scope of ["user", "system"] as ServiceScope[]) {
+    const file = getUnitFile(manager, scope, tunnelId);
+    if (fs.existsSync(file)) {
+      return { manager, scope, name: getUnitName(manager, tunnelId), file };
+    }
+  }
+  return null;
+}
+
+function systemctl(scope: ServiceScope, args: string[]): string {
+  return execFileSync("systemctl", scope === "user" ? ["--user", ...args] : args, {
+    encoding: "utf8",
+    stdio: ["ignore", "pipe", "pipe"],
+  }).trim();
+}
+
+export function getUnitState(unit: InstalledUnit): UnitState {
+  if (unit.manager === "systemd") {
+    let state: string;
+    try {
+      state = systemctl(unit.scope, ["is-active", unit.name]);
+    } catch (err: any) {
+      // is-active exits non-zero for anything but "active", still printing the state
+      state = err.stdout?.toString().trim() || "";
+    }
+    if (state === "active" || state === "activating" || state === "reloading") return "active";
+    if (state === "failed") return "failed";
+    return state ? "inactive" : "unknown";
+  }
+
+  try {
+    const output = execFileSync("launchctl", ["list", unit.name], { encoding: "utf8", stdio: ["ignore", "pipe", "pipe"] });
+    return /"PID"\s*=\s*\d+/.test(output) ? "active" : "inactive";
+  } catch (err) {
+    // Not loaded
+    return "inactive";
+  }
+}
+
+// Writes the unit file and registers it with the service manager, starting it
+// unless `start` is false
+export function installUnit(unit: InstalledUnit, content: string, start = true): void {
+  fs.ensureDirSync(path.dirname(unit.file));
+  fs.writeFileSync(unit.file, content);
+
+  if (unit.manager === "systemd") {
+    systemctl(unit.scope, ["daemon-reload"]);
+    systemctl(unit.scope, start ? ["enable", "--now", unit.name] : ["enable", unit.name]);
+    return;
+  }
+
+  if (start) {
+    execFileSync("launchctl", ["load", "-w", unit.file], { stdio: ["ignore", "pipe", "pipe"] });
+  }
+}
+
+// Stops and unregisters the unit, then deletes its file
+export function uninstallUnit(unit: InstalledUnit): void {
+  if (unit.manager === "systemd") {
+    try {
+      systemctl(unit.scope, ["disable", "--now", unit.name]);
+    } catch (err) {
+      // Already disabled or never loaded
+    }
+    fs.removeSync(unit.file);
+    systemctl(unit.scope, ["daemon-reload"]);
+    return;
+  }
+
+  try {
+    execFileSync("launchctl", ["unload", "-w", unit.file], { stdio: ["ignore", "pipe", "pipe"] });
+  } catch (err) {
+    // Not loaded
+  }
+  fs.removeSync(unit.file);
+}
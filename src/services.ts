@@ -0,0 +1,194 @@
+import fs from "fs-extra";
+import { ServiceAccess } from "./access-gateway.js";
+import { HealthCheck } from "./health.js";
+import { getGitBranch, getGitRoot, isHostnameTemplate, usesBranch } from "./hostname-template.js";
+
+// Services of a tunnel: validation of their settings, the origin URL
+// cloudflared connects to and the ingress rules that route to them
+
+export const SERVICE_TYPES = ["http", "https", "tcp", "ssh", "rdp", "unix", "hello_world", "http_status"];
+export const PORT_SERVICE_TYPES = ["http", "https", "tcp", "ssh", "rdp"];
+export const DEFAULT_PORTS: { [protocol: string]: string } = { http: "80", https: "443", ssh: "22", rdp: "3389" };
+
+export interface OriginRequest {
+  noTLSVerify?: boolean;
+  httpHostHeader?: string;
+  originServerName?: string;
+  connectTimeout?: string;
+  caPool?: string;
+}
+
+// A hostname a template service was served on, e.g. one per git branch
+export interface PreviewRoute {
+  hostname: string;
+  branch?: string;
+  // Git repository the branch belongs to
+  repo?: string;
+  createdAt: string;
+}
+
+export interface Service {
+  // May be a template such as {branch}.preview.example.com
+  hostname: string;
+  service: string;
+  path?: string;
+  originRequest?: OriginRequest;
+  healthCheck?: HealthCheck;
+  createdAt?: string;
+  updatedAt?: string;
+  protocol?: string;
+  host?: string;
+  port?: string;
+  // Hostnames a template hostname resolved to, which have DNS routes
+  previews?: PreviewRoute[];
+  // Enforced by the local access gateway of `cloudtunnel run`
+  access?: ServiceAccess;
+}
+
+// Everything needed to build the `service` field of an ingress rule
+export interface ServiceTarget {
+  protocol: string;
+  host?: string;
+  port?: string;
+  socket?: string;
+  status?: string;
+}
+
+export interface IngressRule {
+  hostname?: string;
+  path?: string;
+  service: string;
+  originRequest?: OriginRequest;
+}
+
+export function validateHostname(hostname: string): boolean {
+  const hostnameRegex = /^([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]{2,}$/;
+  return hostnameRegex.test(hostname);
+}
+
+export function validatePort(input: string): string | true {
+  const port = parseInt(input, 10);
+  if (isNaN(port) || port <= 0 || port > 65535) {
+    return "Port must be between 1 and 65535.";
+  }
+  return true;
+}
+
+export function validatePathRegex(input: string): string | true {
+  try {
+    new RegExp(input);
+    return true;
+  } catch (err: any) {
+    return `Invalid path regex: ${err.message}`;
+  }
+}
+
+export function validateServiceTarget(target: ServiceTarget): string | true {
+  if (!SERVICE_TYPES.includes(target.protocol)) {
+    return `Protocol must be one of: ${SERVICE_TYPES.join(", ")}.`;
+  }
+  
+  if (PORT_SERVICE_TYPES.includes(target.protocol)) {
+    if (!target.port) return `A port is required for ${target.protocol} services.`;
+    return validatePort(target.port);
+  }
+  
+  if (target.protocol === "unix" && !target.socket) {
+    return "A socket path is required for unix services.";
+  }
+  
+  if (target.protocol === "http_status") {
+    const code = parseInt(target.status || "", 10);
+    if (isNaN(code) || code < 100 || code > 599) {
+      return "Status code must be between 100 and 599.";
+    }
+  }
+  
+  return true;
+}
+
+export function buildServiceUrl(target: ServiceTarget): string {
+  switch (target.protocol) {
+    case "unix":
+      return `unix:${target.socket}`;
+    case "hello_world":
+      return "hello_world";
+    case "http_status":
+      return `http_status:${target.status}`;
+    default:
+      return `${target.protocol}://${target.host || "localhost"}:${target.port}`;
+  }
+}
+
+export function validateOriginRequest(originRequest: OriginRequest): string | true {
+  if (originRequest.connectTimeout && !/^\d+(ms|s|m|h)$/.test(originRequest.connectTimeout)) {
+    return "connectTimeout must be a duration such as 30s or 500ms.";
+  }
+  if (originRequest.caPool && !fs.existsSync(originRequest.caPool)) {
+    return `CA pool file not found: ${originRequest.caPool}`;
+  }
+  return true;
+}
+
+export function compactOriginRequest(originRequest: OriginRequest): OriginRequest | undefined {
+  const entries = Object.entries(originRequest).filter(([, value]) => value !== undefined && value !== "");
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+export function compactHealthCheck(healthCheck: HealthCheck): HealthCheck | undefined {
+  const entries = Object.entries(healthCheck).filter(([, value]) => value !== undefined && value !== "");
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+export function serviceKey(srv: { hostname: string; path?: string }): string {
+  return srv.path ? `${srv.hostname} ${srv.path}` : srv.hostname;
+}
+
+// cloudflared evaluates ingress rules top to bottom and uses the first match, so
+// more specific rules must come first: exact hostnames before wildcards, rules
+// with a path before the pathless rule for the same hostname, longer paths first.
+export function buildIngressRules(services: Service[]): IngressRule[] {
+  const specificity = (srv: Service) => [
+    srv.hostname.startsWith("*") ? 1 : 0,
+    srv.path ? 0 : 1,
+    -(srv.path?.length || 0),
+  ];
+  
+  const ordered = services
+    .map((srv, idx) => ({ srv, idx }))
+    .sort((a, b) => {
+      const left = specificity(a.srv);
+      const right = specificity(b.srv);
+      for (let i = 0; i < left.length; i++) {
+        if (left[i] !== right[i]) return left[i] - right[i];
+      }
+      return a.idx - b.idx;
+    })
+    .map(({ srv }) => srv);
+  
+  const rules: IngressRule[] = ordered.map(srv => ({
+    hostname: srv.hostname,
+    ...(srv.path ? { path: srv.path } : {}),
+    service: srv.service,
+    ...(srv.originRequest && Object.keys(srv.originRequest).length > 0 ? { originRequest: srv.originRequest } : {}),
+  }));
+  
+  // Catch-all rule, required by cloudflared
+  rules.push({ service: "http_status:404" });
+  return rules;
+}
+
+// Hostnames that have DNS routes for a service: its hostname, or for a
+// template every hostname it has resolved to
+export function routedHostnames(srv: Service): string[] {
+  return isHostnameTemplate(srv.hostname) ? (srv.previews || []).map(p => p.hostname) : [srv.hostname];
+}
+
+export function createPreviewRoute(template: string, hostname: string): PreviewRoute {
+  if (!usesBranch(template)) {
+    return { hostname, createdAt: new Date().toISOString() };
+  }
+  
+  const cwd = process.cwd();
+  return { hostname, branch: getGitBranch(cwd), repo: getGitRoot(cwd), createdAt: new Date().toISOString() };
+}
@@ -0,0 +1,428 @@
+import fs from "fs-extra";
+import path from "path";
+import { spawn, ChildProcess } from "child_process";
+import { isConnectorReady } from "./metrics.js";
+
+// Process state recorded for every tunnel started by cloudtunnel
+export interface TunnelProcessState {
+  tunnelId: string;
+  mode: "foreground" | "detached";
+  status: "running" | "restarting" | "failed";
+  supervisorPid: number;
+  pid?: number;
+  // Not set for quick tunnels, which run without a config file
+  configPath?: string;
+  metricsAddress?: string;
+  startedAt: string;
+  childStartedAt?: string;
+  restarts: number;
+  lastExitCode?: number | null;
+  lastExitSignal?: string | null;
+  lastExitAt?: string;
+  // Set when the process replaces its connector on SIGHUP
+  reloadable?: boolean;
+  // Outcome of the latest reload, with the time it started
+  lastReload?: { at: string; error?: string };
+}
+
+// A replacement connector, prepared by a reload
+export interface ReloadPlan {
+  args: string[];
+  configPath?: string;
+  metricsAddress: string;
+  // Called once the new connector has taken over, with the exit of the old one
+  commit?: (previousExited: Promise<void>) => void;
+  // Called when the new connector did not come up
+  abort?: () => void;
+}
+
+export interface SupervisorOptions {
+  tunnelId: string;
+  configPath?: string;
+  stateDir: string;
+  command: string;
+  args: string[];
+  // cloudflared's stdout and stderr are appended here
+  logFile?: string;
+  // Recorded in the state so `cloudtunnel top` can find the metrics server
+  metricsAddress?: string;
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  // A child that stays up this long is considered healthy and resets the backoff
+  stableAfterMs?: number;
+  // Give up after this many restarts within restartWindowMs
+  maxRestarts?: number;
+  restartWindowMs?: number;
+  // Prepares a new connector when the supervisor gets SIGHUP; resolves with
+  // null when there is nothing to change
+  reload?: () => Promise<ReloadPlan | null>;
+  // Starts watching for changes that call for a reload, e.g. of the config file
+  watch?: (reload: () => void) => void;
+  // How long a new connector may take to connect before the reload is given up
+  reloadTimeoutMs?: number;
+  onEvent?: (message: string, level: "info" | "warn" | "error") => void;
+  // Called whenever the connector exits unexpectedly, with whether the
+  // supervisor gave up on it
+  onCrash?: (exit: { code: number | null; signal: string | null; restarts: number; gaveUp: boolean }) => void;
+}
+
+export const DEFAULT_INITIAL_BACKOFF_MS = 1000;
+export const DEFAULT_MAX_BACKOFF_MS = 60_000;
+export const DEFAULT_STABLE_AFTER_MS = 60_000;
+export const DEFAULT_MAX_RESTARTS = 5;
+export const DEFAULT_RESTART_WINDOW_MS = 10 * 60_000;
+export const DEFAULT_RELOAD_TIMEOUT_MS = 30_000;
+
+export function getStatePath(stateDir: string, tunnelId: string): string {
+  return path.join(stateDir, `${tunnelId}.json`);
+}
+
+export function isProcessAlive(pid: number | undefined): boolean {
+  if (!pid) return false;
+  try {
+    // Signal 0 only checks that the process exists and we may signal it
+    process.kill(pid, 0);
+    return true;
+  } catch (err: any) {
+    return err.code === "EPERM";
+  }
+}
+
+export function readProcessState(stateDir: string, tunnelId: string): TunnelProcessState | null {
+  try {
+    return JSON.parse(fs.readFileSync(getStatePath(stateDir, tunnelId), "utf8"));
+  } catch (err) {
+    return null;
+  }
+}
+
+export function writeProcessState(stateDir: string, state: TunnelProcessState): void {
+  fs.ensureDirSync(stateDir);
+  const statePath = getStatePath(stateDir, state.tunnelId);
+  const tmpPath = `${statePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+  fs.renameSync(tmpPath, statePath);
+}
+
+export function removeProcessState(stateDir: string, tunnelId: string): void {
+  fs.removeSync(getStatePath(stateDir, tunnelId));
+}
+
+// Returns the live state for a tunnel, dropping state files left behind by
+// supervisors that died without cleaning up. Failed states are kept until the
+// tunnel is stopped or started again so the last crash can be reported.
+export function getLiveProcessState(stateDir: string, tunnelId: string): TunnelProcessState | null {
+  const state = readProcessState(stateDir, tunnelId);
+  if (!state || state.status === "failed") return state;
+  
+  if (!isProcessAlive(state.supervisorPid) && !isProcessAlive(state.pid)) {
+    removeProcessState(stateDir, tunnelId);
+    return null;
+  }
+  
+  return state;
+}
+
+export function listProcessStates(stateDir: string): TunnelProcessState[] {
+  if (!fs.existsSync(stateDir)) return [];
+  
+  return fs.readdirSync(stateDir)
+    .filter(file => file.endsWith(".json"))
+    .map(file => getLiveProcessState(stateDir, path.basename(file, ".json")))
+    .filter((state): state is TunnelProcessState => state !== null);
+}
+
+// Sends SIGTERM to the supervisor (which stops its child) and waits for both to
+// exit, escalating to SIGKILL after timeoutMs.
+export async function stopProcess(state: TunnelProcessState, stateDir: string, timeoutMs = 10_000): Promise<void> {
+  const pids = [state.supervisorPid, state.pid].filter((pid): pid is number => !!pid && pid !== process.pid);
+  
+  for (const pid of pids) {
+    try {
+      process.kill(pid, "SIGTERM");
+    } catch (err) {
+      // Already gone
+    }
+  }
+  
+  const deadline = Date.now() + timeoutMs;
+  while (pids.some(isProcessAlive) && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+  
+  for (const pid of pids.filter(isProcessAlive)) {
+    try {
+      process.kill(pid, "SIGKILL");
+    } catch (err) {
+      // Already gone
+    }
+  }
+  
+  removeProcessState(stateDir, state.tunnelId);
+}
+
+// Resolves once a connector is connected to the edge, going by the readiness
+// endpoint of its metrics server
+export async function waitForConnector(child: ChildProcess, metricsAddress: string, timeoutMs = DEFAULT_RELOAD_TIMEOUT_MS): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (!child.pid || child.exitCode !== null || child.signalCode !== null) {
+      throw new Error(`the new connector exited (${child.signalCode || `code ${child.exitCode}`})`);
+    }
+    if (await isConnectorReady(metricsAddress)) return;
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+  throw new Error(`the new connector did not connect within ${Math.round(timeoutMs / 1000)}s`);
+}
+
+// Starts the planned connector next to `current` and, once it is connected,
+// hands over to it and stops `current`. cloudflared finishes the requests it is
+// serving before it exits, so no request goes unanswered in between.
+export async function replaceConnector(
+  current: ChildProcess,
+  plan: ReloadPlan,
+  launch: (args: string[]) => ChildProcess,
+  takeOver: (replacement: ChildProcess) => void,
+  timeoutMs = DEFAULT_RELOAD_TIMEOUT_MS
+): Promise<void> {
+  const replacement = launch(plan.args);
+  try {
+    await waitForConnector(replacement, plan.metricsAddress, timeoutMs);
+  } catch (err) {
+    replacement.kill("SIGTERM");
+    plan.abort?.();
+    throw err;
+  }
+  
+  takeOver(replacement);
+  if (current.exitCode !== null || current.signalCode !== null) {
+    plan.commit?.(Promise.resolve());
+  } else {
+    plan.commit?.(new Promise(resolve => current.once("exit", () => resolve())));
+    current.kill("SIGTERM");
+  }
+}
+
+// Returns a function that requests a reload: `prepare` plans the new connector
+// and `apply` puts it in place. Reloads never overlap; one requested during
+// another runs when it is done. Each outcome is recorded in the process state,
+// where `cloudtunnel` waits for it.
+export function createReloader(
+  state: TunnelProcessState,
+  stateDir: string,
+  prepare: () => Promise<ReloadPlan | null>,
+  apply: (plan: ReloadPlan) => Promise<void>,
+  emit: (message: string, level: "info" | "warn" | "error") => void,
+  isStopping: () => boolean
+): () => void {
+  let reloading = false;
+  let pending = false;
+  
+  const reload = async () => {
+    if (reloading) {
+      pending = true;
+      return;
+    }
+    reloading = true;
+    const startedAt = new Date().toISOString();
+    
+    try {
+      const plan = await prepare();
+      if (plan && !isStopping()) {
+        await apply(plan);
+        emit(`Tunnel ${state.tunnelId} reloaded.`, "info");
+      }
+      state.lastReload = { at: startedAt };
+    } catch (err: any) {
+      state.lastReload = { at: startedAt, error: err.message };
+      emit(`Could not reload tunnel ${state.tunnelId}, the running connector was kept: ${err.message}`, "error");
+    }
+    if (!isStopping()) writeProcessState(stateDir, state);
+    
+    reloading = false;
+    if (pending && !isStopping()) {
+      pending = false;
+      reload();
+    }
+  };
+  
+  return () => {
+    reload();
+  };
+}
+
+export function computeBackoff(attempt: number, initialMs: number, maxMs: number): number {
+  return Math.min(maxMs, initialMs * 2 ** Math.max(0, attempt - 1));
+}
+
+// Runs the tunnel command in the current process, restarting it with
+// exponential backoff when it exits unexpectedly, and replacing it on SIGHUP
+// when `reload` is given. Resolves with the exit code the supervisor should
+// exit with.
+export function superviseTunnel(options: SupervisorOptions): Promise<number> {
+  const initialBackoffMs = options.initialBackoffMs ?? DEFAULT_INITIAL_BACKOFF_MS;
+  const maxBackoffMs = options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+  const stableAfterMs = options.stableAfterMs ?? DEFAULT_STABLE_AFTER_MS;
+  const maxRestarts = options.maxRestarts ?? DEFAULT_MAX_RESTARTS;
+  const restartWindowMs = options.restartWindowMs ?? DEFAULT_RESTART_WINDOW_MS;
+  const emit = options.onEvent || (() => {});
+  
+  const state: TunnelProcessState = {
+    tunnelId: options.tunnelId,
+    mode: "detached",
+    status: "running",
+    supervisorPid: process.pid,
+    configPath: options.configPath,
+    metricsAddress: options.metricsAddress,
+    startedAt: new Date().toISOString(),
+    restarts: 0,
+    reloadable: options.reload ? true : undefined,
+  };
+  
+  return new Promise((resolve) => {
+    let child: ChildProcess | null = null;
+    let args = options.args;
+    let stopping = false;
+    let attempt = 0;
+    let restartTimer: NodeJS.Timeout | null = null;
+    const restartTimes: number[] = [];
+    // Includes a connector started by a reload until it takes over
+    const connectors = new Set<ChildProcess>();
+    
+    const finish = (code: number) => {
+      process.off("SIGTERM", shutdown);
+      process.off("SIGINT", shutdown);
+      if (reload) process.off("SIGHUP", reload);
+      if (state.status === "failed") {
+        // Keep the state around so `status` can explain what happened
+        state.pid = undefined;
+        writeProcessState(options.stateDir, state);
+      } else {
+        removeProcessState(options.stateDir, options.tunnelId);
+      }
+      resolve(code);
+    };
+    
+    const launch = (connectorArgs: string[]): ChildProcess => {
+      const childStartedAt = Date.now();
+      let exited = false;
+      
+      let output: number | "ignore" = "ignore";
+      if (options.logFile) {
+        fs.ensureFileSync(options.logFile);
+        output = fs.openSync(options.logFile, "a");
+      }
+      
+      const connector = spawn(options.command, connectorArgs, { stdio: ["ignore", output, output] });
+      if (typeof output === "number") fs.closeSync(output);
+      connectors.add(connector);
+      
+      const onExit = (code: number | null, signal: NodeJS.Signals | null) => {
+        // "exit" may or may not follow "error", so only handle the first one
+        if (exited) return;
+        exited = true;
+        connectors.delete(connector);
+        // Connectors replaced by a reload, or that never took over, are not restarted
+        if (connector !== child) return;
+        
+        child = null;
+        state.pid = undefined;
+        state.lastExitCode = code;
+        state.lastExitSignal = signal;
+        state.lastExitAt = new Date().toISOString();
+        
+        if (stopping) {
+          finish(0);
+          return;
+        }
+        
+        const now = Date.now();
+        if (now - childStartedAt >= stableAfterMs) {
+          attempt = 0;
+        }
+        
+        while (restartTimes.length > 0 && now - restartTimes[0] > restartWindowMs) {
+          restartTimes.shift();
+        }
+        
+        if (restartTimes.length >= maxRestarts) {
+          state.status = "failed";
+          emit(`Tunnel ${options.tunnelId} crashed ${restartTimes.length + 1} times within ${Math.round(restartWindowMs / 1000)}s, giving up.`, "error");
+          options.onCrash?.({ code, signal, restarts: state.restarts, gaveUp: true });
+          finish(1);
+          return;
+        }
+        
+        attempt++;
+        restartTimes.push(now);
+        state.restarts++;
+        state.status = "restarting";
+        writeProcessState(options.stateDir, state);
+        
+        const delay = computeBackoff(attempt, initialBackoffMs, maxBackoffMs);
+        emit(`Tunnel ${options.tunnelId} exited (${signal || `code ${code}`}), restarting in ${delay}ms.`, "warn");
+        options.onCrash?.({ code, signal, restarts: state.restarts, gaveUp: false });
+        restartTimer = setTimeout(start, delay);
+      };
+      
+      connector.on("error", (err) => {
+        emit(`Failed to start ${options.command}: ${err.message}`, "error");
+        if (connector.pid === undefined) onExit(null, null);
+      });
+      connector.on("exit", onExit);
+      return connector;
+    };
+    
+    const takeOver = (connector: ChildProcess) => {
+      // A reload can finish while a crashed connector waits to be restarted
+      if (restartTimer) {
+        clearTimeout(restartTimer);
+        restartTimer = null;
+      }
+      child = connector;
+      state.pid = connector.pid;
+      state.status = "running";
+      state.childStartedAt = new Date().toISOString();
+      writeProcessState(options.stateDir, state);
+    };
+    
+    const start = () => {
+      restartTimer = null;
+      takeOver(launch(args));
+    };
+    
+    const reload = options.reload && createReloader(state, options.stateDir, options.reload, async (plan) => {
+      const current = child;
+      // While waiting to restart, the restart picks up the new connector
+      if (current) {
+        await replaceConnector(current, plan, launch, takeOver, options.reloadTimeoutMs);
+      } else {
+        plan.commit?.(Promise.resolve());
+      }
+      args = plan.args;
+      state.configPath = plan.configPath;
+      state.metricsAddress = plan.metricsAddress;
+    }, emit, () => stopping);
+    
+    const shutdown = () => {
+      stopping = true;
+      if (restartTimer) {
+        clearTimeout(restartTimer);
+        finish(0);
+      } else if (child) {
+        connectors.forEach(connector => connector.kill("SIGTERM"));
+      } else {
+        finish(0);
+      }
+    };
+    
+    process.on("SIGTERM", shutdown);
+    process.on("SIGINT", shutdown);
+    if (reload) {
+      process.on("SIGHUP", reload);
+      options.watch?.(reload);
+    }
+    
+    start();
+  });
+}
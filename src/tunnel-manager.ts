@@ -0,0 +1,2011 @@
+import { ChildProcess, ExecSyncOptions, spawn } from "child_process";
+import fs from "fs-extra";
+import http from "http";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import YAML from "yaml";
+import { GatewaySpec, ServiceAccess, isProtected, startAccessGateway } from "./access-gateway.js";
+import { CloudflareClient, DEFAULT_API_BASE_URL, DnsConflictError, DnsRecord, Zone, tunnelTarget } from "./cloudflare.js";
+import { ConfigLockError, ConfigValidationError, acquireLock, createBackup, validateConfig, writeFileAtomic } from "./config-store.js";
+import { ContextPaths, getCloudtunnelHome, getContextPaths, resolveContextName } from "./contexts.js";
+import { CheckResult, applyRepairs, runDoctor } from "./doctor.js";
+import { ExitCode } from "./exit-codes.js";
+import {
+  DEFAULT_HEALTH_INTERVAL,
+  DEFAULT_HEALTH_TIMEOUT,
+  HealthCheck,
+  HealthResult,
+  checkHttp,
+  checkTcp,
+  parseDuration,
+  validateHealthCheck,
+} from "./health.js";
+import { Hook, HookEvent, HookPayload, hookMatches, newDeliveryId, newHookId, validateHook } from "./hooks.js";
+import { expandHostname, isHostnameTemplate } from "./hostname-template.js";
+import { Capture, InspectorSpec, startInspector } from "./inspector.js";
+import { LogFields, LoggerLevel, execSyncLogged } from "./logger.js";
+import { Manifest } from "./manifest.js";
+import { findFreePort } from "./metrics.js";
+import { ConfigVersionError, Migration, migrateConfig } from "./migrations.js";
+import {
+  InstalledUnit,
+  UnitState,
+  findInstalledUnit,
+  getServiceManager,
+  getUnitState,
+  installUnit,
+  uninstallUnit,
+} from "./service-unit.js";
+import {
+  DEFAULT_PORTS,
+  OriginRequest,
+  PORT_SERVICE_TYPES,
+  Service,
+  buildIngressRules,
+  buildServiceUrl,
+  compactHealthCheck,
+  compactOriginRequest,
+  createPreviewRoute,
+  routedHostnames,
+  serviceKey,
+  validateHostname,
+  validateOriginRequest,
+  validatePathRegex,
+  validateServiceTarget,
+} from "./services.js";
+import {
+  DEFAULT_RELOAD_TIMEOUT_MS,
+  ReloadPlan,
+  TunnelProcessState,
+  createReloader,
+  getLiveProcessState,
+  readProcessState,
+  removeProcessState,
+  replaceConnector,
+  stopProcess,
+  superviseTunnel,
+  writeProcessState,
+} from "./supervisor.js";
+
+// The tunnels and services of one context, the cloudflared config generated
+// for them and the connectors started for it. The CLI is built on this; it can
+// also be used from Node code, where failures are thrown as TunnelError with
+// the exit code the CLI would use.
+
+export const CONFIG_VERSION = "2.1.0";
+
+// cloudflared always saves a new login here, whatever --origincert says
+const CLOUDFLARED_CERT_FILE = path.join(os.homedir(), ".cloudflared", "cert.pem");
+
+// Detached tunnels are supervised by the CLI next to this module (bin.js, or
+// bin.ts when run from source)
+const CLI_ENTRY = fileURLToPath(new URL(`./bin${path.extname(fileURLToPath(import.meta.url))}`, import.meta.url));
+
+// A tunnel in the Cloudflare account, as listed by `cloudflared tunnel list`
+export interface RemoteTunnel {
+  id: string;
+  name: string;
+  created_at?: string;
+  connections?: any[];
+  status?: string;
+}
+
+export interface TunnelEntry {
+  tunnelName: string;
+  tunnelId: string;
+  services: Service[];
+  createdAt: string;
+  lastUsed?: string;
+  hooks?: Hook[];
+}
+
+export interface Config {
+  version: string;
+  activeTunnel?: string;
+  cloudflare?: {
+    apiToken?: string;
+    apiBaseUrl?: string;
+  };
+  // Hooks for every tunnel of the context
+  hooks?: Hook[];
+  tunnels: {
+    [tunnelId: string]: TunnelEntry;
+  };
+}
+
+export type TunnelStatus = "running" | "stopped" | "unknown";
+
+// A new service, described like the options of `cloudtunnel add`
+export interface ServiceInput {
+  // May be a template such as {branch}.preview.example.com
+  hostname: string;
+  // Defaults to http
+  protocol?: string;
+  host?: string;
+  // Defaults to the protocol's usual port
+  port?: string;
+  socket?: string;
+  status?: string;
+  path?: string;
+  originRequest?: OriginRequest;
+  healthCheck?: HealthCheck;
+  // With secrets hashed by hashSecret
+  access?: ServiceAccess;
+}
+
+export interface StartOptions {
+  // Serve HTTP services through inspecting proxies that record their traffic
+  inspect?: { bodyLimit: number };
+  // Reload the tunnel whenever the config file changes
+  watch?: boolean;
+}
+
+// How a tunnel is about to be run: its generated config and local proxies
+export interface RunPlan {
+  tunnelId: string;
+  configPath: string;
+  metricsAddress: string;
+  inspectors: InspectorSpec[];
+  gateways: GatewaySpec[];
+  inspectBodyLimit?: number;
+  // Arguments for cloudflared
+  args: string[];
+}
+
+export interface StartResult extends RunPlan {
+  supervisorPid?: number;
+}
+
+// What applyManifest did to bring a tunnel in line with a manifest
+export interface ManifestResult {
+  // As saved, including changes made meanwhile by others
+  config: Config;
+  tunnel: TunnelEntry;
+  // Where the tunnel came from: the config, the Cloudflare account or a new tunnel
+  source: "configured" | "reused" | "created";
+  added: Service[];
+  updated: Service[];
+  // Configured but not declared in the manifest; removed if `pruned`
+  undeclared: Service[];
+  pruned: boolean;
+}
+
+export type ImportStrategy = "merge" | "replace" | "skip";
+
+// What an import does to one tunnel
+export interface ImportChange {
+  tunnelId: string;
+  tunnelName: string;
+  action: "add" | ImportStrategy;
+  // Service keys (hostname and path)
+  added: string[];
+  updated: string[];
+  removed: string[];
+}
+
+export interface ImportPlan {
+  changes: ImportChange[];
+  activeTunnel?: string;
+  // Hostnames served by more than one tunnel after the import
+  conflicts: Array<{ hostname: string; tunnelIds: string[] }>;
+  missingCredentials: string[];
+  result: Config;
+}
+
+// A DNS record pointing at a tunnel, as listed by listTunnelDnsRecords
+export interface TunnelDnsRecord {
+  record: DnsRecord & { zone: Zone; tunnelId: string };
+  // Of the tunnel in the config, if it is there
+  tunnelName?: string;
+  state: "ok" | "unconfigured" | "orphaned";
+}
+
+// What deleteTunnel removes
+export interface DeletePlan {
+  tunnelId: string;
+  tunnelName: string;
+  // The config entry; null for a tunnel that only exists in Cloudflare
+  local: TunnelEntry | null;
+  // The tunnel in the Cloudflare account, if it is still there
+  remote: RemoteTunnel | null;
+  processState: TunnelProcessState | null;
+  unit: (InstalledUnit & { state: UnitState }) | null;
+  // Hostnames whose DNS records are deleted
+  hostnames: string[];
+  files: string[];
+}
+
+export interface DeleteResult {
+  deletedInCloudflare: boolean;
+  // Why Cloudflare refused, when deleting with `force`
+  cloudflareError?: string;
+  // Whether it was the active tunnel, and the tunnel active now
+  wasActive: boolean;
+  activeTunnel: string | null;
+}
+
+export interface AttachOptions extends StartOptions {
+  // Called with each request the inspecting proxies record
+  onCapture?: (capture: Capture) => void;
+  // cloudflared's output, which is kept in the tunnel log either way
+  onOutput?: (chunk: Buffer, stream: "stdout" | "stderr") => void;
+}
+
+export interface ConnectorOptions {
+  // Recorded in the process state, e.g. for `cloudtunnel top`
+  configPath?: string;
+  metricsAddress?: string;
+  onOutput?: (chunk: Buffer, stream: "stdout" | "stderr") => void;
+  // Aborting it stops cloudflared, for callers that own its lifetime
+  signal?: AbortSignal;
+  // Prepares a new connector on SIGHUP; resolves with null when there is
+  // nothing to change
+  reload?: () => Promise<ReloadPlan | null>;
+  // Also reload when the config file changes
+  watch?: boolean;
+}
+
+// What a detached supervisor runs, as passed on by startSupervisor
+export interface SuperviseOptions {
+  // Generated config of a configured tunnel
+  configPath?: string;
+  // Origin of a quick tunnel, which has no config
+  url?: string;
+  metricsAddress?: string;
+  inspectors?: InspectorSpec[];
+  inspectBodyLimit?: number;
+  gateways?: GatewaySpec[];
+  watch?: boolean;
+}
+
+export type StopResult =
+  | "stopped"
+  // Not started by cloudtunnel on this machine
+  | "not-running"
+  // Its supervisor had already given up after repeated crashes
+  | "crashed"
+  // Kept running by a service unit, which would restart it
+  | "service";
+
+export type ReloadResult =
+  // Now served by a connector for the current config
+  | "reloaded"
+  | "not-running"
+  // Run by a service unit, which has to be restarted; its config was regenerated
+  | "service"
+  // Run by a process that cannot reload, e.g. `cloudtunnel dev`
+  | "restart-required";
+
+export interface TunnelManagerOptions {
+  // Defaults to CLOUDTUNNEL_HOME or ~/.cloudflared
+  home?: string;
+  // Defaults to the current context, as selected by `cloudtunnel context use`
+  context?: string;
+  // Receives progress messages and warnings, e.g. about DNS records, and at
+  // debug level the cloudflared commands run with their output
+  log?: (message: string, level: LoggerLevel, fields?: LogFields) => void;
+}
+
+export class TunnelError extends Error {
+  constructor(message: string, public code: ExitCode = ExitCode.ERROR, public hint?: string) {
+    super(message);
+    this.name = "TunnelError";
+  }
+}
+
+export function parseConfigFile(file: string): any {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (err: any) {
+    throw new ConfigValidationError(file, [{ path: "(root)", message: `invalid JSON: ${err.message}` }]);
+  }
+}
+
+// Parses a config file and brings it up to CONFIG_VERSION in memory. Throws
+// ConfigValidationError with the offending fields if it is broken, and
+// ConfigVersionError if it cannot be migrated.
+export function readConfigFile(file: string): { config: Config; fromVersion: string; applied: Migration[] } {
+  const result = migrateConfig(parseConfigFile(file), CONFIG_VERSION);
+  
+  const issues = validateConfig(result.config);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(file, issues);
+  }
+  return result;
+}
+
+// Accepts the output of `export` (full config) or `export --tunnel` (a single
+// tunnel entry) and brings it to the current config format
+export function readImportFile(file: string): Config {
+  let data = parseConfigFile(file);
+  if (data && data.tunnelId && data.tunnelName && Array.isArray(data.services)) {
+    // Single tunnel exports carry no version; 2.0.0 is the oldest format with
+    // tunnel entries, and migrating from it leaves newer entries unchanged
+    data = { version: "2.0.0", tunnels: { [data.tunnelId]: data } };
+  }
+  
+  const { config } = migrateConfig(data, CONFIG_VERSION);
+  const issues = validateConfig(config);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(file, issues);
+  }
+  return config;
+}
+
+export function getActiveTunnel(config: Config): TunnelEntry | null {
+  if (!config.activeTunnel || !config.tunnels[config.activeTunnel]) {
+    return null;
+  }
+  return config.tunnels[config.activeTunnel];
+}
+
+export function findTunnelByName(config: Config, name: string): TunnelEntry | null {
+  return Object.values(config.tunnels).find(t => t.tunnelName === name) || null;
+}
+
+// A tunnel by ID or name, or the active tunnel when no reference is given
+export function resolveTunnel(config: Config, ref?: string): TunnelEntry | null {
+  if (!ref) return getActiveTunnel(config);
+  return config.tunnels[ref] || findTunnelByName(config, ref);
+}
+
+// Fills in the variables of a hostname template for the current directory and
+// environment. Plain hostnames are returned as they are.
+export function resolveHostname(hostname: string): string {
+  if (!isHostnameTemplate(hostname)) return hostname;
+  
+  let resolved: string;
+  try {
+    resolved = expandHostname(hostname);
+  } catch (err: any) {
+    throw new TunnelError(err.message, ExitCode.USAGE);
+  }
+  if (!validateHostname(resolved)) {
+    throw new TunnelError(`${hostname} expands to an invalid hostname: ${resolved}`, ExitCode.USAGE);
+  }
+  return resolved;
+}
+
+// Validates a new service and builds its config entry
+export function buildService(input: ServiceInput): Service {
+  const protocol = input.protocol || "http";
+  const target = {
+    protocol,
+    host: input.host,
+    port: input.port ?? DEFAULT_PORTS[protocol],
+    socket: input.socket,
+    status: input.status,
+  };
+  
+  if (!isHostnameTemplate(input.hostname) && !validateHostname(input.hostname)) {
+    throw new TunnelError(`Invalid hostname: ${input.hostname}`, ExitCode.USAGE);
+  }
+  const resolvedHostname = resolveHostname(input.hostname);
+  const originRequest = input.originRequest && compactOriginRequest(input.originRequest);
+  const healthCheck = input.healthCheck && compactHealthCheck(input.healthCheck);
+  
+  const errors = [
+    validateServiceTarget(target),
+    input.path !== undefined ? validatePathRegex(input.path) : true,
+    originRequest ? validateOriginRequest(originRequest) : true,
+    healthCheck ? validateHealthCheck(healthCheck) : true,
+  ].filter((result): result is string => result !== true);
+  if (errors.length > 0) {
+    throw new TunnelError(errors[0], ExitCode.USAGE);
+  }
+  if (isProtected(input.access) && protocol !== "http" && protocol !== "https") {
+    throw new TunnelError("Access protection only works for http and https services.", ExitCode.USAGE);
+  }
+  
+  return {
+    hostname: input.hostname,
+    service: buildServiceUrl(target),
+    path: input.path,
+    originRequest,
+    healthCheck,
+    protocol,
+    host: target.host,
+    port: PORT_SERVICE_TYPES.includes(protocol) ? target.port : undefined,
+    previews: isHostnameTemplate(input.hostname) ? [createPreviewRoute(input.hostname, resolvedHostname)] : undefined,
+    access: isProtected(input.access) ? input.access : undefined,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export class TunnelManager {
+  readonly home: string;
+  readonly context: string;
+  readonly paths: ContextPaths;
+  private log: NonNullable<TunnelManagerOptions["log"]>;
+  // Nesting depth of withConfigLock, so loadConfig can save a migrated config
+  // while updateConfig already holds the lock
+  private configLockDepth = 0;
+  
+  constructor(options: TunnelManagerOptions = {}) {
+    this.home = options.home ? path.resolve(options.home) : getCloudtunnelHome();
+    this.context = options.context || resolveContextName(this.home);
+    this.paths = getContextPaths(this.home, this.context);
+    this.log = options.log || (() => {});
+  }
+  
+  private exec(command: string, options: ExecSyncOptions): Buffer {
+    return execSyncLogged(command, options, this.log);
+  }
+  
+  // Command line for `cloudflared tunnel <args>` using the context's account
+  cloudflaredTunnel(args: string): string {
+    return `cloudflared tunnel --origincert "${this.paths.certFile}" ${args}`;
+  }
+  
+  // Arguments for spawning `cloudflared tunnel <args>` using the context's account
+  cloudflaredTunnelArgs(args: string[]): string[] {
+    return ["tunnel", "--origincert", this.paths.certFile, ...args];
+  }
+  
+  // What `cloudflared --version` reports, or null when it is not installed
+  getCloudflaredVersion(): string | null {
+    try {
+      return this.exec("cloudflared --version 2>&1", {}).toString().trim();
+    } catch (err) {
+      return null;
+    }
+  }
+  
+  // Full path of cloudflared, for service managers, which do not search PATH
+  // the way a shell does
+  findCloudflaredPath(): string {
+    try {
+      return this.exec("command -v cloudflared", { shell: "/bin/sh", stdio: ["ignore", "pipe", "ignore"] }).toString().trim();
+    } catch (err) {
+      throw new TunnelError("Could not find the cloudflared executable.", ExitCode.PREREQUISITE);
+    }
+  }
+  
+  isCloudflaredInstalled(): boolean {
+    try {
+      this.exec("cloudflared --version", { stdio: "ignore" });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+  
+  ensureCloudflaredInstalled(): void {
+    if (!this.isCloudflaredInstalled()) {
+      throw new TunnelError("Error: cloudflared is not installed or not in the PATH.", ExitCode.PREREQUISITE, [
+        "Please install cloudflared using one of the following methods:",
+        "  macOS: brew install cloudflare/cloudflare/cloudflared",
+        "  Windows: choco install cloudflared",
+        "  Linux: See https://developers.cloudflare.com/cloudflare-one/connections/connect-apps/install-and-setup/installation",
+      ].join("\n"));
+    }
+  }
+  
+  isLoggedIn(): boolean {
+    return fs.existsSync(this.paths.certFile);
+  }
+  
+  ensureLoggedIn(): void {
+    if (!this.isLoggedIn()) {
+      throw new TunnelError("Error: You need to log in to Cloudflare first.", ExitCode.PREREQUISITE, "Please run 'cloudtunnel login' before continuing.");
+    }
+  }
+  
+  // Runs `cloudflared tunnel login`, which opens a browser. cloudflared saves
+  // the cert of a new login to ~/.cloudflared/cert.pem and refuses to overwrite
+  // one there, so for any other context the existing cert is moved aside while
+  // logging in and the new one moved into the context.
+  login(): void {
+    const certFile = this.paths.certFile;
+    if (certFile === CLOUDFLARED_CERT_FILE) {
+      this.exec("cloudflared tunnel login", { stdio: "inherit" });
+      return;
+    }
+    
+    const aside = `${CLOUDFLARED_CERT_FILE}.cloudtunnel-${process.pid}`;
+    const hadCert = fs.existsSync(CLOUDFLARED_CERT_FILE);
+    if (hadCert) fs.moveSync(CLOUDFLARED_CERT_FILE, aside);
+    try {
+      this.exec("cloudflared tunnel login", { stdio: "inherit" });
+      if (fs.existsSync(CLOUDFLARED_CERT_FILE)) {
+        fs.ensureDirSync(this.paths.dir);
+        fs.moveSync(CLOUDFLARED_CERT_FILE, certFile, { overwrite: true });
+      }
+    } finally {
+      if (hadCert) fs.moveSync(aside, CLOUDFLARED_CERT_FILE, { overwrite: true });
+    }
+  }
+  
+  loadConfig(): Config {
+    const configFile = this.paths.configFile;
+    if (!fs.existsSync(configFile)) {
+      return { version: CONFIG_VERSION, tunnels: {} };
+    }
+    
+    try {
+      const { config, fromVersion, applied } = readConfigFile(configFile);
+      if (applied.length === 0) return config;
+      
+      // Migrate once: save the result so later commands read the new format
+      this.withConfigLock(() => {
+        const current = readConfigFile(configFile);
+        if (current.applied.length > 0) this.saveConfig(current.config);
+      });
+      this.log(`Migrated config from version ${fromVersion} to ${CONFIG_VERSION} (previous version saved in ${this.paths.backupDir}).`, "info");
+      return config;
+    } catch (err) {
+      if (!(err instanceof ConfigValidationError) && !(err instanceof ConfigVersionError)) throw err;
+      // Never fall back to an empty config: the next save would wipe every tunnel
+      throw new TunnelError(
+        err instanceof ConfigVersionError ? `${configFile}: ${err.message}` : err.message,
+        ExitCode.CONFIG,
+        "Fix the file by hand or roll back with 'cloudtunnel config restore'."
+      );
+    }
+  }
+  
+  // Backs up the current file, then replaces it atomically. Callers must hold
+  // the config lock; use updateConfig instead of calling this directly.
+  private saveConfig(config: Config): void {
+    const issues = validateConfig(config);
+    if (issues.length > 0) {
+      throw new ConfigValidationError(this.paths.configFile, issues);
+    }
+    
+    createBackup(this.paths.configFile, this.paths.backupDir);
+    writeFileAtomic(this.paths.configFile, JSON.stringify(config, null, 2));
+  }
+  
+  withConfigLock<T>(fn: () => T): T {
+    if (this.configLockDepth > 0) {
+      return fn();
+    }
+    
+    let release: () => void;
+    try {
+      release = acquireLock(this.paths.lockFile);
+    } catch (err) {
+      if (!(err instanceof ConfigLockError)) throw err;
+      throw new TunnelError(`${err.message}. Is another cloudtunnel command running?`, ExitCode.CONFIG);
+    }
+    
+    this.configLockDepth++;
+    try {
+      return fn();
+    } finally {
+      this.configLockDepth--;
+      release();
+    }
+  }
+  
+  // Read-modify-write under the config lock. The mutation is applied to a fresh
+  // copy of the file, so changes made by another process since the config was
+  // loaded are kept.
+  updateConfig(mutate: (config: Config) => void): Config {
+    return this.withConfigLock(() => {
+      const config = this.loadConfig();
+      mutate(config);
+      this.saveConfig(config);
+      return config;
+    });
+  }
+  
+  // Like resolveTunnel, but fails with NOT_FOUND
+  requireTunnel(config: Config, ref?: string): TunnelEntry {
+    const tunnel = resolveTunnel(config, ref);
+    if (!tunnel) {
+      throw new TunnelError(ref ? `Tunnel not found: ${ref}` : "No active tunnel. Run 'cloudtunnel init' first.", ExitCode.NOT_FOUND);
+    }
+    return tunnel;
+  }
+  
+  listRemoteTunnels(): RemoteTunnel[] {
+    try {
+      return JSON.parse(this.exec(this.cloudflaredTunnel("list --output json"), { stdio: "pipe" }).toString()) as RemoteTunnel[];
+    } catch (err: any) {
+      throw new TunnelError(`Could not list tunnels: ${err.stderr?.toString().trim() || err.message}`, ExitCode.CLOUDFLARE);
+    }
+  }
+  
+  getTunnelStatus(tunnelId: string): TunnelStatus {
+    // Tunnels started by cloudtunnel on this machine have a recorded process
+    const state = getLiveProcessState(this.paths.stateDir, tunnelId);
+    if (state && state.status !== "failed") {
+      return "running";
+    }
+    if (this.getServiceUnit(tunnelId)?.state === "active") {
+      return "running";
+    }
+    
+    try {
+      const tunnel = this.listRemoteTunnels().find(t => t.id === tunnelId);
+      if (!tunnel) return "unknown";
+      
+      // Check if tunnel has active connections (possibly from another machine)
+      if (tunnel.connections && tunnel.connections.length > 0) {
+        return "running";
+      }
+      
+      return "stopped";
+    } catch (error) {
+      return "unknown";
+    }
+  }
+  
+  // The systemd or launchd unit installed for a tunnel by 'cloudtunnel service install'
+  getServiceUnit(tunnelId: string): (InstalledUnit & { state: UnitState }) | null {
+    const manager = getServiceManager();
+    const unit = manager && findInstalledUnit(manager, tunnelId);
+    return unit ? { ...unit, state: getUnitState(unit) } : null;
+  }
+  
+  // What keeps a tunnel running on this machine, if anything
+  getManagedBy(tunnelId: string): "service" | "detached" | "foreground" | null {
+    const state = getLiveProcessState(this.paths.stateDir, tunnelId);
+    if (state && state.status !== "failed") return state.mode;
+    return this.getServiceUnit(tunnelId)?.state === "active" ? "service" : null;
+  }
+  
+  // Checks that a service's target answers: its health check for HTTP(S)
+  // services that have one, otherwise a TCP connect, or for unix sockets that
+  // the socket exists. Null for targets served by cloudflared itself.
+  async checkService(srv: Service): Promise<HealthResult | null> {
+    if (srv.protocol === "unix") {
+      const socketPath = srv.service.replace(/^unix(\+tls)?:/, "");
+      const exists = fs.existsSync(socketPath);
+      return {
+        healthy: exists,
+        checkedAt: new Date().toISOString(),
+        latencyMs: 0,
+        error: exists ? undefined : `Socket ${socketPath} does not exist`,
+      };
+    }
+    
+    if (!srv.port) {
+      // hello_world and http_status are served by cloudflared itself
+      return null;
+    }
+    
+    const host = srv.host || "localhost";
+    if (srv.healthCheck && (srv.protocol === "http" || srv.protocol === "https")) {
+      return checkHttp(`${srv.protocol}://${host}:${srv.port}`, srv.healthCheck);
+    }
+    
+    return checkTcp(host, parseInt(srv.port), parseDuration(srv.healthCheck?.timeout || DEFAULT_HEALTH_TIMEOUT));
+  }
+  
+  // Creates the tunnel in Cloudflare, saves its credentials in the context and
+  // makes it the active tunnel
+  createTunnel(tunnelName: string): TunnelEntry {
+    // The ID is only known afterwards, so the credentials are moved in place below
+    fs.ensureDirSync(this.paths.dir);
+    const credentialsTemp = path.join(this.paths.dir, `.new-tunnel-${process.pid}.json`);
+    let output: string;
+    try {
+      output = this.exec(this.cloudflaredTunnel(`create --credentials-file "${credentialsTemp}" ${tunnelName}`), { stdio: "pipe" }).toString();
+    } catch (err: any) {
+      const reason = err.stderr?.toString().trim() || err.message;
+      if (reason.includes("already exists")) {
+        throw new TunnelError(`A tunnel named ${tunnelName} already exists.`, ExitCode.CONFLICT);
+      }
+      throw new TunnelError(`Error creating tunnel: ${reason}`, ExitCode.CLOUDFLARE);
+    }
+    
+    const match = output.match(/Created tunnel .* with id ([a-f0-9-]+)/i);
+    if (!match || !match[1]) {
+      throw new TunnelError("Failed to parse tunnel ID from output.", ExitCode.CLOUDFLARE);
+    }
+    
+    const tunnelId = match[1];
+    if (fs.existsSync(credentialsTemp)) {
+      fs.moveSync(credentialsTemp, path.join(this.paths.dir, `${tunnelId}.json`), { overwrite: true });
+    }
+    const entry: TunnelEntry = {
+      tunnelName,
+      tunnelId,
+      services: [],
+      createdAt: new Date().toISOString(),
+      lastUsed: new Date().toISOString(),
+    };
+    this.updateConfig(fresh => {
+      fresh.tunnels[tunnelId] = entry;
+      fresh.activeTunnel = tunnelId;
+    });
+    return entry;
+  }
+  
+  // API access is optional: without a token, DNS routes are created through
+  // cloudflared and cannot be updated or deleted.
+  getCloudflareClient(config: Config): CloudflareClient | null {
+    const apiToken = process.env.CLOUDFLARE_API_TOKEN || config.cloudflare?.apiToken;
+    if (!apiToken) return null;
+    
+    const baseUrl = process.env.CLOUDFLARE_API_BASE_URL || config.cloudflare?.apiBaseUrl || DEFAULT_API_BASE_URL;
+    return new CloudflareClient(apiToken, baseUrl);
+  }
+  
+  // Like getCloudflareClient, but fails with PREREQUISITE without a token
+  requireCloudflareClient(config: Config): CloudflareClient {
+    const client = this.getCloudflareClient(config);
+    if (!client) {
+      throw new TunnelError("No Cloudflare API token configured.", ExitCode.PREREQUISITE, "Run 'cloudtunnel dns token' or set CLOUDFLARE_API_TOKEN.");
+    }
+    return client;
+  }
+  
+  // Checks an API token against the Cloudflare API and saves it in the
+  // context's config. Returns the number of zones it can access.
+  async saveApiToken(apiToken: string, baseUrl?: string): Promise<number> {
+    const client = new CloudflareClient(apiToken, baseUrl || DEFAULT_API_BASE_URL);
+    let zones: Zone[];
+    try {
+      zones = await client.listZones();
+    } catch (err: any) {
+      throw new TunnelError(`Could not verify token: ${err.message}`, ExitCode.CLOUDFLARE);
+    }
+    
+    this.updateConfig(fresh => {
+      fresh.cloudflare = { apiToken, apiBaseUrl: baseUrl };
+    });
+    return zones.length;
+  }
+  
+  clearApiToken(): void {
+    this.updateConfig(fresh => {
+      delete fresh.cloudflare;
+    });
+  }
+  
+  // DNS records in the account's zones that point at tunnels, with how each
+  // relates to the config: ok, pointing at a tunnel without a service for
+  // the hostname (unconfigured), or at a tunnel that no longer exists
+  // (orphaned)
+  async listTunnelDnsRecords(): Promise<TunnelDnsRecord[]> {
+    const config = this.loadConfig();
+    const client = this.requireCloudflareClient(config);
+    
+    try {
+      const records = await client.listTunnelRecords();
+      
+      // Tunnels that still exist, per account
+      const accountTunnels = new Map<string, Set<string>>();
+      for (const record of records) {
+        const accountId = record.zone.account.id;
+        if (!accountTunnels.has(accountId)) {
+          const tunnels = await client.listTunnels(accountId);
+          accountTunnels.set(accountId, new Set(tunnels.map(t => t.id)));
+        }
+      }
+      
+      return records.map(record => {
+        const tunnel = config.tunnels[record.tunnelId];
+        const exists = accountTunnels.get(record.zone.account.id)!.has(record.tunnelId);
+        const configured = !!tunnel?.services.some(s => routedHostnames(s).includes(record.name));
+        const state: TunnelDnsRecord["state"] = !exists ? "orphaned" : configured ? "ok" : "unconfigured";
+        return { record, tunnelName: tunnel?.tunnelName, state };
+      });
+    } catch (err: any) {
+      throw new TunnelError(`Error listing DNS records: ${err.message}`, ExitCode.CLOUDFLARE);
+    }
+  }
+  
+  async deleteTunnelDnsRecord(entry: TunnelDnsRecord): Promise<void> {
+    const client = this.requireCloudflareClient(this.loadConfig());
+    try {
+      await client.deleteDnsRecord(entry.record.zone.id, entry.record.id);
+    } catch (err: any) {
+      throw new TunnelError(`Could not delete the DNS record for ${entry.record.name}: ${err.message}`, ExitCode.CLOUDFLARE);
+    }
+  }
+  
+  async routeDns(config: Config, tunnelId: string, hostname: string, force?: boolean): Promise<boolean> {
+    const client = this.getCloudflareClient(config);
+    
+    if (client) {
+      try {
+        const action = await client.ensureTunnelRecord(hostname, tunnelId, force);
+        this.log(`DNS record for ${hostname} ${action} (CNAME → ${tunnelTarget(tunnelId)})`, "info");
+        return true;
+      } catch (err: any) {
+        if (err instanceof DnsConflictError) {
+          this.log(`Warning: ${err.message}.`, "warn");
+          this.log("Use --force-dns to replace the existing record(s) with the tunnel CNAME.", "warn");
+        } else {
+          this.log(`Warning: DNS record creation failed: ${err.message}`, "warn");
+        }
+        return false;
+      }
+    }
+    
+    try {
+      this.log(`Creating DNS route for ${hostname}...`, "info");
+      this.exec(this.cloudflaredTunnel(`route dns ${tunnelId} ${hostname}`), {
+        stdio: "inherit",
+      });
+      return true;
+    } catch (err: any) {
+      this.log(`Warning: DNS route creation failed: ${err.message}`, "warn");
+      return false;
+    }
+  }
+  
+  async unrouteDns(config: Config, tunnelId: string, hostname: string): Promise<void> {
+    const client = this.getCloudflareClient(config);
+    
+    if (!client) {
+      this.log(`Note: DNS record for ${hostname} was not removed (no Cloudflare API token configured).`, "warn");
+      this.log("Run 'cloudtunnel dns token' to let cloudtunnel manage DNS records.", "warn");
+      return;
+    }
+    
+    try {
+      if (await client.deleteTunnelRecord(hostname, tunnelId)) {
+        this.log(`DNS record for ${hostname} deleted.`, "info");
+      } else {
+        this.log(`No DNS record for ${hostname} points at this tunnel.`, "info");
+      }
+    } catch (err: any) {
+      this.log(`Warning: DNS record deletion failed: ${err.message}`, "warn");
+    }
+  }
+  
+  // Adds a service to a tunnel (ID or name, or the active tunnel) and routes
+  // DNS for its hostname. A failed DNS route is reported, not thrown: the
+  // service is saved either way.
+  async addService(
+    tunnelRef: string | undefined,
+    input: ServiceInput,
+    options: { forceDns?: boolean } = {}
+  ): Promise<{ tunnel: TunnelEntry; service: Service; dnsRouted: boolean }> {
+    const config = this.loadConfig();
+    const tunnel = this.requireTunnel(config, tunnelRef);
+    const service = buildService(input);
+    
+    const key = serviceKey(service);
+    if (tunnel.services.some(s => serviceKey(s) === key)) {
+      throw new TunnelError(`${key} is already configured.`, ExitCode.CONFLICT);
+    }
+    
+    // Additional path rules reuse the DNS route of the hostname
+    const resolvedHostname = resolveHostname(service.hostname);
+    const hostnameRouted = tunnel.services.some(s => routedHostnames(s).includes(resolvedHostname));
+    
+    this.updateConfig(fresh => {
+      fresh.tunnels[tunnel.tunnelId]?.services.push(service);
+    });
+    tunnel.services.push(service);
+    this.emitEvent("service.added", tunnel, { service });
+    
+    const dnsRouted = hostnameRouted || await this.routeDns(config, tunnel.tunnelId, resolvedHostname, options.forceDns);
+    return { tunnel, service, dnsRouted };
+  }
+  
+  // Removes a service and the DNS records no other service of the tunnel uses
+  async removeService(tunnelRef: string | undefined, ref: { hostname: string; path?: string }): Promise<{ tunnel: TunnelEntry; removed: Service }> {
+    const config = this.loadConfig();
+    const tunnel = this.requireTunnel(config, tunnelRef);
+    
+    const key = serviceKey(ref);
+    const removed = tunnel.services.find(s => serviceKey(s) === key);
+    if (!removed) {
+      const paths = tunnel.services.filter(s => s.hostname === ref.hostname && s.path).map(s => s.path);
+      throw new TunnelError(
+        `${key} is not configured in ${tunnel.tunnelName}.`,
+        ExitCode.NOT_FOUND,
+        paths.length > 0 ? `Path rules for this hostname: ${paths.join(", ")} (select one with --path)` : undefined
+      );
+    }
+    
+    tunnel.services = tunnel.services.filter(s => s !== removed);
+    this.updateConfig(fresh => {
+      const freshTunnel = fresh.tunnels[tunnel.tunnelId];
+      if (freshTunnel) freshTunnel.services = freshTunnel.services.filter(s => serviceKey(s) !== key);
+    });
+    this.emitEvent("service.removed", tunnel, { service: removed });
+    
+    // Other path rules may still be using the hostname
+    for (const hostname of routedHostnames(removed)) {
+      if (!tunnel.services.some(s => routedHostnames(s).includes(hostname))) {
+        await this.unrouteDns(config, tunnel.tunnelId, hostname);
+      }
+    }
+    return { tunnel, removed };
+  }
+  
+  // Brings the manifest's tunnel in line with it, like `cloudtunnel up`: the
+  // tunnel is taken from the config, or from the Cloudflare account, or
+  // created. Declared services are added or updated; with `prune` the others
+  // are removed, with the DNS records no remaining service uses. The tunnel
+  // becomes the active one. A failed DNS route is reported, not thrown.
+  async applyManifest(manifest: Manifest, options: { prune?: boolean } = {}): Promise<ManifestResult> {
+    const config = this.loadConfig();
+    let tunnel = findTunnelByName(config, manifest.tunnel);
+    let source: ManifestResult["source"] = "configured";
+    
+    // Reuse a tunnel created on another machine before creating a new one
+    if (!tunnel) {
+      try {
+        const remote = this.listRemoteTunnels().find(t => t.name === manifest.tunnel);
+        if (remote) {
+          this.log(`Reusing existing tunnel: ${remote.name} (${remote.id})`, "info");
+          source = "reused";
+          tunnel = {
+            tunnelName: remote.name,
+            tunnelId: remote.id,
+            services: [],
+            createdAt: new Date().toISOString(),
+          };
+          
+          if (!fs.existsSync(path.join(this.paths.dir, `${remote.id}.json`))) {
+            this.log(`Warning: credentials file ${remote.id}.json not found in ${this.paths.dir}.`, "warn");
+            this.log("Copy it from the machine that created the tunnel before running it.", "warn");
+          }
+        } else {
+          this.log(`Creating tunnel: ${manifest.tunnel}...`, "info");
+          source = "created";
+          tunnel = this.createTunnel(manifest.tunnel);
+        }
+      } catch (err: any) {
+        if (err instanceof TunnelError) throw err;
+        throw new TunnelError(`Error preparing tunnel: ${err.message}`, ExitCode.CLOUDFLARE);
+      }
+      config.tunnels[tunnel.tunnelId] = tunnel;
+      const created = tunnel;
+      this.updateConfig(fresh => {
+        fresh.tunnels[created.tunnelId] ??= { ...created, services: [...created.services] };
+      });
+    }
+    
+    // Changes are applied to the entry in the freshly read config, so that
+    // services, hooks and previews saved meanwhile by other commands are kept,
+    // and to the copy in memory
+    const current = tunnel;
+    const tunnelId = tunnel.tunnelId;
+    const updateTunnel = (mutate: (entry: TunnelEntry) => void) => {
+      this.updateConfig(fresh => {
+        if (fresh.tunnels[tunnelId]) mutate(fresh.tunnels[tunnelId]);
+      });
+      mutate(current);
+    };
+    
+    const added: Service[] = [];
+    const updated: Service[] = [];
+    for (const declared of manifest.services) {
+      const existing = current.services.find(s => serviceKey(s) === serviceKey(declared));
+      const { service, path: rulePath, originRequest, healthCheck, protocol, host, port } = declared;
+      
+      if (!existing) {
+        const hostnameRouted = current.services.some(s => s.hostname === declared.hostname);
+        const srv: Service = {
+          hostname: declared.hostname,
+          service,
+          path: rulePath,
+          originRequest,
+          healthCheck,
+          protocol,
+          host,
+          port,
+          createdAt: new Date().toISOString(),
+        };
+        updateTunnel(entry => {
+          entry.services.push({ ...srv });
+        });
+        added.push(srv);
+        this.emitEvent("service.added", current, { service: srv });
+        
+        if (!hostnameRouted && !(await this.routeDns(config, tunnelId, declared.hostname))) {
+          this.log(`DNS for ${declared.hostname} may need manual setup.`, "warn");
+        }
+      } else if (
+        existing.service !== service ||
+        JSON.stringify(existing.originRequest || {}) !== JSON.stringify(originRequest || {}) ||
+        JSON.stringify(existing.healthCheck || {}) !== JSON.stringify(healthCheck || {})
+      ) {
+        const updatedAt = new Date().toISOString();
+        updateTunnel(entry => {
+          const target = entry.services.find(s => serviceKey(s) === serviceKey(declared));
+          if (target) Object.assign(target, { service, originRequest, healthCheck, protocol, host, port, updatedAt });
+        });
+        updated.push(existing);
+      }
+    }
+    
+    const declaredKeys = new Set(manifest.services.map(serviceKey));
+    const undeclared = current.services.filter(s => !declaredKeys.has(serviceKey(s)));
+    if (options.prune && undeclared.length > 0) {
+      updateTunnel(entry => {
+        entry.services = entry.services.filter(s => declaredKeys.has(serviceKey(s)));
+      });
+      
+      // Like removeService, keep the records that remaining path rules still use
+      const unrouted = new Set(undeclared.flatMap(routedHostnames));
+      for (const hostname of unrouted) {
+        if (!current.services.some(s => routedHostnames(s).includes(hostname))) {
+          await this.unrouteDns(config, tunnelId, hostname);
+        }
+      }
+    }
+    
+    const saved = this.updateConfig(fresh => {
+      if (fresh.tunnels[tunnelId]) fresh.tunnels[tunnelId].lastUsed = new Date().toISOString();
+      fresh.activeTunnel = tunnelId;
+    });
+    // What was saved, including services other commands added meanwhile
+    const result = saved.tunnels[tunnelId] || current;
+    if (options.prune) {
+      undeclared.forEach(s => this.emitEvent("service.removed", result, { service: s }));
+    }
+    return { config: saved, tunnel: result, source, added, updated, undeclared, pruned: !!options.prune };
+  }
+  
+  // Works out what importing `incoming` into `config` does, without touching
+  // `config`. Tunnels that only exist in the import are always added; for
+  // tunnels that exist on both sides:
+  //   merge   - services are matched by hostname and path: new ones are added,
+  //             changed ones take the imported definition, local-only ones stay
+  //   replace - the local entry is replaced by the imported one
+  //   skip    - the local entry is kept as is
+  planImport(config: Config, incoming: Config, strategy: ImportStrategy): ImportPlan {
+    const result: Config = JSON.parse(JSON.stringify(config));
+    const changes: ImportChange[] = [];
+    const now = new Date().toISOString();
+    
+    for (const [tunnelId, imported] of Object.entries(incoming.tunnels)) {
+      const local = result.tunnels[tunnelId];
+      const change: ImportChange = { tunnelId, tunnelName: imported.tunnelName, action: local ? strategy : "add", added: [], updated: [], removed: [] };
+      changes.push(change);
+      
+      if (!local) {
+        result.tunnels[tunnelId] = imported;
+        change.added = imported.services.map(serviceKey);
+      } else if (strategy === "replace") {
+        const importedKeys = new Set(imported.services.map(serviceKey));
+        change.removed = local.services.filter(s => !importedKeys.has(serviceKey(s))).map(serviceKey);
+        for (const srv of imported.services) {
+          const existing = local.services.find(s => serviceKey(s) === serviceKey(srv));
+          if (!existing) change.added.push(serviceKey(srv));
+          else if (!sameService(existing, srv)) change.updated.push(serviceKey(srv));
+        }
+        result.tunnels[tunnelId] = imported;
+      } else if (strategy === "merge") {
+        for (const srv of imported.services) {
+          const idx = local.services.findIndex(s => serviceKey(s) === serviceKey(srv));
+          if (idx === -1) {
+            local.services.push(srv);
+            change.added.push(serviceKey(srv));
+          } else if (!sameService(local.services[idx], srv)) {
+            local.services[idx] = { ...srv, createdAt: local.services[idx].createdAt, updatedAt: now };
+            change.updated.push(serviceKey(srv));
+          }
+        }
+      }
+    }
+    
+    // Adopt the imported active tunnel only if it would not override a choice
+    const importedActive = incoming.activeTunnel && result.tunnels[incoming.activeTunnel] ? incoming.activeTunnel : undefined;
+    if (importedActive && (strategy === "replace" || !result.activeTunnel || !result.tunnels[result.activeTunnel])) {
+      result.activeTunnel = importedActive;
+    }
+    
+    const owners = new Map<string, Set<string>>();
+    for (const [tunnelId, tunnel] of Object.entries(result.tunnels)) {
+      for (const srv of tunnel.services) {
+        owners.set(srv.hostname, (owners.get(srv.hostname) || new Set()).add(tunnelId));
+      }
+    }
+    const conflicts = [...owners.entries()]
+      .filter(([, ids]) => ids.size > 1 && [...ids].some(id => incoming.tunnels[id]))
+      .map(([hostname, ids]) => ({ hostname, tunnelIds: [...ids] }));
+    
+    const missingCredentials = changes
+      .filter(c => c.action !== "skip" && !fs.existsSync(path.join(this.paths.dir, `${c.tunnelId}.json`)))
+      .map(c => c.tunnelId);
+    
+    return {
+      changes,
+      activeTunnel: result.activeTunnel !== config.activeTunnel ? result.activeTunnel : undefined,
+      conflicts,
+      missingCredentials,
+      result,
+    };
+  }
+  
+  // Imports tunnels read by readImportFile into the config, as planned by
+  // planImport against the config as read under the lock. With `dryRun`
+  // nothing is saved.
+  importConfig(incoming: Config, strategy: ImportStrategy, options: { dryRun?: boolean } = {}): ImportPlan {
+    if (options.dryRun) return this.planImport(this.loadConfig(), incoming, strategy);
+    
+    let plan!: ImportPlan;
+    this.updateConfig(config => {
+      plan = this.planImport(config, incoming, strategy);
+      config.tunnels = plan.result.tunnels;
+      config.activeTunnel = plan.result.activeTunnel;
+    });
+    return plan;
+  }
+  
+  
+  // Works out what deleteTunnel removes for a tunnel (ID or name), which may
+  // also be one that only exists in the Cloudflare account. With `keepDns`
+  // the DNS records of its hostnames are left alone.
+  planDelete(ref: string, options: { keepDns?: boolean } = {}): DeletePlan {
+    const config = this.loadConfig();
+    const local = resolveTunnel(config, ref);
+    const remote = this.listRemoteTunnels().find(t => t.id === (local?.tunnelId || ref) || (!local && t.name === ref));
+    if (!local && !remote) {
+      throw new TunnelError(`Tunnel not found: ${ref}`, ExitCode.NOT_FOUND);
+    }
+    
+    const tunnelId = local?.tunnelId || remote!.id;
+    const tunnelName = local?.tunnelName || remote!.name;
+    const unit = this.getServiceUnit(tunnelId);
+    if (unit?.scope === "system" && process.getuid?.() !== 0) {
+      throw new TunnelError(`${tunnelName} has a system service unit, which only root can remove.`, ExitCode.PREREQUISITE, "Run 'sudo cloudtunnel service uninstall' first.");
+    }
+    
+    return {
+      tunnelId,
+      tunnelName,
+      local,
+      remote: remote || null,
+      processState: getLiveProcessState(this.paths.stateDir, tunnelId),
+      unit,
+      hostnames: options.keepDns || !local ? [] : [...new Set(local.services.flatMap(routedHostnames))],
+      files: [
+        path.join(this.paths.dir, `${tunnelId}.json`),
+        this.getTunnelConfigPath(tunnelId),
+        this.getProxiedConfigPath(tunnelId),
+        this.getDevConfigPath(tunnelId),
+        this.getTunnelLogFile(tunnelId),
+      ].filter(file => fs.existsSync(file)),
+    };
+  }
+  
+  // Deletes a tunnel as planned by planDelete: stops its connector and service
+  // unit, deletes it in Cloudflare, then its DNS records, files and config
+  // entry. If Cloudflare refuses, e.g. because other machines are connected,
+  // the connector is put back and nothing else is deleted; with `force`
+  // their connections are dropped and a failure only skips the Cloudflare
+  // part, reported as cloudflareError.
+  async deleteTunnel(plan: DeletePlan, options: { force?: boolean } = {}): Promise<DeleteResult> {
+    const { tunnelId, tunnelName, remote, processState, unit } = plan;
+    
+    // This machine's connector has to go first, as its connections would
+    // block the delete. The unit file is kept in memory to put it back if
+    // the delete fails.
+    const unitContent = unit ? fs.readFileSync(unit.file, "utf8") : null;
+    if (unit) {
+      try {
+        uninstallUnit(unit);
+        this.log(`Uninstalled ${unit.name}`, "info");
+      } catch (err: any) {
+        throw new TunnelError(`Could not uninstall ${unit.name}: ${err.stderr?.toString().trim() || err.message}`);
+      }
+    }
+    if (processState && await this.stop(tunnelId) === "stopped") {
+      this.log(`Stopped: ${tunnelName}`, "info");
+    }
+    
+    let cloudflareError: string | undefined;
+    if (remote) {
+      try {
+        // Connections left now belong to other machines, or are stale ones
+        // that cleanup drops; only `force` may drop them
+        const connections = this.listRemoteTunnels().find(t => t.id === tunnelId)?.connections?.length || 0;
+        if (options.force || connections === 0) {
+          this.exec(this.cloudflaredTunnel(`cleanup ${tunnelId}`), { stdio: "pipe" });
+        }
+        this.exec(this.cloudflaredTunnel(`delete ${options.force ? "-f " : ""}${tunnelId}`), { stdio: "pipe" });
+        this.log(`Deleted tunnel ${tunnelName} in Cloudflare.`, "info");
+      } catch (err: any) {
+        cloudflareError = err.stderr?.toString().trim() || err.message;
+        if (!options.force) {
+          const restored = await this.restoreConnector(plan, unitContent);
+          throw new TunnelError(
+            `Could not delete ${tunnelName} in Cloudflare: ${cloudflareError}`,
+            ExitCode.CLOUDFLARE,
+            `Its DNS records, files and config were kept${restored}. Pass --force to delete it even if other machines are connected.`
+          );
+        }
+        this.log(`Warning: Could not delete ${tunnelName} in Cloudflare: ${cloudflareError}`, "warn");
+      }
+    }
+    
+    const config = this.loadConfig();
+    for (const hostname of plan.hostnames) {
+      await this.unrouteDns(config, tunnelId, hostname);
+    }
+    
+    plan.files.forEach(file => fs.removeSync(file));
+    
+    let activeTunnel: string | undefined;
+    this.updateConfig(fresh => {
+      delete fresh.tunnels[tunnelId];
+      if (fresh.activeTunnel === tunnelId) {
+        // Fall back to the most recently used tunnel
+        fresh.activeTunnel = Object.values(fresh.tunnels)
+          .sort((a, b) => (b.lastUsed || b.createdAt).localeCompare(a.lastUsed || a.createdAt))[0]?.tunnelId;
+      }
+      activeTunnel = fresh.activeTunnel;
+    });
+    
+    return {
+      deletedInCloudflare: !!remote && !cloudflareError,
+      cloudflareError,
+      wasActive: config.activeTunnel === tunnelId,
+      activeTunnel: activeTunnel || null,
+    };
+  }
+  
+  // Puts back what deleteTunnel stopped when the tunnel could not be deleted
+  // in Cloudflare. Returns what happened, for the hint.
+  private async restoreConnector(plan: DeletePlan, unitContent: string | null): Promise<string> {
+    if (plan.unit && unitContent) {
+      try {
+        installUnit(plan.unit, unitContent);
+        this.log(`Reinstalled ${plan.unit.name}`, "info");
+        return ` and ${plan.unit.name} was reinstalled`;
+      } catch (err: any) {
+        this.log(`Warning: Could not reinstall ${plan.unit.name}: ${err.stderr?.toString().trim() || err.message}`, "warn");
+        return `, but ${plan.unit.name} could not be reinstalled; run 'cloudtunnel service install' again`;
+      }
+    }
+    if (plan.processState?.mode === "detached" && plan.local) {
+      const config = this.loadConfig();
+      const run = await this.planRun(config, config.tunnels[plan.tunnelId] || plan.local);
+      const supervisorPid = this.startSupervisor(run);
+      this.log(`Started ${plan.tunnelName} again (supervisor PID ${supervisorPid}).`, "info");
+      return " and its connector was started again";
+    }
+    if (plan.processState) {
+      return ", but its connector was stopped; start it again with 'cloudtunnel run'";
+    }
+    return "";
+  }
+  
+  // Adds a hook to a tunnel (ID or name, or the active tunnel), or to every
+  // tunnel when tunnelRef is null
+  addHook(tunnelRef: string | null | undefined, input: Omit<Hook, "id">): { hook: Hook; tunnel?: TunnelEntry } {
+    const hook: Hook = { id: newHookId(), ...input };
+    const valid = validateHook(hook);
+    if (valid !== true) throw new TunnelError(valid, ExitCode.USAGE);
+    
+    const tunnel = tunnelRef === null ? undefined : this.requireTunnel(this.loadConfig(), tunnelRef);
+    this.updateConfig(fresh => {
+      const owner = tunnel ? fresh.tunnels[tunnel.tunnelId] : fresh;
+      if (owner) owner.hooks = [...(owner.hooks || []), hook];
+    });
+    return { hook, tunnel };
+  }
+  
+  removeHook(id: string): Hook {
+    let removed: Hook | undefined;
+    this.updateConfig(fresh => {
+      for (const owner of [fresh, ...Object.values(fresh.tunnels)]) {
+        removed = removed || owner.hooks?.find(hook => hook.id === id);
+        if (owner.hooks) owner.hooks = owner.hooks.filter(hook => hook.id !== id);
+        if (owner.hooks?.length === 0) delete owner.hooks;
+      }
+    });
+    if (!removed) {
+      throw new TunnelError(`Hook not found: ${id}`, ExitCode.NOT_FOUND, "List hooks with 'cloudtunnel hooks list'.");
+    }
+    return removed;
+  }
+  
+  // The tunnel's own hooks and the global ones, limited to those for `event`
+  getHooks(config: Config, tunnelId: string, event?: HookEvent): Hook[] {
+    const hooks = [...(config.tunnels[tunnelId]?.hooks || []), ...(config.hooks || [])];
+    return event ? hooks.filter(hook => hookMatches(hook, event)) : hooks;
+  }
+  
+  createHookPayload(event: HookEvent, tunnel: TunnelEntry, extra: { service?: Service; details?: HookPayload["details"] } = {}): HookPayload {
+    return {
+      id: newDeliveryId(),
+      event,
+      timestamp: new Date().toISOString(),
+      context: this.context,
+      tunnel: { id: tunnel.tunnelId, name: tunnel.tunnelName },
+      service: extra.service && {
+        hostname: resolveHostname(extra.service.hostname),
+        path: extra.service.path,
+        service: extra.service.service,
+      },
+      details: extra.details,
+    };
+  }
+  
+  // Tells the hooks listening for an event of the tunnel about it. They are
+  // run by the CLI's hidden `hooks deliver` command in a detached process, so
+  // slow commands and webhook retries hold nothing up. Never throws: a broken
+  // hook must not fail the command that triggered it.
+  emitEvent(event: HookEvent, tunnel: TunnelEntry, extra: { service?: Service; details?: HookPayload["details"] } = {}): void {
+    try {
+      if (this.getHooks(this.loadConfig(), tunnel.tunnelId, event).length === 0) return;
+      
+      const deliverer = spawn(
+        process.execPath,
+        [...process.execArgv, CLI_ENTRY, "--context", this.context, "hooks", "deliver", JSON.stringify(this.createHookPayload(event, tunnel, extra))],
+        { detached: true, stdio: "ignore" }
+      );
+      deliverer.on("error", () => {});
+      deliverer.unref();
+    } catch (err: any) {
+      this.log(`Warning: could not run the hooks for ${event}: ${err.message}`, "warn");
+    }
+  }
+  
+  // Protected services are only reachable through the access gateway of
+  // `cloudtunnel run`; anything else running this config answers them with 503
+  renderTunnelConfig(tunnel: TunnelEntry): string {
+    const tunnelConfig = {
+      tunnel: tunnel.tunnelId,
+      credentials: path.join(this.paths.dir, `${tunnel.tunnelId}.json`),
+      ingress: buildIngressRules(tunnel.services.map(srv => ({
+        ...srv,
+        hostname: resolveHostname(srv.hostname),
+        ...(isProtected(srv.access) ? { service: "http_status:503", originRequest: undefined } : {}),
+      }))),
+    };
+    return YAML.stringify(tunnelConfig);
+  }
+  
+  getTunnelConfigPath(tunnelId: string): string {
+    return path.join(this.paths.dir, `tunnel-${tunnelId}.yml`);
+  }
+  
+  // Config of a tunnel run through local proxies (request inspector, access
+  // gateway), kept apart so that the regular one stays as generated
+  getProxiedConfigPath(tunnelId: string): string {
+    return path.join(this.paths.dir, `proxied-${tunnelId}.yml`);
+  }
+  
+  // Config of a tunnel serving `cloudtunnel dev`, which adds the dev server's
+  // hostname; only exists while it runs
+  getDevConfigPath(tunnelId: string): string {
+    return path.join(this.paths.dir, `dev-${tunnelId}.yml`);
+  }
+  
+  // cloudflared's output for a tunnel, read by `cloudtunnel logs`
+  getTunnelLogFile(tunnelId: string): string {
+    return path.join(this.paths.tunnelLogDir, `${tunnelId}.log`);
+  }
+  
+  // Adds a line in cloudflared's own format so `cloudtunnel logs` can parse it
+  appendTunnelLog(tunnelId: string, level: "info" | "warn" | "error", message: string): void {
+    const abbr = level === "error" ? "ERR" : level === "warn" ? "WRN" : "INF";
+    try {
+      fs.ensureDirSync(this.paths.tunnelLogDir);
+      fs.appendFileSync(this.getTunnelLogFile(tunnelId), `${new Date().toISOString()} ${abbr} [cloudtunnel] ${message}\n`);
+    } catch (err) {
+      // Ignore logging errors
+    }
+  }
+  
+  writeTunnelConfig(tunnel: TunnelEntry, configPath = this.getTunnelConfigPath(tunnel.tunnelId)): string {
+    fs.writeFileSync(configPath, this.renderTunnelConfig(tunnel));
+    return configPath;
+  }
+  
+  // Has cloudflared check the ingress rules of a generated config
+  validateTunnelConfig(configPath: string): void {
+    try {
+      this.exec(this.cloudflaredTunnel(`--config "${configPath}" ingress validate`), { stdio: "pipe" });
+    } catch (err: any) {
+      const output = `${err.stdout || ""}${err.stderr || ""}`.trim();
+      throw new TunnelError(`cloudflared rejected ${configPath}: ${output || err.message}`, ExitCode.CLOUDFLARE);
+    }
+  }
+  
+  // Has cloudflared write the credentials file of a tunnel again, e.g. after
+  // it was lost; this needs the login of the account that owns the tunnel
+  restoreCredentials(tunnelId: string): void {
+    const file = path.join(this.paths.dir, `${tunnelId}.json`);
+    try {
+      this.exec(this.cloudflaredTunnel(`token --cred-file "${file}" ${tunnelId}`), { stdio: "pipe" });
+    } catch (err: any) {
+      throw new TunnelError(`Could not restore the credentials of ${tunnelId}: ${err.stderr?.toString().trim() || err.message}`, ExitCode.CLOUDFLARE);
+    }
+    if (!fs.existsSync(file)) throw new TunnelError(`cloudflared did not write ${file}`, ExitCode.CLOUDFLARE);
+  }
+  
+  // Checks cloudflared, the login, the config, the tunnels and their services
+  // for problems, like `cloudtunnel doctor`. With `fix` the safe repairs of
+  // the checks that failed or warned are applied.
+  async diagnose(options: { fix?: boolean } = {}): Promise<CheckResult[]> {
+    // Read without migrating or failing, so a broken config is a finding
+    let tunnels: TunnelEntry[] | null = [];
+    let configError: string | undefined;
+    if (fs.existsSync(this.paths.configFile)) {
+      try {
+        tunnels = Object.values(readConfigFile(this.paths.configFile).config.tunnels);
+      } catch (err: any) {
+        tunnels = null;
+        configError = err instanceof ConfigVersionError ? `${this.paths.configFile}: ${err.message}` : err.message;
+      }
+    }
+    
+    const results = await runDoctor({
+      configDir: this.paths.dir,
+      certFile: this.paths.certFile,
+      // Not installed is reported by the cloudflared check
+      cloudflaredVersion: this.getCloudflaredVersion(),
+      tunnels,
+      configError,
+      listRemoteTunnelIds: () => this.listRemoteTunnels().map(t => t.id),
+      routedHostnames: (srv) => routedHostnames(srv as Service),
+      checkService: (srv) => this.checkService(srv as Service),
+      renderTunnelConfig: (tunnel) => this.renderTunnelConfig(tunnel as TunnelEntry),
+      writeTunnelConfig: (tunnel) => {
+        this.writeTunnelConfig(tunnel as TunnelEntry);
+      },
+      restoreCredentials: (tunnel) => this.restoreCredentials(tunnel.tunnelId),
+    });
+    if (options.fix) {
+      await applyRepairs(results);
+    }
+    return results;
+  }
+  
+  // Routes DNS for hostnames that templates resolve to for the first time and
+  // records them, so that 'remove' and 'preview cleanup' can delete them later
+  async routePreviews(config: Config, tunnel: TunnelEntry): Promise<void> {
+    for (const srv of tunnel.services) {
+      if (!isHostnameTemplate(srv.hostname)) continue;
+      
+      const hostname = resolveHostname(srv.hostname);
+      if (srv.previews?.some(p => p.hostname === hostname)) continue;
+      
+      // Path rules of the same template share the route
+      const routed = tunnel.services.some(s => routedHostnames(s).includes(hostname));
+      const preview = createPreviewRoute(srv.hostname, hostname);
+      srv.previews = [...(srv.previews || []), preview];
+      this.updateConfig(fresh => {
+        const service = fresh.tunnels[tunnel.tunnelId]?.services.find(s => serviceKey(s) === serviceKey(srv));
+        if (service) service.previews = [...(service.previews || []), preview];
+      });
+      
+      if (!routed && !(await this.routeDns(config, tunnel.tunnelId, hostname))) {
+        this.log(`DNS for ${hostname} may need manual setup.`, "warn");
+      }
+    }
+  }
+  
+  // Routes new preview hostnames, picks ports for the local proxies and writes
+  // the cloudflared config for a run of the tunnel. With `inspect`, HTTP
+  // services are served through inspecting proxies; protected services always
+  // go through an access gateway.
+  async planRun(config: Config, tunnel: TunnelEntry, options: StartOptions = {}): Promise<RunPlan> {
+    await this.routePreviews(config, tunnel);
+    const inspectors = options.inspect ? await planInspectors(tunnel) : [];
+    if (options.inspect && inspectors.length === 0) {
+      this.log("No HTTP services to inspect; starting without the inspector.", "warn");
+    }
+    const gateways = await planGateways(tunnel, inspectors);
+    const configPath = inspectors.length > 0 || gateways.length > 0
+      ? this.writeTunnelConfig(proxiedTunnel(tunnel, inspectors, gateways), this.getProxiedConfigPath(tunnel.tunnelId))
+      : this.writeTunnelConfig(tunnel);
+    
+    // Expose cloudflared's Prometheus metrics on a local port for `cloudtunnel top`
+    const metricsAddress = `127.0.0.1:${await findFreePort()}`;
+    return {
+      tunnelId: tunnel.tunnelId,
+      configPath,
+      metricsAddress,
+      inspectors,
+      gateways,
+      inspectBodyLimit: inspectors.length > 0 ? options.inspect!.bodyLimit : undefined,
+      args: this.cloudflaredTunnelArgs(["--config", configPath, "--metrics", metricsAddress, "run"]),
+    };
+  }
+  
+  // Runs the CLI's hidden `supervise` command in a detached process, which
+  // restarts cloudflared if it crashes
+  spawnSupervisor(tunnelId: string, supervisorArgs: string[]): number | undefined {
+    const supervisor = spawn(
+      process.execPath,
+      [...process.execArgv, CLI_ENTRY, "--context", this.context, "supervise", tunnelId, ...supervisorArgs],
+      { detached: true, stdio: "ignore" }
+    );
+    supervisor.unref();
+    return supervisor.pid;
+  }
+  
+  // Starts a planned run under a detached supervisor, with its local proxies
+  startSupervisor(plan: RunPlan, options: { watch?: boolean } = {}): number | undefined {
+    const inspectArgs = plan.inspectors.length > 0
+      ? ["--inspect", JSON.stringify(plan.inspectors), "--inspect-body-limit", String(plan.inspectBodyLimit)]
+      : [];
+    const gatewayArgs = plan.gateways.length > 0 ? ["--gateways", JSON.stringify(plan.gateways)] : [];
+    const watchArgs = options.watch ? ["--watch"] : [];
+    return this.spawnSupervisor(plan.tunnelId, ["--config", plan.configPath, "--metrics", plan.metricsAddress, ...inspectArgs, ...gatewayArgs, ...watchArgs]);
+  }
+  
+  // Starts a tunnel (ID or name, or the active tunnel) in the background, like
+  // `cloudtunnel run --detach`
+  async start(tunnelRef?: string, options: StartOptions = {}): Promise<StartResult> {
+    this.ensureCloudflaredInstalled();
+    this.ensureLoggedIn();
+    
+    const config = this.loadConfig();
+    const tunnel = this.requireTunnel(config, tunnelRef);
+    if (this.getTunnelStatus(tunnel.tunnelId) === "running") {
+      throw new TunnelError(`Tunnel ${tunnel.tunnelName} is already running.`, ExitCode.CONFLICT);
+    }
+    
+    const plan = await this.planRun(config, tunnel, options);
+    return { ...plan, supervisorPid: this.startSupervisor(plan, { watch: options.watch }) };
+  }
+  
+  // Brings a running tunnel up to date with its services in the config. The
+  // process running it starts a connector for the new config next to the old
+  // one and stops the old one once the new one is connected; this waits for
+  // the outcome. A failed reload leaves the old connector running.
+  async reload(tunnelId: string, timeoutMs = DEFAULT_RELOAD_TIMEOUT_MS + 15_000): Promise<ReloadResult> {
+    const state = getLiveProcessState(this.paths.stateDir, tunnelId);
+    
+    if (!state || state.status === "failed") {
+      if (this.getServiceUnit(tunnelId)?.state !== "active") return "not-running";
+      
+      const tunnel = this.requireTunnel(this.loadConfig(), tunnelId);
+      this.validateTunnelConfig(this.writeTunnelConfig(tunnel));
+      return "service";
+    }
+    if (!state.reloadable) return "restart-required";
+    
+    const requestedAt = new Date().toISOString();
+    try {
+      process.kill(state.supervisorPid, "SIGHUP");
+    } catch (err: any) {
+      throw new TunnelError(`Could not signal the process running ${tunnelId}: ${err.message}`);
+    }
+    
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 250));
+      
+      const current = readProcessState(this.paths.stateDir, tunnelId);
+      if (!current || current.status === "failed") return "not-running";
+      if (current.lastReload && current.lastReload.at >= requestedAt) {
+        if (current.lastReload.error) {
+          throw new TunnelError(`Could not reload the tunnel: ${current.lastReload.error}`, ExitCode.CLOUDFLARE, "It keeps serving its previous config; see 'cloudtunnel logs'.");
+        }
+        return "reloaded";
+      }
+    }
+    throw new TunnelError("Timed out waiting for the tunnel to reload.", ExitCode.ERROR, "See 'cloudtunnel logs' for what happened.");
+  }
+  
+  // Stops a tunnel started by cloudtunnel on this machine. Only recorded
+  // processes are ever signalled.
+  async stop(tunnelId: string): Promise<StopResult> {
+    const state = getLiveProcessState(this.paths.stateDir, tunnelId);
+    
+    if (!state) {
+      return this.getServiceUnit(tunnelId)?.state === "active" ? "service" : "not-running";
+    }
+    if (state.status === "failed") {
+      removeProcessState(this.paths.stateDir, tunnelId);
+      return "crashed";
+    }
+    
+    await stopProcess(state, this.paths.stateDir);
+    return "stopped";
+  }
+  
+  // Runs a planned tunnel attached to this process until cloudflared exits,
+  // with the plan's local proxies, and tells the hooks that it started and
+  // whether it stopped or crashed. SIGHUP, and with `watch` a change to the
+  // config file, reloads it. Resolves with what went wrong if cloudflared failed.
+  async runAttached(tunnel: TunnelEntry, plan: RunPlan, options: AttachOptions = {}): Promise<string | null> {
+    let servers: http.Server[];
+    try {
+      servers = await this.startProxies(tunnel.tunnelId, tunnel.services, plan, options.onCapture);
+    } catch (err: any) {
+      throw new TunnelError(err.message);
+    }
+    
+    const running = { configPath: plan.configPath, servers };
+    this.emitEvent("tunnel.started", tunnel);
+    const stopMonitoring = this.monitorServiceHealth(tunnel.tunnelId);
+    const failure = await this.runConnector(tunnel.tunnelId, plan.args, {
+      configPath: plan.configPath,
+      metricsAddress: plan.metricsAddress,
+      onOutput: options.onOutput,
+      reload: this.createReloadPlanner(tunnel, running, options.inspect, options.onCapture),
+      watch: options.watch,
+    });
+    stopMonitoring();
+    running.servers.forEach(server => server.close());
+    if (failure) {
+      this.emitEvent("tunnel.crashed", tunnel, { details: { error: failure } });
+    } else {
+      this.emitEvent("tunnel.stopped", tunnel);
+    }
+    return failure;
+  }
+  
+  // Runs cloudflared with `args` attached to this process, recording its
+  // process state and keeping a copy of its output in the tunnel log. SIGINT
+  // is left to reach cloudflared through the terminal and SIGTERM stops it.
+  // With `reload`, SIGHUP (and with `watch`, a change to the config file)
+  // replaces the connector with one for the current config. Resolves with
+  // what went wrong if cloudflared failed.
+  async runConnector(tunnelId: string, args: string[], options: ConnectorOptions = {}): Promise<string | null> {
+    fs.ensureDirSync(this.paths.tunnelLogDir);
+    const tunnelLog = fs.createWriteStream(this.getTunnelLogFile(tunnelId), { flags: "a" });
+    // Includes a connector started by a reload until it takes over
+    const connectors = new Set<ChildProcess>();
+    
+    const launch = (connectorArgs: string[]): ChildProcess => {
+      const connector = spawn("cloudflared", connectorArgs, {
+        stdio: ["inherit", "pipe", "pipe"],
+        signal: options.signal,
+      });
+      connector.stdout?.on("data", (chunk: Buffer) => {
+        tunnelLog.write(chunk);
+        options.onOutput?.(chunk, "stdout");
+      });
+      connector.stderr?.on("data", (chunk: Buffer) => {
+        tunnelLog.write(chunk);
+        options.onOutput?.(chunk, "stderr");
+      });
+      connectors.add(connector);
+      connector.on("exit", () => connectors.delete(connector));
+      return connector;
+    };
+    
+    let child = launch(args);
+    const state: TunnelProcessState = {
+      tunnelId,
+      mode: "foreground",
+      status: "running",
+      supervisorPid: process.pid,
+      pid: child.pid,
+      configPath: options.configPath,
+      metricsAddress: options.metricsAddress,
+      startedAt: new Date().toISOString(),
+      childStartedAt: new Date().toISOString(),
+      restarts: 0,
+      reloadable: options.reload ? true : undefined,
+    };
+    writeProcessState(this.paths.stateDir, state);
+    
+    // Ctrl+C reaches cloudflared through the terminal; wait for it to exit
+    const ignoreSignal = () => {};
+    const stop = () => connectors.forEach(connector => connector.kill("SIGTERM"));
+    process.on("SIGINT", ignoreSignal);
+    process.on("SIGTERM", stop);
+    
+    let done = false;
+    let failure: string | null = null;
+    let stopReloading = () => {};
+    await new Promise<void>((resolve) => {
+      // Only the connector serving the tunnel ends the run; one replaced by a
+      // reload, or that never took over, exits quietly
+      const onEnd = (connector: ChildProcess) => {
+        connector.on("error", (err) => {
+          if (connector !== child || err.name === "AbortError") return;
+          failure = `Error running tunnel: ${err.message}`;
+          this.log(failure, "error");
+          done = true;
+          resolve();
+        });
+        connector.on("exit", (code, signal) => {
+          if (connector !== child) return;
+          if (code && signal !== "SIGINT") {
+            failure = `Tunnel exited with code ${code}`;
+            this.log(failure, "error");
+          }
+          done = true;
+          resolve();
+        });
+      };
+      onEnd(child);
+      
+      if (options.reload) {
+        const reload = createReloader(state, this.paths.stateDir, options.reload, async (plan) => {
+          const launchReplacement = (connectorArgs: string[]) => {
+            const replacement = launch(connectorArgs);
+            onEnd(replacement);
+            return replacement;
+          };
+          await replaceConnector(child, plan, launchReplacement, (replacement) => {
+            child = replacement;
+            Object.assign(state, {
+              pid: replacement.pid,
+              configPath: plan.configPath,
+              metricsAddress: plan.metricsAddress,
+              childStartedAt: new Date().toISOString(),
+            });
+            writeProcessState(this.paths.stateDir, state);
+          });
+        }, (message, level) => {
+          this.log(message, level);
+          this.appendTunnelLog(tunnelId, level, message);
+        }, () => done);
+        
+        process.on("SIGHUP", reload);
+        const unwatch = options.watch ? this.watchConfigFile(reload) : () => {};
+        stopReloading = () => {
+          process.off("SIGHUP", reload);
+          unwatch();
+        };
+      }
+    });
+    
+    stopReloading();
+    stop();
+    process.off("SIGINT", ignoreSignal);
+    process.off("SIGTERM", stop);
+    tunnelLog.end();
+    removeProcessState(this.paths.stateDir, tunnelId);
+    return failure;
+  }
+  
+  // Runs cloudflared for a tunnel, or for a quick tunnel with `url`, and
+  // restarts it when it crashes until it is stopped. This is what the process
+  // started by startSupervisor does. Resolves with the exit code for that
+  // process.
+  async supervise(tunnelId: string, options: SuperviseOptions = {}): Promise<number> {
+    // Quick tunnels have no config entry and are never reloaded
+    const tunnel = options.url ? undefined : this.loadConfig().tunnels[tunnelId];
+    const inspect = options.inspectBodyLimit ? { bodyLimit: options.inspectBodyLimit } : undefined;
+    const gateways = options.gateways || [];
+    
+    // The proxies live as long as this process, across cloudflared restarts;
+    // a reload replaces them
+    let servers: http.Server[] = [];
+    try {
+      if (gateways.length > 0 && !tunnel) throw new Error("the tunnel is no longer configured");
+      servers = await this.startProxies(tunnelId, tunnel?.services || [], {
+        inspectors: options.inspectors || [],
+        gateways,
+        inspectBodyLimit: inspect?.bodyLimit,
+      });
+    } catch (err: any) {
+      this.appendTunnelLog(tunnelId, "error", err.message);
+      throw new TunnelError(err.message);
+    }
+    
+    const running = { configPath: options.configPath!, servers };
+    
+    // Events are only reported for configured tunnels, not quick ones
+    const stopMonitoring = tunnel ? this.monitorServiceHealth(tunnelId) : () => {};
+    if (tunnel) this.emitEvent("tunnel.started", tunnel);
+    
+    const metricsArgs = options.metricsAddress ? ["--metrics", options.metricsAddress] : [];
+    const args = options.url
+      ? ["tunnel", "--url", options.url, ...metricsArgs]
+      : this.cloudflaredTunnelArgs(["--config", options.configPath!, ...metricsArgs, "run"]);
+    const code = await superviseTunnel({
+      tunnelId,
+      configPath: options.configPath,
+      stateDir: this.paths.stateDir,
+      command: "cloudflared",
+      args,
+      logFile: this.getTunnelLogFile(tunnelId),
+      metricsAddress: options.metricsAddress,
+      reload: tunnel && options.configPath && options.metricsAddress
+        ? this.createReloadPlanner(tunnel, running, inspect)
+        : undefined,
+      watch: options.watch ? (reload) => this.watchConfigFile(reload) : undefined,
+      onEvent: (message, level) => {
+        this.log(message, level);
+        this.appendTunnelLog(tunnelId, level, message);
+      },
+      onCrash: (exit) => {
+        if (tunnel) this.emitEvent("tunnel.crashed", tunnel, { details: { exitCode: exit.code, signal: exit.signal, restarts: exit.restarts, gaveUp: exit.gaveUp } });
+      },
+    });
+    stopMonitoring();
+    running.servers.forEach(server => server.close());
+    if (tunnel && code === 0) this.emitEvent("tunnel.stopped", tunnel);
+    return code;
+  }
+  
+  // Starts the local proxies of a planned run. If one cannot start, those
+  // already started are closed again.
+  private async startProxies(
+    tunnelId: string,
+    services: Service[],
+    plan: { inspectors: InspectorSpec[]; gateways: GatewaySpec[]; inspectBodyLimit?: number },
+    onCapture?: (capture: Capture) => void
+  ): Promise<http.Server[]> {
+    const servers: http.Server[] = [];
+    try {
+      for (const spec of plan.inspectors) {
+        try {
+          servers.push(await startInspector({ ...spec, tunnelId, storeDir: this.paths.inspectDir, bodyLimit: plan.inspectBodyLimit, onCapture }));
+        } catch (err: any) {
+          throw new Error(`Could not start the inspector for ${spec.origin}: ${err.message}`);
+        }
+      }
+      for (const spec of plan.gateways) {
+        try {
+          const srv = services.find(s => serviceKey(s) === spec.service);
+          if (!srv?.access) throw new Error(`${spec.service} is no longer protected`);
+          servers.push(await startAccessGateway({ ...spec, access: srv.access }));
+        } catch (err: any) {
+          throw new Error(`Could not start the access gateway for ${spec.service}: ${err.message}`);
+        }
+      }
+    } catch (err) {
+      servers.forEach(server => server.close());
+      throw err;
+    }
+    return servers;
+  }
+  
+  // Prepares reloads of a tunnel run by this process: plans the run again from
+  // the current config, has cloudflared validate the generated config and starts
+  // the local proxies of the new connector. `running` is kept up to date with
+  // the config and proxies in use; those of the old connector are closed once
+  // it has exited.
+  private createReloadPlanner(
+    tunnel: TunnelEntry,
+    running: { configPath: string; servers: http.Server[] },
+    inspect?: { bodyLimit: number },
+    onCapture?: (capture: Capture) => void
+  ): () => Promise<ReloadPlan | null> {
+    let served = servedSignature(tunnel);
+    return async () => {
+      const config = this.loadConfig();
+      const updated = config.tunnels[tunnel.tunnelId];
+      if (!updated) throw new Error("the tunnel is no longer configured");
+      
+      const signature = servedSignature(updated);
+      if (signature === served) return null;
+      
+      // Until the new connector takes over, a restart of the old one reads its config again
+      const previousPath = running.configPath;
+      const previousConfig = fs.readFileSync(previousPath, "utf8");
+      const restore = () => fs.writeFileSync(previousPath, previousConfig);
+      
+      const plan = await this.planRun(config, updated, { inspect });
+      let servers: http.Server[];
+      try {
+        this.validateTunnelConfig(plan.configPath);
+        servers = await this.startProxies(updated.tunnelId, updated.services, plan, onCapture);
+      } catch (err) {
+        restore();
+        throw err;
+      }
+      
+      return {
+        args: plan.args,
+        configPath: plan.configPath,
+        metricsAddress: plan.metricsAddress,
+        commit: (previousExited) => {
+          const previousServers = running.servers;
+          previousExited.then(() => previousServers.forEach(server => server.close()));
+          Object.assign(running, { configPath: plan.configPath, servers });
+          served = signature;
+        },
+        abort: () => {
+          servers.forEach(server => server.close());
+          restore();
+        },
+      };
+    };
+  }
+  
+  // Calls `reload` when the config file changes. Saves replace the file, so it is
+  // polled rather than watched. Returns a function that stops watching.
+  private watchConfigFile(reload: () => void): () => void {
+    const listener = (current: fs.Stats, previous: fs.Stats) => {
+      if (current.mtimeMs !== previous.mtimeMs) reload();
+    };
+    fs.watchFile(this.paths.configFile, { interval: 1000 }, listener);
+    return () => fs.unwatchFile(this.paths.configFile, listener);
+  }
+  
+  // Checks the tunnel's services at their health check intervals while it runs,
+  // and tells the hooks for service.unhealthy about each one that turns
+  // unhealthy. Does nothing while no hook listens.
+  private monitorServiceHealth(tunnelId: string): () => void {
+    let configMtime = 0;
+    let tunnel: TunnelEntry | undefined;
+    let listening = false;
+    let checking = false;
+    const lastChecked = new Map<string, number>();
+    const lastHealthy = new Map<string, boolean>();
+    
+    const tick = async () => {
+      if (checking) return;
+      checking = true;
+      try {
+        const mtime = fs.statSync(this.paths.configFile).mtimeMs;
+        if (mtime !== configMtime) {
+          const config = this.loadConfig();
+          configMtime = mtime;
+          tunnel = config.tunnels[tunnelId];
+          listening = !!tunnel && this.getHooks(config, tunnelId, "service.unhealthy").length > 0;
+        }
+        if (!tunnel || !listening) return;
+        
+        const now = Date.now();
+        for (const srv of tunnel.services) {
+          const key = serviceKey(srv);
+          if (now - (lastChecked.get(key) || 0) < parseDuration(srv.healthCheck?.interval || DEFAULT_HEALTH_INTERVAL)) continue;
+          lastChecked.set(key, now);
+          
+          const result = await this.checkService(srv);
+          if (!result) continue;
+          if (!result.healthy && lastHealthy.get(key) !== false) {
+            this.emitEvent("service.unhealthy", tunnel, {
+              service: srv,
+              details: { error: result.error, statusCode: result.statusCode, latencyMs: result.latencyMs },
+            });
+          }
+          lastHealthy.set(key, result.healthy);
+        }
+      } catch (err) {
+        // The config is unreadable or being replaced; tried again on the next tick
+      } finally {
+        checking = false;
+      }
+    };
+    
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }
+}
+
+// One inspecting proxy per HTTP origin of the tunnel, on a free local port
+async function planInspectors(tunnel: TunnelEntry): Promise<InspectorSpec[]> {
+  const specs: InspectorSpec[] = [];
+  for (const srv of tunnel.services) {
+    if (!/^https?:\/\//.test(srv.service) || specs.some(spec => spec.origin === srv.service)) continue;
+    specs.push({ port: await findFreePort(), origin: srv.service, insecure: srv.originRequest?.noTLSVerify });
+  }
+  return specs;
+}
+
+// One access gateway per protected service, in front of its inspector if it has one
+async function planGateways(tunnel: TunnelEntry, inspectors: InspectorSpec[]): Promise<GatewaySpec[]> {
+  const specs: GatewaySpec[] = [];
+  for (const srv of tunnel.services.filter(s => isProtected(s.access))) {
+    const inspector = inspectors.find(spec => spec.origin === srv.service);
+    specs.push({
+      port: await findFreePort(),
+      origin: inspector ? `http://127.0.0.1:${inspector.port}` : srv.service,
+      insecure: inspector ? undefined : srv.originRequest?.noTLSVerify,
+      service: serviceKey(srv),
+    });
+  }
+  return specs;
+}
+
+function sameService(a: Service, b: Service): boolean {
+  const { createdAt: _a, updatedAt: _b, ...left } = a;
+  const { createdAt: _c, updatedAt: _d, ...right } = b;
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+// What a connector serves for a tunnel; reloads keep the running connector
+// while this is unchanged
+function servedSignature(tunnel: TunnelEntry): string {
+  return JSON.stringify(tunnel.services.map(srv => ({
+    ...srv,
+    hostname: resolveHostname(srv.hostname),
+    previews: undefined,
+    createdAt: undefined,
+    updatedAt: undefined,
+  })));
+}
+
+// The tunnel with its services pointed at their gateways and inspectors
+function proxiedTunnel(tunnel: TunnelEntry, inspectors: InspectorSpec[], gateways: GatewaySpec[]): TunnelEntry {
+  return {
+    ...tunnel,
+    services: tunnel.services.map(srv => {
+      const gateway = gateways.find(spec => spec.service === serviceKey(srv));
+      if (gateway) return { ...srv, service: `http://127.0.0.1:${gateway.port}`, access: undefined };
+      const inspector = inspectors.find(spec => spec.origin === srv.service);
+      return inspector ? { ...srv, service: `http://127.0.0.1:${inspector.port}` } : srv;
+    }),
+  };
+}
@@ -23,6 +23,32 @@ const server = http.createServer((req, res) => {
     return;
   }
 
+  // Stand-in for cloudflared's Prometheus endpoint, for `cloudtunnel top --address`
+  if (pathname === "/metrics") {
+    const errors = Math.floor(requestCount / 10);
+    res.statusCode = 200;
+    res.setHeader("Content-Type", "text/plain; version=0.0.4");
+    res.end([
+      "# TYPE cloudflared_tunnel_total_requests counter",
+      `cloudflared_tunnel_total_requests ${requestCount}`,
+      "# TYPE cloudflared_tunnel_request_errors counter",
+      `cloudflared_tunnel_request_errors ${errors}`,
+      "# TYPE cloudflared_tunnel_ha_connections gauge",
+      "cloudflared_tunnel_ha_connections 4",
+      "# TYPE cloudflared_tunnel_server_locations gauge",
+      'cloudflared_tunnel_server_locations{connection_id="0",edge_location="local"} 1',
+      "# TYPE cloudflared_tunnel_concurrent_requests_per_tunnel gauge",
+      "cloudflared_tunnel_concurrent_requests_per_tunnel 0",
+      "# TYPE cloudflared_proxy_connect_latency histogram",
+      `cloudflared_proxy_connect_latency_bucket{le="10"} ${requestCount}`,
+      `cloudflared_proxy_connect_latency_bucket{le="+Inf"} ${requestCount}`,
+      `cloudflared_proxy_connect_latency_sum ${requestCount * 2}`,
+      `cloudflared_proxy_connect_latency_count ${requestCount}`,
+      "",
+    ].join("\n"));
+    return;
+  }
+
   // Echo endpoint for debugging
   if (pathname === "/echo") {
     const body = {
@@ -334,6 +360,7 @@ server.listen(PORT, () => {
 ║     GET  /        - Main test page         ║
 ║     GET  /health  - Health check (JSON)    ║
 ║     ANY  /echo    - Echo request (JSON)    ║
+║     GET  /metrics - Stand-in tunnel metrics║
 ║                                            ║
 ║  💡 Add this to your tunnel:               ║
 ║     cloudtunnel add --port ${PORT}            ║